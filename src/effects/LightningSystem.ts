@@ -1,6 +1,8 @@
 import { Vector2 } from "../engine/Vector2";
 import type { GameState } from "../engine/GameState";
 import { LightingEffects } from "./LightingEffects";
+import type { RandomStream } from "../engine/Random";
+import { unseededRandom } from "../engine/Random";
 
 interface LightningSegment {
   start: Vector2;
@@ -46,16 +48,20 @@ export class LightningSystem {
   private maxLightningInterval: number = 8;
   private ambientLightLevel: number = 0;
   private stormIntensity: number = 0.5;
+  // Off for levels (or zones) without lightning; strikes already under way play out
+  private enabled: boolean = true;
   private lightingEffects: LightingEffects;
+  private random: RandomStream;
 
-  constructor() {
+  constructor(random: RandomStream = unseededRandom.cosmetic) {
+    this.random = random;
     this.lightingEffects = new LightingEffects();
     this.scheduleNextLightning();
   }
 
   private scheduleNextLightning(): void {
     const interval = this.minLightningInterval + 
-      Math.random() * (this.maxLightningInterval - this.minLightningInterval);
+      this.random.next() * (this.maxLightningInterval - this.minLightningInterval);
     this.nextLightningTimer = interval / (0.5 + this.stormIntensity);
   }
 
@@ -66,9 +72,9 @@ export class LightningSystem {
     const screenLeft = camera.position.x - 100;
     const screenRight = camera.position.x + 900;
 
-    const startX = screenLeft + Math.random() * (screenRight - screenLeft);
+    const startX = screenLeft + this.random.next() * (screenRight - screenLeft);
     const startY = screenTop;
-    const endX = startX + (Math.random() - 0.5) * 400;
+    const endX = startX + (this.random.next() - 0.5) * 400;
     const endY = screenBottom;
 
     const mainPath = this.generateMainPath(
@@ -84,25 +90,25 @@ export class LightningSystem {
       mainPath,
       branches,
       life: 0,
-      maxLife: 0.15 + Math.random() * 0.15,
+      maxLife: 0.15 + this.random.next() * 0.15,
       flickerTimer: 0,
       flickerState: true,
-      intensity: 0.8 + Math.random() * 0.2,
+      intensity: 0.8 + this.random.next() * 0.2,
       active: true,
     };
   }
 
   private generateMainPath(start: Vector2, end: Vector2): Vector2[] {
     const path: Vector2[] = [start];
-    const segments = 15 + Math.random() * 10;
+    const segments = 15 + this.random.next() * 10;
     
     for (let i = 1; i < segments; i++) {
       const progress = i / segments;
       const baseX = start.x + (end.x - start.x) * progress;
       const baseY = start.y + (end.y - start.y) * progress;
       
-      const jitterX = (Math.random() - 0.5) * 80 * (1 - Math.abs(progress - 0.5) * 2);
-      const jitterY = (Math.random() - 0.5) * 40;
+      const jitterX = (this.random.next() - 0.5) * 80 * (1 - Math.abs(progress - 0.5) * 2);
+      const jitterY = (this.random.next() - 0.5) * 40;
       
       path.push(new Vector2(baseX + jitterX, baseY + jitterY));
     }
@@ -117,7 +123,7 @@ export class LightningSystem {
     for (let i = 0; i < path.length - 1; i++) {
       const progress = i / (path.length - 1);
       const thickness = 3 + (1 - progress) * 4;
-      const brightness = 0.8 + Math.random() * 0.2;
+      const brightness = 0.8 + this.random.next() * 0.2;
       
       segments.push({
         start: path[i],
@@ -136,18 +142,18 @@ export class LightningSystem {
     const branchPoints = Math.floor(mainPath.length * 0.3);
     
     for (let i = 0; i < branchPoints; i++) {
-      const mainIndex = Math.floor(Math.random() * (mainPath.length - 1));
+      const mainIndex = Math.floor(this.random.next() * (mainPath.length - 1));
       const branchStart = mainPath[mainIndex];
       
-      const branchLength = 80 + Math.random() * 120;
-      const branchAngle = (Math.random() - 0.5) * Math.PI * 0.8;
+      const branchLength = 80 + this.random.next() * 120;
+      const branchAngle = (this.random.next() - 0.5) * Math.PI * 0.8;
       
-      const branchSegments = 3 + Math.random() * 4;
+      const branchSegments = 3 + this.random.next() * 4;
       let currentPoint = branchStart;
       
       for (let j = 0; j < branchSegments; j++) {
         const segmentLength = branchLength / branchSegments;
-        const jitter = (Math.random() - 0.5) * 30;
+        const jitter = (this.random.next() - 0.5) * 30;
         
         const nextPoint = new Vector2(
           currentPoint.x + Math.cos(branchAngle) * segmentLength + jitter,
@@ -157,14 +163,14 @@ export class LightningSystem {
         branches.push({
           start: currentPoint,
           end: nextPoint,
-          thickness: 1 + Math.random() * 2,
-          brightness: 0.6 + Math.random() * 0.3,
+          thickness: 1 + this.random.next() * 2,
+          brightness: 0.6 + this.random.next() * 0.3,
           branchLevel: 1,
         });
         
         currentPoint = nextPoint;
         
-        if (Math.random() < 0.3) {
+        if (this.random.next() < 0.3) {
           const subBranch = this.generateSubBranch(currentPoint, branchAngle, 2);
           branches.push(...subBranch);
         }
@@ -179,14 +185,14 @@ export class LightningSystem {
     
     const branches: LightningSegment[] = [];
     const branchLength = 40 / level;
-    const branchAngle = baseAngle + (Math.random() - 0.5) * Math.PI * 0.6;
+    const branchAngle = baseAngle + (this.random.next() - 0.5) * Math.PI * 0.6;
     
-    const segments = 2 + Math.random() * 2;
+    const segments = 2 + this.random.next() * 2;
     let currentPoint = start;
     
     for (let i = 0; i < segments; i++) {
       const segmentLength = branchLength / segments;
-      const jitter = (Math.random() - 0.5) * 20;
+      const jitter = (this.random.next() - 0.5) * 20;
       
       const nextPoint = new Vector2(
         currentPoint.x + Math.cos(branchAngle) * segmentLength + jitter,
@@ -217,15 +223,15 @@ export class LightningSystem {
     });
   }
 
-  private createThunderEffect(delay: number): void {
-    setTimeout(() => {
+  private createThunderEffect(delay: number, gameState: GameState): void {
+    gameState.schedule(delay, () => {
       this.thunderEffects.push({
-        shakeIntensity: 4 + Math.random() * 6,
+        shakeIntensity: 4 + this.random.next() * 6,
         shakeTimer: 0,
-        shakeDuration: 0.3 + Math.random() * 0.4,
+        shakeDuration: 0.3 + this.random.next() * 0.4,
         active: true,
       });
-    }, delay * 1000);
+    });
   }
 
   private triggerLightning(gameState: GameState): void {
@@ -234,8 +240,8 @@ export class LightningSystem {
     
     this.createLightningFlash(bolt.intensity);
     
-    const thunderDelay = 1 + Math.random() * 3;
-    this.createThunderEffect(thunderDelay);
+    const thunderDelay = 1 + this.random.next() * 3;
+    this.createThunderEffect(thunderDelay, gameState);
     
     this.ambientLightLevel = 0.3;
     
@@ -247,10 +253,12 @@ export class LightningSystem {
   }
 
   update(deltaTime: number, gameState: GameState): void {
-    this.nextLightningTimer -= deltaTime;
-    if (this.nextLightningTimer <= 0) {
-      this.triggerLightning(gameState);
-      this.scheduleNextLightning();
+    if (this.enabled) {
+      this.nextLightningTimer -= deltaTime;
+      if (this.nextLightningTimer <= 0) {
+        this.triggerLightning(gameState);
+        this.scheduleNextLightning();
+      }
     }
 
     this.ambientLightLevel = Math.max(0, this.ambientLightLevel - deltaTime * 0.5);
@@ -400,8 +408,8 @@ export class LightningSystem {
       const shakeProgress = thunder.shakeTimer / thunder.shakeDuration;
       const shakeIntensity = thunder.shakeIntensity * (1 - shakeProgress);
       
-      const shakeX = (Math.random() - 0.5) * shakeIntensity;
-      const shakeY = (Math.random() - 0.5) * shakeIntensity;
+      const shakeX = (this.random.next() - 0.5) * shakeIntensity;
+      const shakeY = (this.random.next() - 0.5) * shakeIntensity;
       
       ctx.translate(shakeX, shakeY);
     }
@@ -417,6 +425,14 @@ export class LightningSystem {
     return this.stormIntensity;
   }
 
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
   triggerImmediateLightning(gameState: GameState): void {
     this.triggerLightning(gameState);
   }
@@ -3,6 +3,8 @@ import { Vector2 } from "../engine/Vector2";
 import type { DiagonalPlatform } from "../objects/diagonalPlatform";
 import type { Platform } from "../objects/platform";
 import type { SolidBlock } from "../objects/solidBlock";
+import type { RandomStream } from "../engine/Random";
+import { unseededRandom } from "../engine/Random";
 
 interface RainDrop {
   position: Vector2;
@@ -31,11 +33,17 @@ export class RainSystem {
   private spawnRate: number = 0.02;
   private spawnTimer: number = 0;
   private windForce: number = 0.5;
+  // Steady wind from the level's weather; windForce is the random gust on top
+  private wind: Vector2 = new Vector2(0, 0);
+  // Off indoors: no new drops, the ones already falling land as usual
+  private enabled: boolean = true;
   private gravity: number = 500;
   private pooledDrops: RainDrop[] = [];
   private pooledSplashes: RainSplash[] = [];
+  private random: RandomStream;
 
-  constructor() {
+  constructor(random: RandomStream = unseededRandom.cosmetic) {
+    this.random = random;
     this.initializePool();
   }
 
@@ -94,12 +102,12 @@ export class RainSystem {
     const screenRight = camera.position.x + 900;
     const screenTop = camera.position.y - 100;
 
-    drop.position.x = screenLeft + Math.random() * (screenRight - screenLeft);
-    drop.position.y = screenTop + Math.random() * 50;
-    drop.velocity.x = -this.windForce + Math.random() * this.windForce * 2;
-    drop.velocity.y = 200 + Math.random() * 100;
-    drop.size = 2 + Math.random() * 2;
-    drop.alpha = 0.4 + Math.random() * 0.4;
+    drop.position.x = screenLeft + this.random.next() * (screenRight - screenLeft);
+    drop.position.y = screenTop + this.random.next() * 50;
+    drop.velocity.x = this.wind.x - this.windForce + this.random.next() * this.windForce * 2;
+    drop.velocity.y = 200 + this.random.next() * 100 + this.wind.y;
+    drop.size = 2 + this.random.next() * 2;
+    drop.alpha = 0.4 + this.random.next() * 0.4;
 
     this.rainDrops.push(drop);
   }
@@ -138,21 +146,21 @@ export class RainSystem {
       return false;
     };
 
-    for (const platform of gameState.platforms) {
+    for (const platform of gameState.getCollisionPlatforms()) {
       if (checkPlatformCollision(platform)) {
         this.createSplash(drop.position.x, platform.position.y);
         return true;
       }
     }
 
-    for (const solidBlock of gameState.solidBlocks) {
+    for (const solidBlock of gameState.getCollisionSolidBlocks()) {
       if (checkPlatformCollision(solidBlock)) {
         this.createSplash(drop.position.x, solidBlock.position.y);
         return true;
       }
     }
 
-    for (const diagonalPlatform of gameState.diagonalPlatforms) {
+    for (const diagonalPlatform of gameState.getCollisionDiagonalPlatforms()) {
       if (checkDiagonalPlatformCollision(diagonalPlatform)) {
         const relativeX = drop.position.x - diagonalPlatform.position.x;
         const normalizedX = relativeX / diagonalPlatform.size.x;
@@ -172,16 +180,16 @@ export class RainSystem {
     splash.position.x = x;
     splash.position.y = y;
 
-    const particleCount = 3 + Math.random() * 4;
+    const particleCount = 3 + this.random.next() * 4;
     for (let i = 0; i < particleCount; i++) {
-      const angle = Math.PI + Math.random() * Math.PI;
-      const speed = 50 + Math.random() * 100;
-      const maxLife = 0.2 + Math.random() * 0.3;
+      const angle = Math.PI + this.random.next() * Math.PI;
+      const speed = 50 + this.random.next() * 100;
+      const maxLife = 0.2 + this.random.next() * 0.3;
 
       splash.particles.push({
         position: new Vector2(x, y),
         velocity: new Vector2(Math.cos(angle) * speed, Math.sin(angle) * speed),
-        size: 1 + Math.random() * 2,
+        size: 1 + this.random.next() * 2,
         life: 0,
         maxLife: maxLife,
       });
@@ -192,7 +200,11 @@ export class RainSystem {
 
   update(deltaTime: number, gameState: GameState): void {
     this.spawnTimer += deltaTime;
-    if (this.spawnTimer >= this.spawnRate && this.rainDrops.length < this.maxRainDrops) {
+    if (
+      this.enabled &&
+      this.spawnTimer >= this.spawnRate &&
+      this.rainDrops.length < this.maxRainDrops
+    ) {
       this.spawnRainDrop(gameState);
       this.spawnTimer = 0;
     }
@@ -275,6 +287,18 @@ export class RainSystem {
     this.windForce = force;
   }
 
+  setWind(wind: Vector2): void {
+    this.wind = wind.copy();
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
   getActiveDropCount(): number {
     return this.rainDrops.length;
   }
@@ -292,6 +316,8 @@ export class RainSystem {
 
   // Adds initial raindrops so the effect is visible as soon as the game starts.
   seedInitialRain(gameState: GameState, fillRatio: number = 0.7): void {
+    if (!this.enabled) return;
+
     // Ensure ratio is clamped between 0 and 1
     const ratio = Math.max(0, Math.min(1, fillRatio));
     const initialCount = Math.floor(this.maxRainDrops * ratio);
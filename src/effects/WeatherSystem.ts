@@ -1,6 +1,44 @@
 import type { GameState } from "../engine/GameState";
 import type { RainSystem } from "./RainSystem";
 import type { LightningSystem } from "./LightningSystem";
+import type { RandomStream } from "../engine/Random";
+import { unseededRandom } from "../engine/Random";
+import { Vector2 } from "../engine/Vector2";
+import type { WeatherData, WeatherMode, WeatherZoneData } from "../levels/LevelData";
+
+export const WEATHER_MODE_INTENSITY: Record<WeatherMode, number> = {
+  clear: 0,
+  light: 0.2,
+  moderate: 0.5,
+  heavy: 0.8,
+  storm: 1.0,
+};
+
+// Weather for levels that do not declare any: an outdoor storm drifting between calm and heavy
+const DEFAULT_WEATHER = {
+  minIntensity: 0,
+  maxIntensity: 1,
+  lightning: true,
+  indoor: false,
+  wind: new Vector2(0, 0),
+};
+
+/**
+ * Fields set in the override win; unset ones keep the base value
+ */
+function mergeWeather(base: WeatherData, override: WeatherData): WeatherData {
+  const merged: WeatherData = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+function copyWeather(weather: WeatherData): WeatherData {
+  return { ...weather, ...(weather.wind && { wind: weather.wind.copy() }) };
+}
 
 export class WeatherSystem {
   private rainSystem: RainSystem;
@@ -9,8 +47,21 @@ export class WeatherSystem {
   private weatherTransitionTimer: number = 0;
   private targetStormIntensity: number = 0.5;
   private transitionSpeed: number = 0.1;
+  private minIntensity: number = DEFAULT_WEATHER.minIntensity;
+  private maxIntensity: number = DEFAULT_WEATHER.maxIntensity;
+  private random: RandomStream;
 
-  constructor(rainSystem: RainSystem, lightningSystem: LightningSystem) {
+  // Weather declared by the current level, and the zone the player is standing in (-1 for none)
+  private levelWeather: WeatherData | undefined;
+  private zones: WeatherZoneData[] = [];
+  private activeZoneIndex: number = -1;
+
+  constructor(
+    rainSystem: RainSystem,
+    lightningSystem: LightningSystem,
+    random: RandomStream = unseededRandom.cosmetic,
+  ) {
+    this.random = random;
     this.rainSystem = rainSystem;
     this.lightningSystem = lightningSystem;
     this.synchronizeWeatherSystems();
@@ -21,23 +72,113 @@ export class WeatherSystem {
     this.lightningSystem.setStormIntensity(this.stormIntensity);
   }
 
-  update(deltaTime: number): void {
+  /**
+   * Take on a level's weather and zones. The level weather applies at once, without a transition.
+   */
+  loadLevelWeather(weather: WeatherData | undefined, zones: WeatherZoneData[] = []): void {
+    this.levelWeather = weather && copyWeather(weather);
+    this.zones = zones.map((zone) => ({
+      position: zone.position.copy(),
+      size: zone.size.copy(),
+      weather: copyWeather(zone.weather),
+    }));
+    this.activeZoneIndex = -1;
+    this.applyWeather(this.levelWeather ?? {}, true);
+  }
+
+  getLevelWeather(): WeatherData | undefined {
+    return this.levelWeather && copyWeather(this.levelWeather);
+  }
+
+  getWeatherZones(): WeatherZoneData[] {
+    return this.zones.map((zone) => ({
+      position: zone.position.copy(),
+      size: zone.size.copy(),
+      weather: copyWeather(zone.weather),
+    }));
+  }
+
+  /**
+   * Index of the zone the player is in, or -1 when they are under the level's own weather
+   */
+  getActiveZoneIndex(): number {
+    return this.activeZoneIndex;
+  }
+
+  /**
+   * @param focus Point that picks the weather zone (the player); omit to stay in the current zone
+   */
+  update(deltaTime: number, focus?: { x: number; y: number }): void {
+    if (focus) {
+      this.updateActiveZone(focus);
+    }
+
     this.weatherTransitionTimer += deltaTime;
 
     if (Math.abs(this.stormIntensity - this.targetStormIntensity) > 0.01) {
       const direction = this.targetStormIntensity > this.stormIntensity ? 1 : -1;
       this.stormIntensity += direction * this.transitionSpeed * deltaTime;
       this.stormIntensity = Math.max(0, Math.min(1, this.stormIntensity));
-      
+
       this.synchronizeWeatherSystems();
     }
 
-    if (this.weatherTransitionTimer > 30 + Math.random() * 60) {
-      this.targetStormIntensity = Math.random();
+    if (this.weatherTransitionTimer > 30 + this.random.next() * 60) {
+      this.targetStormIntensity =
+        this.minIntensity + this.random.next() * (this.maxIntensity - this.minIntensity);
       this.weatherTransitionTimer = 0;
     }
   }
 
+  private updateActiveZone(focus: { x: number; y: number }): void {
+    // Earlier zones win where zones overlap
+    const zoneIndex = this.zones.findIndex(
+      (zone) =>
+        focus.x >= zone.position.x &&
+        focus.x < zone.position.x + zone.size.x &&
+        focus.y >= zone.position.y &&
+        focus.y < zone.position.y + zone.size.y,
+    );
+    if (zoneIndex === this.activeZoneIndex) return;
+
+    this.activeZoneIndex = zoneIndex;
+    const base = this.levelWeather ?? {};
+    const zone = this.zones[zoneIndex];
+    // Zone changes ease in through the usual intensity transition
+    this.applyWeather(zone ? mergeWeather(base, zone.weather) : base, false);
+  }
+
+  private applyWeather(weather: WeatherData, immediate: boolean): void {
+    const indoor = weather.indoor ?? DEFAULT_WEATHER.indoor;
+    this.minIntensity = Math.max(
+      0,
+      Math.min(1, weather.minIntensity ?? DEFAULT_WEATHER.minIntensity),
+    );
+    this.maxIntensity = Math.max(
+      this.minIntensity,
+      Math.min(1, weather.maxIntensity ?? DEFAULT_WEATHER.maxIntensity),
+    );
+
+    const target = weather.mode ? WEATHER_MODE_INTENSITY[weather.mode] : this.targetStormIntensity;
+    this.targetStormIntensity = Math.max(this.minIntensity, Math.min(this.maxIntensity, target));
+    this.weatherTransitionTimer = 0;
+
+    this.rainSystem.setWind(weather.wind ?? DEFAULT_WEATHER.wind);
+    this.rainSystem.setEnabled(!indoor);
+    this.lightningSystem.setEnabled(!indoor && (weather.lightning ?? DEFAULT_WEATHER.lightning));
+
+    if (immediate) {
+      // Start at the declared mode, otherwise keep the current storm as far as the range allows
+      this.stormIntensity = weather.mode
+        ? this.targetStormIntensity
+        : Math.max(this.minIntensity, Math.min(this.maxIntensity, this.stormIntensity));
+      this.synchronizeWeatherSystems();
+      if (indoor) {
+        this.rainSystem.clear();
+      }
+    }
+  }
+
   setStormIntensity(intensity: number): void {
     this.targetStormIntensity = Math.max(0, Math.min(1, intensity));
   }
@@ -50,24 +191,8 @@ export class WeatherSystem {
     this.lightningSystem.triggerImmediateLightning(gameState);
   }
 
-  setWeatherMode(mode: 'clear' | 'light' | 'moderate' | 'heavy' | 'storm'): void {
-    switch (mode) {
-      case 'clear':
-        this.setStormIntensity(0);
-        break;
-      case 'light':
-        this.setStormIntensity(0.2);
-        break;
-      case 'moderate':
-        this.setStormIntensity(0.5);
-        break;
-      case 'heavy':
-        this.setStormIntensity(0.8);
-        break;
-      case 'storm':
-        this.setStormIntensity(1.0);
-        break;
-    }
+  setWeatherMode(mode: WeatherMode): void {
+    this.setStormIntensity(WEATHER_MODE_INTENSITY[mode]);
   }
 
   clear(): void {
@@ -76,4 +201,4 @@ export class WeatherSystem {
     this.stormIntensity = 0;
     this.targetStormIntensity = 0;
   }
-}
\ No newline at end of file
+}
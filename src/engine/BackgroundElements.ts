@@ -0,0 +1,73 @@
+import type { BackgroundElementData } from "@/levels/LevelData";
+
+export const BACKGROUND_ELEMENT_TYPES = ["rect", "pillar", "window", "banner"] as const;
+
+/**
+ * Draw a decorative background element in world space. Unknown types are drawn as plain rectangles.
+ */
+export function renderBackgroundElement(
+  ctx: CanvasRenderingContext2D,
+  element: BackgroundElementData,
+): void {
+  const { x, y } = element.position;
+  const { x: width, y: height } = element.size;
+
+  ctx.save();
+  ctx.fillStyle = element.color;
+
+  switch (element.type) {
+    case "pillar": {
+      // Shaft with a wider capital and base
+      const capHeight = Math.min(12, height / 6);
+      ctx.fillRect(x + width * 0.1, y, width * 0.8, height);
+      ctx.fillRect(x, y, width, capHeight);
+      ctx.fillRect(x, y + height - capHeight, width, capHeight);
+
+      // Shadow down one side for depth
+      ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
+      ctx.fillRect(x + width * 0.65, y + capHeight, width * 0.25, height - capHeight * 2);
+      break;
+    }
+
+    case "window": {
+      // Arched frame
+      const radius = width / 2;
+      ctx.beginPath();
+      ctx.moveTo(x, y + height);
+      ctx.lineTo(x, y + radius);
+      ctx.arc(x + radius, y + radius, radius, Math.PI, 0);
+      ctx.lineTo(x + width, y + height);
+      ctx.closePath();
+      ctx.fill();
+
+      // Dark glass with a cross of leading
+      ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+      ctx.fillRect(x + width * 0.45, y + radius * 0.4, width * 0.1, height - radius * 0.4);
+      ctx.fillRect(x, y + height * 0.55, width, Math.max(2, height * 0.04));
+      break;
+    }
+
+    case "banner": {
+      // Cloth hanging from the top with a notched tail
+      const notch = Math.min(width / 2, height / 4);
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x + width, y);
+      ctx.lineTo(x + width, y + height);
+      ctx.lineTo(x + width / 2, y + height - notch);
+      ctx.lineTo(x, y + height);
+      ctx.closePath();
+      ctx.fill();
+
+      // Rod
+      ctx.fillStyle = "#3A2A1A";
+      ctx.fillRect(x - 4, y - 3, width + 8, 4);
+      break;
+    }
+
+    default:
+      ctx.fillRect(x, y, width, height);
+  }
+
+  ctx.restore();
+}
@@ -1,14 +1,22 @@
+import type { RandomStream } from "./Random";
+import { unseededRandom } from "./Random";
 import { Vector2 } from "./Vector2";
 
 export class Camera {
   position: Vector2;
+  previousPosition: Vector2;
   shakeTimer: number;
   shakeDuration: number;
   shakeIntensity: number;
   shakeOffset: Vector2;
+  // Scale the world is drawn at; only the level editor zooms, the game always plays at 1
+  zoom: number = 1;
+  private random: RandomStream;
 
-  constructor() {
+  constructor(random: RandomStream = unseededRandom.cosmetic) {
+    this.random = random;
     this.position = new Vector2(0, 0);
+    this.previousPosition = new Vector2(0, 0);
     this.shakeTimer = 0;
     this.shakeDuration = 0;
     this.shakeIntensity = 0;
@@ -52,8 +60,8 @@ export class Camera {
       this.shakeTimer -= deltaTime;
 
       const intensity = (this.shakeTimer / this.shakeDuration) * this.shakeIntensity;
-      this.shakeOffset.x = (Math.random() - 0.5) * intensity * 2;
-      this.shakeOffset.y = (Math.random() - 0.5) * intensity * 2;
+      this.shakeOffset.x = (this.random.next() - 0.5) * intensity * 2;
+      this.shakeOffset.y = (this.random.next() - 0.5) * intensity * 2;
     } else {
       this.shakeOffset.x = 0;
       this.shakeOffset.y = 0;
@@ -66,17 +74,36 @@ export class Camera {
     this.shakeIntensity = intensity;
   }
 
-  apply(ctx: CanvasRenderingContext2D): void {
-    // Round to integer pixels for pixel-perfect rendering
-    const x = Math.round(-this.position.x + this.shakeOffset.x);
-    const y = Math.round(-this.position.y + this.shakeOffset.y);
-    ctx.translate(x, y);
+  /**
+   * Remember the current position as the start of the next simulation step
+   */
+  savePreviousPosition(): void {
+    this.previousPosition.x = this.position.x;
+    this.previousPosition.y = this.position.y;
+  }
+
+  /**
+   * Get the camera position blended between the last two simulation steps
+   */
+  getInterpolatedPosition(alpha: number): Vector2 {
+    return new Vector2(
+      this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha,
+      this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha,
+    );
   }
 
-  reset(ctx: CanvasRenderingContext2D): void {
+  apply(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+    const renderPos = this.getInterpolatedPosition(alpha);
     // Round to integer pixels for pixel-perfect rendering
-    const x = Math.round(this.position.x - this.shakeOffset.x);
-    const y = Math.round(this.position.y - this.shakeOffset.y);
+    const x = Math.round(-renderPos.x + this.shakeOffset.x);
+    const y = Math.round(-renderPos.y + this.shakeOffset.y);
+    // Saved so reset can undo the zoom exactly instead of scaling back by its inverse
+    ctx.save();
+    ctx.scale(this.zoom, this.zoom);
     ctx.translate(x, y);
   }
+
+  reset(ctx: CanvasRenderingContext2D, _alpha: number = 1): void {
+    ctx.restore();
+  }
 }
@@ -0,0 +1,42 @@
+/**
+ * Source of the current time in milliseconds
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Wall-clock time, used by the browser game
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Clock that only moves when advanced explicitly (headless runs, replays)
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Move the clock forward by the given number of milliseconds
+   */
+  advance(milliseconds: number): void {
+    this.time += milliseconds;
+  }
+
+  /**
+   * Jump to an absolute time (replays restore the recorded start time)
+   */
+  setTime(milliseconds: number): void {
+    this.time = milliseconds;
+  }
+}
@@ -1,10 +1,16 @@
 import type { GameState } from "./GameState";
+import type { RandomStream } from "./Random";
+import { unseededRandom } from "./Random";
 import { Vector2 } from "./Vector2";
 
 export type ShakeType = 'random' | 'horizontal' | 'vertical';
 
 export class GameObject {
+  /** Blend factor between the previous and current simulation step, set once per rendered frame */
+  static interpolationAlpha = 1;
+
   position: Vector2;
+  previousPosition: Vector2;
   velocity: Vector2;
   size: Vector2;
   active: boolean;
@@ -24,6 +30,7 @@ export class GameObject {
   }) {
     const { x, y, width, height } = args;
     this.position = new Vector2(x, y);
+    this.previousPosition = new Vector2(x, y);
     this.velocity = new Vector2(0, 0);
     this.size = new Vector2(width, height);
     this.active = true;
@@ -76,7 +83,11 @@ export class GameObject {
     this.shakeFrequency = frequency;
   }
 
-  updateShake(deltaTime: number, isFrozen: boolean): void {
+  updateShake(
+    deltaTime: number,
+    isFrozen: boolean,
+    random: RandomStream = unseededRandom.cosmetic,
+  ): void {
     if (isFrozen) return;
     if (this.shakeTimer > 0) {
       this.shakeTimer -= deltaTime;
@@ -101,8 +112,8 @@ export class GameObject {
         
         default:
           // Original random shake
-          this.shakeOffset.x = (Math.random() - 0.5) * 2 * this.shakeIntensity;
-          this.shakeOffset.y = (Math.random() - 0.5) * 2 * this.shakeIntensity;
+          this.shakeOffset.x = (random.next() - 0.5) * 2 * this.shakeIntensity;
+          this.shakeOffset.y = (random.next() - 0.5) * 2 * this.shakeIntensity;
           break;
       }
 
@@ -114,10 +125,29 @@ export class GameObject {
     }
   }
 
+  /**
+   * Remember the current position as the start of the next simulation step
+   */
+  savePreviousPosition(): void {
+    this.previousPosition.x = this.position.x;
+    this.previousPosition.y = this.position.y;
+  }
+
+  /**
+   * Get the position blended between the last two simulation steps
+   */
+  getInterpolatedPosition(alpha: number = GameObject.interpolationAlpha): Vector2 {
+    return new Vector2(
+      this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha,
+      this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha,
+    );
+  }
+
   getRenderPosition(): Vector2 {
+    const interpolated = this.getInterpolatedPosition();
     // Round to integer pixels for pixel-perfect rendering
-    const x = Math.round(this.position.x + this.shakeOffset.x);
-    const y = Math.round(this.position.y + this.shakeOffset.y);
+    const x = Math.round(interpolated.x + this.shakeOffset.x);
+    const y = Math.round(interpolated.y + this.shakeOffset.y);
     return new Vector2(x, y);
   }
 }
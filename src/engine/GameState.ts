@@ -1,5 +1,15 @@
 import { HUD } from "@/hud/HUD";
+import { GameEvent } from "@/interfaces/GameInterfaces";
+import type {
+  BackgroundElementData,
+  EntryPointData,
+  LevelData,
+  ParallaxLayerData,
+} from "@/levels/LevelData";
+import type { EditorLayerId } from "@/levels/LevelEditor/EditorLayers";
 import { LevelManager } from "@/levels/LevelManager";
+import type { Checkpoint } from "@/objects/checkpoint";
+import type { Door } from "@/objects/door";
 import type { DiagonalPlatform } from "@/objects/diagonalPlatform";
 import type { Enemy } from "@/objects/enemies/enemy";
 import type { Experience } from "@/objects/experience";
@@ -11,19 +21,53 @@ import { EnergyBlast } from "@/objects/projectile";
 import type { SolidBlock } from "@/objects/solidBlock";
 import { CollisionSystem } from "@/systems/CollisionSystem";
 import { ComboSystem } from "@/systems/ComboSystem";
+import type { EventSystem, LevelEventData } from "@/systems/EventSystem";
+import { gameEvents } from "@/systems/EventSystem";
 import { GameObjectManager } from "@/systems/GameObjectManager";
 import { HitFeedbackManager } from "@/systems/HitFeedbackManager";
+import { LifeSystem } from "@/systems/LifeSystem";
 import { MPManager } from "@/systems/MPManager";
 import { ChainReactionTracker } from "@/systems/ChainReactionTracker";
 import { MPAbilitySystem } from "@/systems/MPAbilitySystem";
 import { TutorialSystem } from "@/systems/TutorialSystem";
+import { WorldProgress } from "@/systems/WorldProgress";
+import { ReplayManager } from "@/systems/ReplayManager";
+import { RoomTransitionSystem } from "@/systems/RoomTransitionSystem";
+import { SaveManager } from "@/systems/SaveManager";
 import { PowerSurgeAbility } from "@/systems/abilities/PowerSurgeAbility";
 import { LightningSystem } from "../effects/LightningSystem";
 import { RainSystem } from "../effects/RainSystem";
 import { WeatherSystem } from "../effects/WeatherSystem";
+import { renderBackgroundElement } from "./BackgroundElements";
 import { Camera } from "./Camera";
+import type { Clock } from "./Clock";
+import { systemClock } from "./Clock";
+import { GameObject } from "./GameObject";
+import type { InputSource } from "./Input";
 import { Input } from "./Input";
+import { ActionInput, GameAction, InputBindings } from "./InputBindings";
+import type { KeyValueStorage } from "./KeyValueStorage";
+import { getDefaultStorage } from "./KeyValueStorage";
 import { ParallaxBackground } from "./ParallaxBackground";
+import { RandomService } from "./Random";
+import type { TileMap } from "./TileMap";
+import { TileRenderer } from "./TileRenderer";
+import { VersionedStorage } from "./VersionedStorage";
+
+/**
+ * Dependencies GameState would otherwise take from the browser. Headless runs inject their own.
+ */
+export interface GameStateOptions {
+  input?: InputSource;
+  storage?: KeyValueStorage;
+  clock?: Clock;
+  // Seed for the gameplay and cosmetic random streams; random when omitted
+  seed?: number;
+  // Levels to register; the browser game passes the bundled ones from src/levels/levels
+  levels?: LevelData[];
+  // Event bus for GameEvent notifications; the global gameEvents by default
+  events?: EventSystem;
+}
 
 export class GameState {
   levelManager: LevelManager;
@@ -35,9 +79,29 @@ export class GameState {
   diagonalPlatforms: DiagonalPlatform[];
   hitSparks: HitSpark[];
   memoryCrystals: MemoryCrystal[];
+  checkpoints: Checkpoint[];
+  doors: Door[];
+  // Level data with no game object of its own, kept so the editor can save it back out
+  backgroundColor: string = "#2C1810";
+  backgroundElements: BackgroundElementData[] = [];
+  // The level's own parallax theme; undefined when it uses the default backdrop
+  backgroundParallax: ParallaxLayerData[] | undefined;
+  entryPoints: EntryPointData[] = [];
+  // Terrain painted on the level's tile grid; null when the level has none
+  tileMap: TileMap | null = null;
+  tileRenderer: TileRenderer = new TileRenderer();
   experiences: Experience[];
   energyBlasts: EnergyBlast[];
-  input: Input;
+  // Device input wrapped so gameplay can query GameActions
+  input: InputSource;
+  bindings: InputBindings;
+  paused: boolean = false;
+  storage: KeyValueStorage;
+  // Versioned, migrating view of storage shared by everything that persists data
+  persistence: VersionedStorage;
+  clock: Clock;
+  random: RandomService;
+  events: EventSystem;
   camera: Camera;
   parallaxBackground: ParallaxBackground;
   hitPauseTimer: number;
@@ -53,6 +117,8 @@ export class GameState {
     amount: number;
     x: number;
     y: number;
+    // y at the start of the current simulation step
+    previousY: number;
     alpha: number;
     vy: number;
     time: number;
@@ -65,15 +131,30 @@ export class GameState {
   mpManager: MPManager;
   chainReactionTracker: ChainReactionTracker;
   mpAbilitySystem: MPAbilitySystem;
+  replayManager: ReplayManager;
+  lifeSystem: LifeSystem;
+  roomTransition: RoomTransitionSystem;
+  progress: WorldProgress;
+  saveManager: SaveManager;
+  private scheduledTasks: Array<{ time: number; callback: () => void }> = [];
   // Standardised hit pause duration (seconds)
   static readonly STANDARD_HIT_PAUSE = 0.06;
 
-  constructor(levelId: string = "tutorial") {
+  constructor(levelId: string = "tutorial", options: GameStateOptions = {}) {
     console.log("GameState constructor started with levelId:", levelId);
-    
+
+    // Environment dependencies (browser defaults unless injected)
+    this.clock = options.clock ?? systemClock;
+    this.storage = options.storage ?? getDefaultStorage();
+    this.random = new RandomService(options.seed);
+    console.log("Random seed:", this.random.seed);
+    this.persistence = new VersionedStorage(this.storage);
+    this.bindings = new InputBindings(this.persistence);
+    this.events = options.events ?? gameEvents;
+
     // Initialize the level manager
     console.log("Creating LevelManager...");
-    this.levelManager = new LevelManager();
+    this.levelManager = new LevelManager(options.levels);
     console.log("LevelManager created");
 
     // Initialize the game object manager
@@ -88,7 +169,7 @@ export class GameState {
 
     // Initialize the tutorial system
     console.log("Creating TutorialSystem...");
-    this.tutorialSystem = new TutorialSystem();
+    this.tutorialSystem = new TutorialSystem(this.bindings);
     console.log("TutorialSystem created");
 
     // Initialize empty arrays
@@ -98,12 +179,14 @@ export class GameState {
     this.enemies = [];
     this.hitSparks = [];
     this.memoryCrystals = [];
+    this.checkpoints = [];
+    this.doors = [];
     this.experiences = [];
     this.energyBlasts = [];
 
     // Initialize common game state properties
-    this.input = new Input();
-    this.camera = new Camera();
+    this.input = new ActionInput(options.input ?? new Input(), this.bindings);
+    this.camera = new Camera(this.random.cosmetic);
     this.parallaxBackground = new ParallaxBackground();
     this.hitPauseTimer = 0;
     this.hitPauseDuration = 0;
@@ -117,13 +200,22 @@ export class GameState {
     this.comboSystem = new ComboSystem();
 
     // Initialize hit feedback manager
-    this.hitFeedbackManager = new HitFeedbackManager();
+    this.hitFeedbackManager = new HitFeedbackManager(this.clock);
 
     // Initialize MP systems
-    this.mpManager = new MPManager();
-    this.chainReactionTracker = new ChainReactionTracker();
+    this.mpManager = new MPManager(this.persistence);
+    this.chainReactionTracker = new ChainReactionTracker(this.clock);
     this.mpAbilitySystem = new MPAbilitySystem();
 
+    // Input recording and replay playback
+    this.replayManager = new ReplayManager();
+
+    // Lives, respawning and game over
+    this.lifeSystem = new LifeSystem();
+    this.roomTransition = new RoomTransitionSystem();
+    this.progress = new WorldProgress();
+    this.saveManager = new SaveManager(this.persistence);
+
     // Register MP abilities
     this.registerMPAbilities();
 
@@ -139,20 +231,24 @@ export class GameState {
     });
 
     // Initialize rain system
-    this.rainSystem = new RainSystem();
+    this.rainSystem = new RainSystem(this.random.cosmetic);
 
     // Initialize lightning system
-    this.lightningSystem = new LightningSystem();
+    this.lightningSystem = new LightningSystem(this.random.cosmetic);
 
     // Initialize weather system to coordinate rain and lightning
-    this.weatherSystem = new WeatherSystem(this.rainSystem, this.lightningSystem);
+    this.weatherSystem = new WeatherSystem(
+      this.rainSystem,
+      this.lightningSystem,
+      this.random.cosmetic,
+    );
 
     // Populate raindrops immediately so rain is visible at game start
     this.rainSystem.seedInitialRain(this);
 
     // Initialize default player (will be overwritten by level)
     console.log("Creating Player...");
-    this.player = new Player(100, 330);
+    this.player = new Player(100, 330, this.random);
     console.log("Player created");
 
     // Load the level
@@ -166,15 +262,177 @@ export class GameState {
     console.log("GameState constructor completed successfully");
   }
 
-  loadLevel(levelId: string): boolean {
-    const result = this.levelManager.loadLevel(levelId, this);
+  loadLevel(levelId: string, entryId?: string): boolean {
+    const result = this.levelManager.loadLevel(levelId, this, entryId);
     if (result) {
       this.currentLevelId = levelId;
+      // Pending callbacks belong to the previous level's objects
+      this.scheduledTasks = [];
+      this.lifeSystem.setRespawnPoint(this.player.position.x, this.player.position.y);
+      this.progress.markVisited(levelId);
+    }
+    return result;
+  }
+
+  /**
+   * Move to another room through a door, keeping the player and their progress.
+   * Pickups and projectiles from the old room are left behind.
+   */
+  enterRoom(levelId: string, entryId: string): boolean {
+    if (!this.levelManager.getLevelData(levelId)) {
+      console.error(`Cannot enter room ${levelId}: level not found`);
+      return false;
+    }
+
+    this.experiences = [];
+    this.energyBlasts = [];
+    this.poofEffects = [];
+    this.floatingExpIndicators = [];
+
+    const result = this.loadLevel(levelId, entryId);
+    if (result) {
+      this.updateCamera();
+      this.camera.savePreviousPosition();
+      const data: LevelEventData = {
+        levelId,
+        playerPosition: { x: this.player.position.x, y: this.player.position.y },
+      };
+      this.events.emit(GameEvent.ROOM_ENTERED, data);
+      this.saveManager.autosave(this);
     }
     return result;
   }
 
+  /**
+   * Put the current level's enemies back where they started, e.g. when the player respawns
+   */
+  resetEnemies(): void {
+    this.levelManager.respawnEnemies(this);
+  }
+
+  /**
+   * Snapshot positions at the start of a simulation step so rendering can interpolate
+   */
+  savePreviousPositions(): void {
+    this.player.savePreviousPosition();
+    this.camera.savePreviousPosition();
+
+    const objectLists: { savePreviousPosition(): void }[][] = [
+      this.enemies,
+      this.platforms,
+      this.solidBlocks,
+      this.diagonalPlatforms,
+      this.checkpoints,
+      this.doors,
+      this.hitSparks,
+      this.poofEffects,
+      this.energyBlasts,
+      this.experiences,
+      this.memoryCrystals,
+    ];
+    for (const objects of objectLists) {
+      for (const object of objects) {
+        object.savePreviousPosition();
+      }
+    }
+    for (const indicator of this.floatingExpIndicators) {
+      indicator.previousY = indicator.y;
+    }
+  }
+
+  /**
+   * Run a callback after the given delay in seconds, measured on the game clock
+   */
+  schedule(delay: number, callback: () => void): void {
+    this.scheduledTasks.push({ time: this.clock.now() + delay * 1000, callback });
+  }
+
+  private runScheduledTasks(): void {
+    if (this.scheduledTasks.length === 0) return;
+
+    const now = this.clock.now();
+    const due = this.scheduledTasks.filter((task) => task.time <= now);
+    this.scheduledTasks = this.scheduledTasks.filter((task) => task.time > now);
+    for (const task of due) {
+      task.callback();
+    }
+  }
+
+  /**
+   * Reload the current level from a known seed so the run can be reproduced exactly
+   */
+  restartRun(seed: number): void {
+    this.random.reseed(seed);
+
+    this.experiences = [];
+    this.energyBlasts = [];
+    this.poofEffects = [];
+    this.floatingExpIndicators = [];
+    this.comboSystem.reset();
+    this.chainReactionTracker.reset();
+    this.mpAbilitySystem.reset();
+    this.lifeSystem.reset();
+    this.roomTransition.reset();
+    this.tutorialSystem = new TutorialSystem(this.bindings);
+    this.paused = false;
+
+    if (this.currentLevelId) {
+      this.loadLevel(this.currentLevelId);
+    }
+  }
+
+  /**
+   * End a tick on which the world stayed frozen. Releases carry over to the next tick the world
+   * runs, so letting go of a button during a freeze still ends a charge; presses carry over too
+   * unless a menu was there to take them.
+   */
+  private endFrozenTick(includePresses: boolean): void {
+    if (this.input.holdEdges) {
+      this.input.holdEdges(includePresses);
+    } else {
+      this.input.update();
+    }
+  }
+
   update(deltaTime: number): void {
+    this.savePreviousPositions();
+    this.replayManager.update(this);
+    this.runScheduledTasks();
+
+    // Debug controls
+    if (this.input.isKeyPressed(GameAction.ToggleChainDebug)) {
+      // Dynamic import to avoid circular dependency
+      import("../objects/memoryCrystal").then(({ MemoryCrystal }) => {
+        MemoryCrystal.toggleDebugChainReaction();
+      });
+    }
+
+    if (this.input.isKeyPressed(GameAction.Pause)) {
+      this.paused = !this.paused;
+    }
+    if (this.paused) {
+      this.endFrozenTick(false);
+      return;
+    }
+
+    // Game over screen: the world stays frozen until the player continues
+    if (this.lifeSystem.isGameOver()) {
+      this.lifeSystem.update(deltaTime, this);
+      this.rainSystem.update(deltaTime, this);
+      this.weatherSystem.update(deltaTime);
+      this.endFrozenTick(false);
+      return;
+    }
+
+    // Room transition: the world holds still while the screen fades
+    if (this.roomTransition.isActive()) {
+      this.roomTransition.update(deltaTime, this);
+      this.rainSystem.update(deltaTime, this);
+      this.weatherSystem.update(deltaTime);
+      this.endFrozenTick(true);
+      return;
+    }
+
     // Update tutorial system first (only for tutorial level)
     if (this.currentLevelId === "tutorial") {
       this.tutorialSystem.update(deltaTime, this);
@@ -186,8 +444,8 @@ export class GameState {
         this.lightningSystem.update(deltaTime, this);
         this.weatherSystem.update(deltaTime);
 
-        // Clear input at the end when paused so X key can be detected next frame
-        this.input.update();
+        // End the tick so the X key can be detected next frame
+        this.endFrozenTick(false);
         return; // Don't update game objects when tutorial is paused
       }
     }
@@ -198,13 +456,16 @@ export class GameState {
 
       // Keep shake animations for enemies only (avoid jiggling the player sprite)
       for (const enemy of this.enemies) {
-        if (enemy.active) enemy.updateShake(deltaTime, true);
+        if (enemy.active) enemy.updateShake(deltaTime, true, this.random.cosmetic);
       }
 
-      this.input.update(); // still accept inputs
+      this.endFrozenTick(true); // still accept inputs
       return; // Skip rest of updates to create freeze effect
     }
 
+    // The world runs this tick: report what was pressed or let go while it was frozen
+    this.input.applyHeldEdges?.();
+
     // Update memory crystals
     for (const crystal of this.memoryCrystals) {
       if (crystal.active) {
@@ -219,6 +480,16 @@ export class GameState {
       }
     }
 
+    // Light any checkpoint the player is touching
+    for (const checkpoint of this.checkpoints) {
+      checkpoint.update(deltaTime, this);
+    }
+
+    // Doors start a room transition when the player walks in
+    for (const door of this.doors) {
+      door.update(deltaTime, this);
+    }
+
     // Check collisions
     this.collisionSystem.update(deltaTime, this);
 
@@ -243,6 +514,15 @@ export class GameState {
       }
     }
 
+    // Record broken crystals before they are cleaned up
+    if (this.currentLevelId) {
+      for (const crystal of this.memoryCrystals) {
+        if (!crystal.active) {
+          this.progress.markCrystalCollected(this.currentLevelId, crystal.position);
+        }
+      }
+    }
+
     // Clean up inactive objects
     this.hitSparks = this.hitSparks.filter((spark) => spark.active);
     this.memoryCrystals = this.memoryCrystals.filter((crystal) => crystal.active);
@@ -251,6 +531,7 @@ export class GameState {
     this.energyBlasts = this.energyBlasts.filter((blast) => blast.active);
 
     this.player.update(deltaTime, this);
+    this.lifeSystem.update(deltaTime, this);
 
     for (const enemy of this.enemies) {
       if (enemy.active) {
@@ -265,20 +546,7 @@ export class GameState {
     // The timer is kept but not used for spawning
     this.spawnTimer += deltaTime;
 
-    // Camera follows player and clamps to level bounds
-    const levelData = this.levelManager.getLevelData(this.currentLevelId ?? "");
-    if (levelData) {
-      // Use canvas size for viewport
-      const viewportWidth = 800; // Default, can be dynamic if needed
-      const viewportHeight = 600;
-      this.camera.followPlayer(
-        this.player.position,
-        levelData.width,
-        levelData.height,
-        viewportWidth,
-        viewportHeight,
-      );
-    }
+    this.updateCamera();
     this.camera.update(deltaTime);
     this.input.update();
 
@@ -296,8 +564,11 @@ export class GameState {
     // Update lightning system
     this.lightningSystem.update(deltaTime, this);
 
-    // Update weather system for coordination
-    this.weatherSystem.update(deltaTime);
+    // Update weather system for coordination; weather zones follow the player's center
+    this.weatherSystem.update(deltaTime, {
+      x: this.player.position.x + this.player.size.x / 2,
+      y: this.player.position.y + this.player.size.y / 2,
+    });
 
     // Update combo system timers
     this.comboSystem.update(deltaTime);
@@ -308,14 +579,6 @@ export class GameState {
     // Update MP systems
     this.chainReactionTracker.update(deltaTime);
     this.mpAbilitySystem.update(deltaTime, this.player, this);
-
-    // Debug controls
-    if (this.input.isKeyPressed("F2")) {
-      // Dynamic import to avoid circular dependency
-      import("../objects/memoryCrystal").then(({ MemoryCrystal }) => {
-        MemoryCrystal.toggleDebugChainReaction();
-      });
-    }
   }
 
   /**
@@ -356,7 +619,7 @@ export class GameState {
   }
 
   createHitSpark(x: number, y: number): void {
-    this.hitSparks.push(new HitSpark(x, y));
+    this.hitSparks.push(new HitSpark(x, y, this.random.cosmetic));
   }
 
   /**
@@ -407,7 +670,7 @@ export class GameState {
    */
   private createEnhancedHitSpark(x: number, y: number, _intensity: number): void {
     // For now, create a regular hit spark - we'll enhance this in the next task
-    this.hitSparks.push(new HitSpark(x, y));
+    this.hitSparks.push(new HitSpark(x, y, this.random.cosmetic));
   }
 
   /**
@@ -430,69 +693,144 @@ export class GameState {
   }
 
   createPoofEffect(x: number, y: number): void {
-    this.poofEffects.push(new PoofEffect(x, y));
+    this.poofEffects.push(new PoofEffect(x, y, this.random.cosmetic));
   }
 
   createEnergyBlast(x: number, y: number, facingRight: boolean, damage: number = 4): void {
     this.energyBlasts.push(new EnergyBlast(x, y, facingRight, damage));
   }
 
+  /**
+   * Platforms the physics lands on: the level's own plus those built from one-way tiles
+   */
+  getCollisionPlatforms(): Platform[] {
+    return this.tileMap ? [...this.platforms, ...this.tileMap.getColliders().platforms] : this.platforms;
+  }
+
+  /**
+   * Solid blocks the physics collides with, including those built from solid tiles
+   */
+  getCollisionSolidBlocks(): SolidBlock[] {
+    return this.tileMap
+      ? [...this.solidBlocks, ...this.tileMap.getColliders().solidBlocks]
+      : this.solidBlocks;
+  }
+
+  /**
+   * Diagonal platforms the physics lands on, including those built from slope tiles
+   */
+  getCollisionDiagonalPlatforms(): DiagonalPlatform[] {
+    return this.tileMap
+      ? [...this.diagonalPlatforms, ...this.tileMap.getColliders().diagonalPlatforms]
+      : this.diagonalPlatforms;
+  }
+
   levelEditor: {
     isEditorActive: () => boolean;
+    isPlaytesting: () => boolean;
     render: (ctx: CanvasRenderingContext2D) => void;
+    isLayerVisible: (layer: EditorLayerId) => boolean;
     activate: () => void;
     deactivate: () => void;
   } | null = null; // Will be set by the Game class
 
-  render(ctx: CanvasRenderingContext2D): void {
+  /**
+   * Render the world, blending object positions by alpha between the last two simulation steps
+   */
+  render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
     console.log("GameState.render() called");
+    GameObject.interpolationAlpha = alpha;
+    // The editor can hide whole layers of the level while it is open
+    const shows = (layer: EditorLayerId) =>
+      !this.levelEditor?.isEditorActive() || this.levelEditor.isLayerVisible(layer);
+
     // Clear screen
-    ctx.fillStyle = "#2C1810";
+    ctx.fillStyle = this.backgroundColor;
     ctx.fillRect(0, 0, 800, 600);
     console.log("Screen cleared with background color");
 
     // Draw parallax background (before applying camera)
-    this.parallaxBackground.render(ctx, this.camera);
+    if (shows("background")) {
+      this.parallaxBackground.render(ctx, this.camera);
+    }
 
     // Apply camera effects
-    this.camera.apply(ctx);
+    this.camera.apply(ctx, alpha);
+
+    // Draw the level's background elements behind everything else in the world
+    if (shows("background")) {
+      for (const element of this.backgroundElements) {
+        renderBackgroundElement(ctx, element);
+      }
+    }
 
     // Draw lightning effects (background layer)
     this.lightningSystem.render(ctx);
 
-    // Draw platforms with lightning effects
-    for (const platform of this.platforms) {
-      platform.render(ctx);
-      this.lightningSystem
-        .getLightingEffects()
-        .renderObjectLighting(ctx, platform.position, platform.size);
+    // Draw the tile terrain, lit where it is solid
+    if (this.tileMap && shows("terrain")) {
+      const view = this.camera.getInterpolatedPosition(alpha);
+      this.tileRenderer.render(ctx, this.tileMap, {
+        x: view.x - this.camera.shakeOffset.x,
+        y: view.y - this.camera.shakeOffset.y,
+        width: 800 / this.camera.zoom,
+        height: 600 / this.camera.zoom,
+      });
+      for (const solidBlock of this.tileMap.getColliders().solidBlocks) {
+        this.lightningSystem
+          .getLightingEffects()
+          .renderObjectLighting(ctx, solidBlock.position, solidBlock.size);
+      }
     }
 
-    // Draw solid blocks with lightning effects
-    for (const solidBlock of this.solidBlocks) {
-      solidBlock.render(ctx);
-      this.lightningSystem
-        .getLightingEffects()
-        .renderObjectLighting(ctx, solidBlock.position, solidBlock.size);
+    if (shows("terrain")) {
+      // Draw platforms with lightning effects
+      for (const platform of this.platforms) {
+        platform.render(ctx);
+        this.lightningSystem
+          .getLightingEffects()
+          .renderObjectLighting(ctx, platform.position, platform.size);
+      }
+
+      // Draw solid blocks with lightning effects
+      for (const solidBlock of this.solidBlocks) {
+        solidBlock.render(ctx);
+        this.lightningSystem
+          .getLightingEffects()
+          .renderObjectLighting(ctx, solidBlock.position, solidBlock.size);
+      }
     }
 
     // Draw diagonal platforms with lightning effects
-    for (const diagonalPlatform of this.diagonalPlatforms) {
-      diagonalPlatform.render(ctx);
+    if (shows("slopes")) {
+      for (const diagonalPlatform of this.diagonalPlatforms) {
+        diagonalPlatform.render(ctx);
+        this.lightningSystem
+          .getLightingEffects()
+          .renderObjectLighting(ctx, diagonalPlatform.position, diagonalPlatform.size);
+      }
+    }
+
+    if (shows("markers")) {
+      // Draw doors and checkpoints behind the player
+      for (const door of this.doors) {
+        door.render(ctx);
+      }
+
+      for (const checkpoint of this.checkpoints) {
+        checkpoint.render(ctx);
+      }
+
+      // Draw game objects with lightning effects
+      this.player.render(ctx);
       this.lightningSystem
         .getLightingEffects()
-        .renderObjectLighting(ctx, diagonalPlatform.position, diagonalPlatform.size);
+        .renderObjectLighting(ctx, this.player.position, this.player.size);
     }
 
-    // Draw game objects with lightning effects
-    this.player.render(ctx);
-    this.lightningSystem
-      .getLightingEffects()
-      .renderObjectLighting(ctx, this.player.position, this.player.size);
-
     // Draw memory crystals
     for (const crystal of this.memoryCrystals) {
-      if (crystal.active) {
+      if (crystal.active && shows("crystals")) {
         crystal.render(ctx);
       }
     }
@@ -505,7 +843,7 @@ export class GameState {
     }
 
     for (const enemy of this.enemies) {
-      if (enemy.active) {
+      if (enemy.active && shows("enemies")) {
         enemy.render(ctx);
       }
     }
@@ -545,8 +883,9 @@ export class GameState {
       ctx.textAlign = "center";
       ctx.shadowColor = "rgba(0, 255, 170, 0.8)";
       ctx.shadowBlur = 15;
-      ctx.strokeText(`+${exp.amount} EXP`, exp.x, exp.y);
-      ctx.fillText(`+${exp.amount} EXP`, exp.x, exp.y);
+      const y = exp.previousY + (exp.y - exp.previousY) * alpha;
+      ctx.strokeText(`+${exp.amount} EXP`, exp.x, y);
+      ctx.fillText(`+${exp.amount} EXP`, exp.x, y);
       ctx.restore();
     }
 
@@ -556,7 +895,7 @@ export class GameState {
     }
 
     // Reset camera
-    this.camera.reset(ctx);
+    this.camera.reset(ctx, alpha);
 
     // Draw UI
     this.drawUI(ctx);
@@ -565,10 +904,50 @@ export class GameState {
     if (this.currentLevelId === "tutorial") {
       this.tutorialSystem.render(ctx);
     }
+
+    this.lifeSystem.render(ctx, this);
+    this.roomTransition.render(ctx);
+
+    if (this.paused) {
+      this.drawPauseOverlay(ctx);
+    }
+  }
+
+  /**
+   * Camera follows player and clamps to level bounds
+   */
+  private updateCamera(): void {
+    const levelData = this.levelManager.getLevelData(this.currentLevelId ?? "");
+    if (levelData) {
+      // Use canvas size for viewport
+      const viewportWidth = 800; // Default, can be dynamic if needed
+      const viewportHeight = 600;
+      this.camera.followPlayer(
+        this.player.position,
+        levelData.width,
+        levelData.height,
+        viewportWidth,
+        viewportHeight,
+      );
+    }
+  }
+
+  private drawPauseOverlay(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+    ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+    ctx.fillRect(0, 0, 800, 600);
+    ctx.textAlign = "center";
+    ctx.fillStyle = "#FFD700";
+    ctx.font = "bold 36px 'Orbitron', monospace";
+    ctx.fillText("PAUSED", 400, 290);
+    ctx.font = "16px 'Orbitron', monospace";
+    ctx.fillStyle = "#D4AF37";
+    ctx.fillText(`Press ${this.bindings.getLabel(GameAction.Pause)} to resume`, 400, 325);
+    ctx.restore();
   }
 
   drawUI(ctx: CanvasRenderingContext2D): void {
-    this.hud.render(ctx, this.player, this.mpManager);
+    this.hud.render(ctx, this.player, this.mpManager, this.lifeSystem.getLives());
     // Render combo meter on top of HUD
     this.comboSystem.render(ctx);
   }
@@ -579,8 +958,9 @@ export class GameState {
       amount,
       x,
       y,
+      previousY: y,
       alpha: 1,
-      vy: 32 + Math.random() * 16,
+      vy: this.random.cosmetic.range(32, 48),
       time: 0,
     });
   }
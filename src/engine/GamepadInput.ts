@@ -0,0 +1,102 @@
+import { GameAction } from "./InputBindings";
+
+// Standard Gamepad API button layout -> actions, independent of keyboard bindings
+// https://w3c.github.io/gamepad/#remapping
+export const DEFAULT_GAMEPAD_BUTTONS: Record<number, GameAction> = {
+  0: GameAction.Jump, // A / Cross
+  2: GameAction.Attack, // X / Square (hold to charge)
+  3: GameAction.Cast, // Y / Triangle (hold attack + cast for Power Surge)
+  5: GameAction.Cast, // Right bumper
+  9: GameAction.Pause, // Start
+  14: GameAction.MoveLeft, // D-pad left
+  15: GameAction.MoveRight, // D-pad right
+};
+
+/**
+ * Polls navigator.getGamepads() and reports mapped buttons as held actions.
+ * The left stick drives analog movement; the D-pad and buttons are digital.
+ */
+export class GamepadInput {
+  buttonMap: Record<number, GameAction>;
+  // Stick travel (0-1) ignored around the centre
+  deadZone: number = 0.25;
+  // Analog buttons (triggers) count as held past this value
+  buttonThreshold: number = 0.5;
+
+  private keysDown: Set<string> = new Set();
+  private keysPressed: Set<string> = new Set();
+  private keysReleased: Set<string> = new Set();
+  private moveAxis: number = 0;
+
+  constructor(buttonMap: Record<number, GameAction> = DEFAULT_GAMEPAD_BUTTONS) {
+    this.buttonMap = buttonMap;
+  }
+
+  /**
+   * Sample every connected pad and derive pressed/released edges against the previous poll
+   */
+  poll(): void {
+    const down = new Set<string>();
+    let axis = 0;
+
+    for (const pad of this.getGamepads()) {
+      if (!pad || !pad.connected) continue;
+
+      pad.buttons.forEach((button, index) => {
+        const key = this.buttonMap[index];
+        if (key && (button.pressed || button.value > this.buttonThreshold)) {
+          down.add(key);
+        }
+      });
+
+      // Strongest stick wins when several pads are connected
+      const stickX = this.applyDeadZone(pad.axes[0] ?? 0);
+      if (Math.abs(stickX) > Math.abs(axis)) {
+        axis = stickX;
+      }
+    }
+
+    this.keysPressed = new Set([...down].filter((key) => !this.keysDown.has(key)));
+    this.keysReleased = new Set([...this.keysDown].filter((key) => !down.has(key)));
+    this.keysDown = down;
+    this.moveAxis = axis;
+  }
+
+  isKeyDown(key: string): boolean {
+    return this.keysDown.has(key);
+  }
+
+  isKeyPressed(key: string): boolean {
+    return this.keysPressed.has(key);
+  }
+
+  isKeyReleased(key: string): boolean {
+    return this.keysReleased.has(key);
+  }
+
+  /**
+   * Horizontal stick position in [-1, 1] after the dead zone
+   */
+  getMoveAxis(): number {
+    return this.moveAxis;
+  }
+
+  /**
+   * Zero inside the dead zone, rescaled so the usable range still reaches 1.
+   * Rounded to hundredths so recorded replays stay exact.
+   */
+  private applyDeadZone(value: number): number {
+    const magnitude = Math.abs(value);
+    if (magnitude < this.deadZone) return 0;
+
+    const scaled = Math.min(1, (magnitude - this.deadZone) / (1 - this.deadZone));
+    return Math.sign(value) * Math.round(scaled * 100) / 100;
+  }
+
+  private getGamepads(): Array<Gamepad | null> {
+    if (typeof navigator === "undefined" || typeof navigator.getGamepads !== "function") {
+      return [];
+    }
+    return Array.from(navigator.getGamepads());
+  }
+}
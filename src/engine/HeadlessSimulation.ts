@@ -0,0 +1,237 @@
+import type { LevelData } from "@/levels/LevelData";
+import type { EventSystem } from "@/systems/EventSystem";
+import { ManualClock } from "./Clock";
+import { GameState } from "./GameState";
+import type { InputSource } from "./Input";
+import type { InputRecording } from "./InputRecording";
+import { ReplayInput } from "./InputRecording";
+import type { KeyValueStorage } from "./KeyValueStorage";
+import { MemoryStorage } from "./KeyValueStorage";
+
+/**
+ * Input driven from code instead of DOM events. Press/release between steps.
+ */
+export class ScriptedInput implements InputSource {
+  private keys: Set<string> = new Set();
+  private keysPressed: Set<string> = new Set();
+  private keysReleased: Set<string> = new Set();
+  private moveAxis: number = 0;
+
+  /**
+   * Hold a key down; the pressed edge is reported on the next step
+   */
+  press(key: string): void {
+    if (!this.keys.has(key)) {
+      this.keysPressed.add(key);
+    }
+    this.keys.add(key);
+  }
+
+  /**
+   * Let go of a key; the released edge is reported on the next step.
+   * Press and release before a single step to simulate a quick tap.
+   */
+  release(key: string): void {
+    if (this.keys.has(key)) {
+      this.keysReleased.add(key);
+    }
+    this.keys.delete(key);
+  }
+
+  releaseAll(): void {
+    for (const key of this.keys) {
+      this.keysReleased.add(key);
+    }
+    this.keys.clear();
+    this.keysPressed.clear();
+    this.moveAxis = 0;
+  }
+
+  /**
+   * Simulate an analog stick, -1 (full left) to 1 (full right)
+   */
+  setMoveAxis(value: number): void {
+    this.moveAxis = Math.max(-1, Math.min(1, value));
+  }
+
+  getMoveAxis(): number {
+    return this.moveAxis;
+  }
+
+  isKeyDown(key: string): boolean {
+    return this.keys.has(key);
+  }
+
+  isKeyPressed(key: string): boolean {
+    return this.keysPressed.has(key);
+  }
+
+  isKeyReleased(key: string): boolean {
+    return this.keysReleased.has(key);
+  }
+
+  update(): void {
+    this.keysPressed.clear();
+    this.keysReleased.clear();
+  }
+}
+
+export interface HeadlessOptions {
+  level: LevelData;
+  // Other levels reachable through doors
+  rooms?: LevelData[];
+  input?: InputSource;
+  storage?: KeyValueStorage;
+  clock?: ManualClock;
+  // Random seed; runs with the same seed and input are identical
+  seed?: number;
+  // Simulation steps per second (defaults to the browser loop's 60)
+  tickRate?: number;
+  // Event bus for the run; the global gameEvents by default
+  events?: EventSystem;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Plain-data view of the world after a step, safe to compare or serialize
+ */
+export interface WorldSnapshot {
+  tick: number;
+  time: number;
+  seed: number;
+  levelId: string | null;
+  player: {
+    position: Point;
+    velocity: Point;
+    health: number;
+    maxHealth: number;
+    dead: boolean;
+    grounded: boolean;
+    facingRight: boolean;
+    attacking: boolean;
+    level: number;
+    exp: number;
+    power: number;
+  };
+  enemies: Array<{ type: string; position: Point; health: number; direction: number }>;
+  memoryCrystals: Array<{ type: string; position: Point; isBreaking: boolean }>;
+  experiences: Array<{ position: Point; value: number }>;
+  energyBlasts: number;
+  mp: number;
+  lives: number;
+  gameOver: boolean;
+}
+
+/**
+ * Runs a GameState without DOM or canvas, stepping it at a fixed rate.
+ * Used for level and physics regression scenarios under Node.
+ */
+export class HeadlessSimulation {
+  readonly gameState: GameState;
+  readonly input: InputSource;
+  readonly clock: ManualClock;
+  readonly fixedDeltaTime: number;
+  tick: number = 0;
+
+  constructor(options: HeadlessOptions) {
+    const tickRate = options.tickRate ?? 60;
+    if (tickRate <= 0) {
+      throw new Error(`Tick rate must be positive, got ${tickRate}`);
+    }
+
+    this.fixedDeltaTime = 1 / tickRate;
+    this.input = options.input ?? new ScriptedInput();
+    this.clock = options.clock ?? new ManualClock();
+    this.gameState = new GameState(options.level.id, {
+      input: this.input,
+      storage: options.storage ?? new MemoryStorage(),
+      clock: this.clock,
+      seed: options.seed,
+      levels: [options.level, ...(options.rooms ?? [])],
+      events: options.events,
+    });
+
+    if (this.gameState.currentLevelId !== options.level.id) {
+      throw new Error(`Level "${options.level.id}" could not be loaded`);
+    }
+  }
+
+  /**
+   * Set up a simulation that replays a recorded session; step it `recording.tickCount` times
+   */
+  static fromRecording(recording: InputRecording, level: LevelData): HeadlessSimulation {
+    if (recording.levelId !== level.id) {
+      throw new Error(`Replay was recorded on "${recording.levelId}", not "${level.id}"`);
+    }
+
+    const simulation = new HeadlessSimulation({
+      level,
+      input: new ReplayInput(recording),
+      clock: new ManualClock(recording.startTime),
+      seed: recording.seed,
+      tickRate: recording.tickRate,
+    });
+    simulation.gameState.mpManager.setCurrentMP(recording.startMP);
+    return simulation;
+  }
+
+  /**
+   * Advance the simulation by the given number of fixed steps
+   */
+  step(frames: number = 1): WorldSnapshot {
+    for (let i = 0; i < frames; i++) {
+      this.clock.advance(this.fixedDeltaTime * 1000);
+      this.gameState.update(this.fixedDeltaTime);
+      this.tick++;
+    }
+    return this.getWorldState();
+  }
+
+  getWorldState(): WorldSnapshot {
+    const { player } = this.gameState;
+    const point = (p: Point): Point => ({ x: p.x, y: p.y });
+
+    return {
+      tick: this.tick,
+      time: this.clock.now(),
+      seed: this.gameState.random.seed,
+      levelId: this.gameState.currentLevelId,
+      player: {
+        position: point(player.position),
+        velocity: point(player.velocity),
+        health: player.health,
+        maxHealth: player.maxHealth,
+        dead: player.isDead,
+        grounded: player.grounded,
+        facingRight: player.facingRight,
+        attacking: player.attacking,
+        level: player.level,
+        exp: player.exp,
+        power: player.power,
+      },
+      enemies: this.gameState.enemies.map((enemy) => ({
+        type: enemy.type,
+        position: point(enemy.position),
+        health: enemy.health,
+        direction: enemy.direction,
+      })),
+      memoryCrystals: this.gameState.memoryCrystals.map((crystal) => ({
+        type: crystal.crystalType,
+        position: point(crystal.position),
+        isBreaking: crystal.isBreaking,
+      })),
+      experiences: this.gameState.experiences.map((experience) => ({
+        position: point(experience.position),
+        value: experience.value,
+      })),
+      energyBlasts: this.gameState.energyBlasts.length,
+      mp: this.gameState.mpManager.getCurrentMP(),
+      lives: this.gameState.lifeSystem.getLives(),
+      gameOver: this.gameState.lifeSystem.isGameOver(),
+    };
+  }
+}
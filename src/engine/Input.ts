@@ -1,10 +1,48 @@
-export class Input {
+import type { IInputState } from "../interfaces/GameInterfaces";
+import { GamepadInput } from "./GamepadInput";
+
+/**
+ * Per-tick key state consumed by the simulation. `update` is called once per tick to clear edges.
+ */
+export interface InputSource {
+  isKeyDown(key: string): boolean;
+  isKeyPressed(key: string): boolean;
+  isKeyReleased(key: string): boolean;
+  getMoveAxis?(): number;
+  update(): void;
+  // Ends a tick the world stayed frozen on, in place of update(): releases, and presses when
+  // asked, are held back instead of dropped
+  holdEdges?(includePresses: boolean): void;
+  // Start reporting the held edges; they last until the next update()
+  applyHeldEdges?(): void;
+}
+
+export class Input implements InputSource, IInputState {
   keys: Record<string, boolean>;
   keysPressed: Record<string, boolean>;
+  keysReleased: Record<string, boolean>;
+  gamepad: GamepadInput;
+  // Canvas-relative, in the 800x600 drawing space rather than device pixels
+  mousePosition: { x: number; y: number };
+  mouseButtons: Record<number, boolean>;
+  mouseButtonsPressed: Record<number, boolean>;
+  private canvas: HTMLCanvasElement | null;
+  private pixelRatio: number;
 
-  constructor() {
+  /**
+   * @param canvas Canvas that mouse positions are measured against
+   * @param pixelRatio Backing-store scale applied in Game.setupPixelPerfectCanvas
+   */
+  constructor(canvas: HTMLCanvasElement | null = null, pixelRatio: number = 1) {
     this.keys = {};
     this.keysPressed = {};
+    this.keysReleased = {};
+    this.gamepad = new GamepadInput();
+    this.mousePosition = { x: 0, y: 0 };
+    this.mouseButtons = {};
+    this.mouseButtonsPressed = {};
+    this.canvas = canvas;
+    this.pixelRatio = pixelRatio;
     this.setupEventListeners();
   }
 
@@ -17,26 +55,86 @@ export class Input {
       this.keys[e.code] = true;
     });
 
+    // Edges stay set until the next tick, so a tap shorter than a tick still registers
     document.addEventListener("keyup", (e) => {
       this.keys[e.code] = false;
-      this.keysPressed[e.code] = false;
+      this.keysReleased[e.code] = true;
+    });
+
+    const mouseTarget: HTMLElement | Document = this.canvas ?? document;
+
+    mouseTarget.addEventListener("mousemove", (e) => {
+      this.updateMousePosition(e as MouseEvent);
+    });
+
+    mouseTarget.addEventListener("mousedown", (e) => {
+      const event = e as MouseEvent;
+      this.updateMousePosition(event);
+      if (!this.mouseButtons[event.button]) {
+        this.mouseButtonsPressed[event.button] = true;
+      }
+      this.mouseButtons[event.button] = true;
+    });
+
+    // Listen on the document so a release outside the canvas still ends the drag
+    document.addEventListener("mouseup", (e) => {
+      this.mouseButtons[e.button] = false;
     });
   }
 
   isKeyDown(key: string): boolean {
-    return !!this.keys[key];
+    return !!this.keys[key] || this.gamepad.isKeyDown(key);
   }
 
   isKeyPressed(key: string): boolean {
-    return !!this.keysPressed[key];
+    return !!this.keysPressed[key] || this.gamepad.isKeyPressed(key);
+  }
+
+  isKeyReleased(key: string): boolean {
+    return !!this.keysReleased[key] || this.gamepad.isKeyReleased(key);
   }
 
   isAnyKeyPressed(): boolean {
     return Object.keys(this.keysPressed).some((key) => this.keysPressed[key]);
   }
 
+  isMouseButtonDown(button: number): boolean {
+    return !!this.mouseButtons[button];
+  }
+
+  isMouseButtonPressed(button: number): boolean {
+    return !!this.mouseButtonsPressed[button];
+  }
+
+  getMoveAxis(): number {
+    return this.gamepad.getMoveAxis();
+  }
+
   update(): void {
-    // Clear pressed keys after each frame
+    // Clear edges after each frame
     this.keysPressed = {};
+    this.keysReleased = {};
+    this.mouseButtonsPressed = {};
+    // Sample controllers for the next tick; their edges come from comparing polls
+    this.gamepad.poll();
+  }
+
+  /**
+   * Map client coordinates into canvas drawing space. The canvas backing store is
+   * pixelRatio times its logical size, and CSS may stretch it further.
+   */
+  private updateMousePosition(e: MouseEvent): void {
+    if (!this.canvas) {
+      this.mousePosition = { x: e.clientX, y: e.clientY };
+      return;
+    }
+
+    const rect = this.canvas.getBoundingClientRect();
+    const logicalWidth = this.canvas.width / this.pixelRatio;
+    const logicalHeight = this.canvas.height / this.pixelRatio;
+    this.mousePosition = {
+      x: rect.width > 0 ? ((e.clientX - rect.left) * logicalWidth) / rect.width : 0,
+      y: rect.height > 0 ? ((e.clientY - rect.top) * logicalHeight) / rect.height : 0,
+    };
   }
 }
@@ -0,0 +1,258 @@
+import type { InputSource } from "./Input";
+import type { StorageSchema } from "./VersionedStorage";
+import { isRecord, isStringArray, VersionedStorage } from "./VersionedStorage";
+
+/**
+ * Things the player can do. Gameplay code asks for actions; bindings decide which keys trigger them.
+ */
+export enum GameAction {
+  MoveLeft = "MoveLeft",
+  MoveRight = "MoveRight",
+  Jump = "Jump",
+  Attack = "Attack",
+  Cast = "Cast",
+  Pause = "Pause",
+  ToggleChainDebug = "ToggleChainDebug",
+}
+
+export const DEFAULT_BINDINGS: Record<GameAction, string[]> = {
+  [GameAction.MoveLeft]: ["ArrowLeft"],
+  [GameAction.MoveRight]: ["ArrowRight"],
+  [GameAction.Jump]: ["Space"],
+  [GameAction.Attack]: ["KeyX"],
+  [GameAction.Cast]: ["KeyZ"],
+  [GameAction.Pause]: ["KeyP", "Escape"],
+  [GameAction.ToggleChainDebug]: ["F2"],
+};
+
+// Shown in the controls panel; debug actions are left out
+export const REBINDABLE_ACTIONS: Array<{ action: GameAction; label: string }> = [
+  { action: GameAction.MoveLeft, label: "Move Left" },
+  { action: GameAction.MoveRight, label: "Move Right" },
+  { action: GameAction.Jump, label: "Jump" },
+  { action: GameAction.Attack, label: "Attack" },
+  { action: GameAction.Cast, label: "Cast" },
+  { action: GameAction.Pause, label: "Pause" },
+];
+
+const BINDINGS_STORAGE_KEY = "input_bindings";
+
+/**
+ * Versions of the `input_bindings` blob
+ * 0: unversioned action -> keys table
+ * 1: same table inside a versioned envelope
+ */
+export const BINDINGS_SCHEMA: StorageSchema<Record<string, string[]>> = {
+  version: 1,
+  migrations: {
+    0: (data) => data,
+  },
+  validate: (data): data is Record<string, string[]> =>
+    isRecord(data) && Object.values(data).every((keys) => isStringArray(keys) && keys.length > 0),
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Space: "SPACE",
+  Escape: "ESC",
+  Enter: "ENTER",
+  ShiftLeft: "L-SHIFT",
+  ShiftRight: "R-SHIFT",
+  ControlLeft: "L-CTRL",
+  ControlRight: "R-CTRL",
+  AltLeft: "L-ALT",
+  AltRight: "R-ALT",
+};
+
+export function isGameAction(name: string): name is GameAction {
+  return (Object.values(GameAction) as string[]).includes(name);
+}
+
+/**
+ * Human-readable name for a KeyboardEvent.code, e.g. "KeyX" -> "X"
+ */
+export function formatKeyCode(code: string): string {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  if (code.startsWith("Key")) return code.slice(3);
+  if (code.startsWith("Digit")) return code.slice(5);
+  return code.toUpperCase();
+}
+
+/**
+ * Action -> key table with rebinding, persisted to storage
+ */
+export class InputBindings {
+  private bindings: Record<GameAction, string[]>;
+  private storage: VersionedStorage;
+
+  // Event callbacks
+  private onChangeCallbacks: Array<() => void> = [];
+
+  constructor(storage: VersionedStorage = new VersionedStorage()) {
+    this.storage = storage;
+    this.bindings = InputBindings.copyDefaults();
+    this.load();
+  }
+
+  getKeys(action: GameAction): string[] {
+    return [...this.bindings[action]];
+  }
+
+  /**
+   * Whether any action uses the key
+   */
+  isBound(key: string): boolean {
+    return Object.values(this.bindings).some((keys) => keys.includes(key));
+  }
+
+  /**
+   * Label for the action's primary key, e.g. "X" or "SPACE"
+   */
+  getLabel(action: GameAction): string {
+    const key = this.bindings[action][0];
+    return key ? formatKeyCode(key) : "—";
+  }
+
+  /**
+   * Replace the action's keys with a single key. Any other action using that key
+   * takes over the old binding, so nothing is left unbound.
+   */
+  rebind(action: GameAction, key: string): void {
+    const previousKeys = this.bindings[action];
+
+    for (const other of Object.values(GameAction)) {
+      if (other === action || !this.bindings[other].includes(key)) continue;
+
+      const remaining = this.bindings[other].filter((k) => k !== key);
+      this.bindings[other] = remaining.length > 0 ? remaining : [...previousKeys];
+    }
+
+    this.bindings[action] = [key];
+    this.save();
+    this.notifyChange();
+  }
+
+  resetToDefaults(): void {
+    this.bindings = InputBindings.copyDefaults();
+    this.save();
+    this.notifyChange();
+  }
+
+  onChange(callback: () => void): void {
+    this.onChangeCallbacks.push(callback);
+  }
+
+  /**
+   * Save bindings to storage
+   */
+  save(): void {
+    try {
+      this.storage.write(BINDINGS_STORAGE_KEY, BINDINGS_SCHEMA, this.bindings);
+    } catch (error) {
+      console.warn("Failed to save input bindings:", error);
+    }
+  }
+
+  /**
+   * Load bindings from storage. Actions missing from the saved table keep their defaults;
+   * a corrupted table is quarantined by the storage layer.
+   */
+  load(): void {
+    const data = this.storage.read(BINDINGS_STORAGE_KEY, BINDINGS_SCHEMA);
+    if (!data) return;
+
+    for (const action of Object.values(GameAction)) {
+      const keys = data[action];
+      if (keys) {
+        this.bindings[action] = [...keys];
+      }
+    }
+  }
+
+  private notifyChange(): void {
+    this.onChangeCallbacks.forEach((callback) => callback());
+  }
+
+  private static copyDefaults(): Record<GameAction, string[]> {
+    const copy = {} as Record<GameAction, string[]>;
+    for (const action of Object.values(GameAction)) {
+      copy[action] = [...DEFAULT_BINDINGS[action]];
+    }
+    return copy;
+  }
+}
+
+/**
+ * Resolves action queries against the current bindings. Sources may also report
+ * actions directly (the gamepad does), and plain key codes pass straight through.
+ */
+export class ActionInput implements InputSource {
+  readonly source: InputSource;
+  readonly bindings: InputBindings;
+  // Action edges seen on frozen ticks, waiting for the world to run again
+  private heldPresses: Set<GameAction> = new Set();
+  private heldReleases: Set<GameAction> = new Set();
+  // Held edges reported on the current tick
+  private carriedPresses: Set<GameAction> = new Set();
+  private carriedReleases: Set<GameAction> = new Set();
+
+  constructor(source: InputSource, bindings: InputBindings) {
+    this.source = source;
+    this.bindings = bindings;
+  }
+
+  isKeyDown(key: string): boolean {
+    if (this.source.isKeyDown(key)) return true;
+    return isGameAction(key) && this.bindings.getKeys(key).some((bound) => this.source.isKeyDown(bound));
+  }
+
+  isKeyPressed(key: string): boolean {
+    if (this.source.isKeyPressed(key)) return true;
+    if (!isGameAction(key)) return false;
+    return (
+      this.carriedPresses.has(key) ||
+      this.bindings.getKeys(key).some((bound) => this.source.isKeyPressed(bound))
+    );
+  }
+
+  /**
+   * An action is released once none of its keys are held any more
+   */
+  isKeyReleased(key: string): boolean {
+    if (this.source.isKeyReleased(key)) return true;
+    return (
+      isGameAction(key) &&
+      (this.carriedReleases.has(key) ||
+        this.bindings.getKeys(key).some((bound) => this.source.isKeyReleased(bound))) &&
+      !this.isKeyDown(key)
+    );
+  }
+
+  getMoveAxis(): number {
+    return this.source.getMoveAxis?.() ?? 0;
+  }
+
+  update(): void {
+    this.carriedPresses.clear();
+    this.carriedReleases.clear();
+    this.source.update();
+  }
+
+  holdEdges(includePresses: boolean): void {
+    for (const action of Object.values(GameAction)) {
+      if (includePresses && this.isKeyPressed(action)) this.heldPresses.add(action);
+      if (this.isKeyReleased(action)) this.heldReleases.add(action);
+    }
+    this.source.update();
+  }
+
+  applyHeldEdges(): void {
+    this.carriedPresses = this.heldPresses;
+    this.carriedReleases = this.heldReleases;
+    this.heldPresses = new Set();
+    this.heldReleases = new Set();
+  }
+}
@@ -0,0 +1,260 @@
+import type { InputSource } from "./Input";
+
+// Key state is stored as bitmasks, one bit per key in the recording's key table
+const MAX_RECORDED_KEYS = 31;
+
+// Bumped whenever the frame layout or key meaning changes; older files are rejected
+const RECORDING_VERSION = 2;
+
+// [repeatCount, downMask, pressedMask, releasedMask, moveAxis?]; the axis is omitted while it is 0
+export type RecordedFrame = [number, number, number, number] | [number, number, number, number, number];
+
+/**
+ * A recorded play session: everything needed to reproduce it from a fresh level load
+ */
+export interface InputRecording {
+  version: typeof RECORDING_VERSION;
+  levelId: string;
+  seed: number;
+  tickRate: number;
+  // Game clock value when the first tick ran
+  startTime: number;
+  // MP at the start of the run; abilities depend on it
+  startMP: number;
+  tickCount: number;
+  // Actions and raw keys the simulation queried
+  keys: string[];
+  // Run-length encoded ticks
+  frames: RecordedFrame[];
+}
+
+export type InputRecordingHeader = Omit<InputRecording, "version" | "tickCount" | "keys" | "frames">;
+
+/**
+ * Wraps the live input and logs what the simulation read on every tick.
+ * Only queried keys are stored, which is exactly what a replay needs to answer.
+ */
+export class InputRecorder implements InputSource {
+  readonly source: InputSource;
+  private keys: string[] = [];
+  private keyIndex: Map<string, number> = new Map();
+  private frames: RecordedFrame[] = [];
+  private downMask: number = 0;
+  private pressedMask: number = 0;
+  private releasedMask: number = 0;
+  private moveAxis: number = 0;
+  private tickCount: number = 0;
+
+  constructor(source: InputSource) {
+    this.source = source;
+  }
+
+  isKeyDown(key: string): boolean {
+    const down = this.source.isKeyDown(key);
+    if (down) {
+      this.downMask |= this.getKeyBit(key);
+    }
+    return down;
+  }
+
+  isKeyPressed(key: string): boolean {
+    const pressed = this.source.isKeyPressed(key);
+    if (pressed) {
+      this.pressedMask |= this.getKeyBit(key);
+    }
+    return pressed;
+  }
+
+  isKeyReleased(key: string): boolean {
+    const released = this.source.isKeyReleased(key);
+    if (released) {
+      this.releasedMask |= this.getKeyBit(key);
+    }
+    return released;
+  }
+
+  getMoveAxis(): number {
+    this.moveAxis = this.source.getMoveAxis?.() ?? 0;
+    return this.moveAxis;
+  }
+
+  /**
+   * End of tick: store the tick's key state, then clear edges on the live input
+   */
+  update(): void {
+    this.recordFrame();
+    this.source.update();
+  }
+
+  /**
+   * End of a frozen tick: store the tick's key state, and let the live input hold its edges
+   */
+  holdEdges(includePresses: boolean): void {
+    this.recordFrame();
+    if (this.source.holdEdges) {
+      this.source.holdEdges(includePresses);
+    } else {
+      this.source.update();
+    }
+  }
+
+  applyHeldEdges(): void {
+    this.source.applyHeldEdges?.();
+  }
+
+  private recordFrame(): void {
+    const last = this.frames[this.frames.length - 1];
+    if (
+      last &&
+      last[1] === this.downMask &&
+      last[2] === this.pressedMask &&
+      last[3] === this.releasedMask &&
+      (last[4] ?? 0) === this.moveAxis
+    ) {
+      last[0]++;
+    } else if (this.moveAxis !== 0) {
+      this.frames.push([1, this.downMask, this.pressedMask, this.releasedMask, this.moveAxis]);
+    } else {
+      this.frames.push([1, this.downMask, this.pressedMask, this.releasedMask]);
+    }
+
+    this.downMask = 0;
+    this.pressedMask = 0;
+    this.releasedMask = 0;
+    this.moveAxis = 0;
+    this.tickCount++;
+  }
+
+  getTickCount(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Build the finished recording
+   */
+  finish(header: InputRecordingHeader): InputRecording {
+    return {
+      version: RECORDING_VERSION,
+      ...header,
+      tickCount: this.tickCount,
+      keys: [...this.keys],
+      frames: this.frames.map((frame) => [...frame] as RecordedFrame),
+    };
+  }
+
+  private getKeyBit(key: string): number {
+    let index = this.keyIndex.get(key);
+    if (index === undefined) {
+      if (this.keys.length >= MAX_RECORDED_KEYS) {
+        console.warn(`Input recording is limited to ${MAX_RECORDED_KEYS} keys, ignoring ${key}`);
+        return 0;
+      }
+      index = this.keys.length;
+      this.keys.push(key);
+      this.keyIndex.set(key, index);
+    }
+    return 1 << index;
+  }
+}
+
+/**
+ * Feeds a recording back to the simulation one tick at a time
+ */
+export class ReplayInput implements InputSource {
+  readonly recording: InputRecording;
+  private keyIndex: Map<string, number>;
+  private frameIndex: number = 0;
+  private repeat: number = 0;
+  private tick: number = 0;
+
+  constructor(recording: InputRecording) {
+    this.recording = recording;
+    this.keyIndex = new Map(recording.keys.map((key, index) => [key, index]));
+  }
+
+  isKeyDown(key: string): boolean {
+    return this.isSet(key, 1);
+  }
+
+  isKeyPressed(key: string): boolean {
+    return this.isSet(key, 2);
+  }
+
+  isKeyReleased(key: string): boolean {
+    return this.isSet(key, 3);
+  }
+
+  getMoveAxis(): number {
+    return this.recording.frames[this.frameIndex]?.[4] ?? 0;
+  }
+
+  update(): void {
+    if (this.isFinished()) return;
+
+    this.tick++;
+    this.repeat++;
+    if (this.repeat >= this.recording.frames[this.frameIndex][0]) {
+      this.frameIndex++;
+      this.repeat = 0;
+    }
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  isFinished(): boolean {
+    return this.tick >= this.recording.tickCount;
+  }
+
+  private isSet(key: string, maskSlot: 1 | 2 | 3): boolean {
+    const index = this.keyIndex.get(key);
+    const frame = this.recording.frames[this.frameIndex];
+    if (index === undefined || !frame) return false;
+    return (frame[maskSlot] & (1 << index)) !== 0;
+  }
+}
+
+/**
+ * Serialize a recording as compact JSON for bug report attachments
+ */
+export function serializeRecording(recording: InputRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Parse and sanity-check a recording file
+ */
+export function parseRecording(text: string): InputRecording {
+  const data = JSON.parse(text) as Partial<InputRecording>;
+
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(data.version)}`);
+  }
+  if (typeof data.levelId !== "string" || typeof data.seed !== "number") {
+    throw new Error("Replay is missing its level id or seed");
+  }
+  if (typeof data.tickRate !== "number" || data.tickRate <= 0) {
+    throw new Error("Replay has an invalid tick rate");
+  }
+  if (!Array.isArray(data.keys) || !Array.isArray(data.frames)) {
+    throw new Error("Replay is missing its key table or frames");
+  }
+
+  const frameTicks = data.frames.reduce((total, frame) => total + frame[0], 0);
+  if (frameTicks !== data.tickCount) {
+    throw new Error(`Replay frames cover ${frameTicks} ticks but header says ${data.tickCount}`);
+  }
+
+  return {
+    version: RECORDING_VERSION,
+    levelId: data.levelId,
+    seed: data.seed,
+    tickRate: data.tickRate,
+    startTime: data.startTime ?? 0,
+    startMP: data.startMP ?? 0,
+    tickCount: data.tickCount,
+    keys: data.keys,
+    frames: data.frames,
+  };
+}
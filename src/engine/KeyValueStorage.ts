@@ -0,0 +1,33 @@
+/**
+ * The subset of the Web Storage API the game persists through
+ */
+export type KeyValueStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+/**
+ * In-memory storage for headless runs and environments without localStorage
+ */
+export class MemoryStorage implements KeyValueStorage {
+  private items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Use localStorage when the environment provides it, otherwise fall back to memory
+ */
+export function getDefaultStorage(): KeyValueStorage {
+  if (typeof localStorage !== "undefined") {
+    return localStorage;
+  }
+  return new MemoryStorage();
+}
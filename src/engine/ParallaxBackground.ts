@@ -1,3 +1,4 @@
+import type { ParallaxLayerData } from "@/levels/LevelData";
 import type { Camera } from "./Camera";
 
 export interface BackgroundLayer {
@@ -8,111 +9,178 @@ export interface BackgroundLayer {
   repeatY?: boolean; // Whether to repeat the layer vertically
 }
 
+type ParallaxLayerKind = ParallaxLayerData["kind"];
+
+export const PARALLAX_LAYER_KINDS: readonly ParallaxLayerKind[] = [
+  "sky",
+  "moon",
+  "mountains",
+  "towers",
+  "mist",
+];
+
+// Colors and parallax factors each kind uses when a level leaves them out
+const LAYER_DEFAULTS: Record<
+  ParallaxLayerKind,
+  { colors: string[]; parallaxX: number; parallaxY: number; repeatX?: boolean }
+> = {
+  // Gradient stops, top to bottom
+  sky: { colors: ["#1a1a2e", "#16213e", "#2C1810"], parallaxX: 0, parallaxY: 0 },
+  // Body, glow
+  moon: { colors: ["#FFFACD", "rgba(255, 250, 205, 0.2)"], parallaxX: 0.1, parallaxY: 0.05 },
+  mountains: { colors: ["#0f0a0a"], parallaxX: 0.2, parallaxY: 0.1, repeatX: true },
+  // Walls, windows
+  towers: { colors: ["#0F0A07", "#1A0F0A"], parallaxX: 0.3, parallaxY: 0.15, repeatX: true },
+  mist: { colors: ["rgba(44, 24, 16, 0.1)"], parallaxX: 0.8, parallaxY: 0.4, repeatX: true },
+};
+
+/**
+ * The castle-at-night backdrop used by levels that do not declare their own
+ */
+export const DEFAULT_PARALLAX_LAYERS: ParallaxLayerData[] = [
+  { kind: "sky" },
+  { kind: "moon" },
+  { kind: "mountains" },
+  { kind: "towers" },
+  { kind: "mist" },
+];
+
 export class ParallaxBackground {
   private layers: BackgroundLayer[] = [];
+  private moon = { x: 704, y: 80, radius: 32 };
 
   constructor() {
     this.setupDefaultLayers();
   }
 
   private setupDefaultLayers(): void {
-    // Sky layer (furthest back, no parallax)
-    this.addLayer({
-      draw: (ctx, _offsetX, _offsetY) => {
-        // Dark sky gradient
-        const gradient = ctx.createLinearGradient(0, 0, 0, 600);
-        gradient.addColorStop(0, "#1a1a2e");
-        gradient.addColorStop(0.3, "#16213e");
-        gradient.addColorStop(1, "#2C1810");
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, 800, 600);
-      },
-      parallaxX: 0,
-      parallaxY: 0,
-    });
-
-    // Moon layer (very slow parallax to keep it mostly stationary)
-    this.addLayer({
-      draw: (ctx, offsetX, offsetY) => {
-        // Moon
-        ctx.fillStyle = "#FFFACD";
-        ctx.beginPath();
-        ctx.arc(704 - offsetX, 80 - offsetY, 32, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Moon glow
-        ctx.fillStyle = "rgba(255, 250, 205, 0.2)";
-        ctx.beginPath();
-        ctx.arc(704 - offsetX, 80 - offsetY, 48, 0, Math.PI * 2);
-        ctx.fill();
-      },
-      parallaxX: 0.1, // Very slow movement
-      parallaxY: 0.05,
-    });
-
-    // Distant mountains layer
-    this.addLayer({
-      draw: (ctx, offsetX, offsetY) => {
-        ctx.fillStyle = "#0f0a0a";
-        // Mountain silhouettes
-        ctx.beginPath();
-        ctx.moveTo(-offsetX, 400 - offsetY);
-        ctx.lineTo(200 - offsetX, 300 - offsetY);
-        ctx.lineTo(400 - offsetX, 350 - offsetY);
-        ctx.lineTo(600 - offsetX, 280 - offsetY);
-        ctx.lineTo(800 - offsetX, 320 - offsetY);
-        ctx.lineTo(1000 - offsetX, 380 - offsetY);
-        ctx.lineTo(1200 - offsetX, 400 - offsetY);
-        ctx.lineTo(1200 - offsetX, 600 - offsetY);
-        ctx.lineTo(-offsetX, 600 - offsetY);
-        ctx.closePath();
-        ctx.fill();
-      },
-      parallaxX: 0.2,
-      parallaxY: 0.1,
-      repeatX: true,
-    });
-
-    // Castle towers layer (medium parallax)
-    this.addLayer({
-      draw: (ctx, offsetX, offsetY) => {
-        ctx.fillStyle = "#0F0A07";
-        // Left tower
-        ctx.fillRect(0 - offsetX, 400 - offsetY, 40, 200);
-        // Right tower
-        ctx.fillRect(760 - offsetX, 400 - offsetY, 40, 200);
-        // Middle tower
-        ctx.fillRect(384 - offsetX, 352 - offsetY, 40, 248);
-
-        // Tower details
-        ctx.fillStyle = "#1A0F0A";
-        // Tower windows
-        ctx.fillRect(15 - offsetX, 420 - offsetY, 10, 15);
-        ctx.fillRect(775 - offsetX, 420 - offsetY, 10, 15);
-        ctx.fillRect(399 - offsetX, 372 - offsetY, 10, 15);
-      },
-      parallaxX: 0.3,
-      parallaxY: 0.15,
-      repeatX: true,
-    });
-
-    // Foreground mist layer (fastest parallax)
-    this.addLayer({
-      draw: (ctx, offsetX, offsetY) => {
-        ctx.fillStyle = "rgba(44, 24, 16, 0.1)";
-        // Wispy mist shapes
-        for (let i = 0; i < 5; i++) {
-          const x = i * 200 - offsetX;
-          const y = 500 - offsetY + Math.sin(Date.now() * 0.001 + i) * 10;
-          ctx.beginPath();
-          ctx.ellipse(x, y, 80, 20, 0, 0, Math.PI * 2);
-          ctx.fill();
-        }
-      },
-      parallaxX: 0.8,
-      parallaxY: 0.4,
-      repeatX: true,
-    });
+    this.setTheme(DEFAULT_PARALLAX_LAYERS);
+  }
+
+  /**
+   * Replace all layers with the ones a level declares (back to front)
+   */
+  setTheme(layers: ParallaxLayerData[]): void {
+    this.clearLayers();
+    for (const layerData of layers) {
+      this.addLayer(this.createLayer(layerData));
+    }
+  }
+
+  private createLayer(layerData: ParallaxLayerData): BackgroundLayer {
+    const defaults = LAYER_DEFAULTS[layerData.kind];
+    // Missing colors fall back one by one, so a level can recolor just the first
+    const colors = defaults.colors.map((color, index) => layerData.colors?.[index] ?? color);
+    const layer = {
+      parallaxX: layerData.parallaxX ?? defaults.parallaxX,
+      parallaxY: layerData.parallaxY ?? defaults.parallaxY,
+      repeatX: defaults.repeatX,
+    };
+
+    switch (layerData.kind) {
+      case "sky":
+        // Sky layer (furthest back, fills the screen)
+        return {
+          ...layer,
+          draw: (ctx, _offsetX, _offsetY) => {
+            const gradient = ctx.createLinearGradient(0, 0, 0, 600);
+            if (layerData.colors && layerData.colors.length > 0) {
+              // Any number of stops, spread evenly
+              const stops = layerData.colors;
+              stops.forEach((color, index) => {
+                gradient.addColorStop(stops.length === 1 ? 0 : index / (stops.length - 1), color);
+              });
+            } else {
+              // Dark sky gradient
+              gradient.addColorStop(0, colors[0]);
+              gradient.addColorStop(0.3, colors[1]);
+              gradient.addColorStop(1, colors[2]);
+            }
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, 800, 600);
+          },
+        };
+
+      case "moon":
+        // Moon layer (very slow parallax to keep it mostly stationary)
+        return {
+          ...layer,
+          draw: (ctx, offsetX, offsetY) => {
+            const { x, y, radius } = this.moon;
+            // Moon
+            ctx.fillStyle = colors[0];
+            ctx.beginPath();
+            ctx.arc(x - offsetX, y - offsetY, radius, 0, Math.PI * 2);
+            ctx.fill();
+
+            // Moon glow
+            ctx.fillStyle = colors[1];
+            ctx.beginPath();
+            ctx.arc(x - offsetX, y - offsetY, radius + 16, 0, Math.PI * 2);
+            ctx.fill();
+          },
+        };
+
+      case "mountains":
+        // Distant mountains layer
+        return {
+          ...layer,
+          draw: (ctx, offsetX, offsetY) => {
+            ctx.fillStyle = colors[0];
+            // Mountain silhouettes
+            ctx.beginPath();
+            ctx.moveTo(-offsetX, 400 - offsetY);
+            ctx.lineTo(200 - offsetX, 300 - offsetY);
+            ctx.lineTo(400 - offsetX, 350 - offsetY);
+            ctx.lineTo(600 - offsetX, 280 - offsetY);
+            ctx.lineTo(800 - offsetX, 320 - offsetY);
+            ctx.lineTo(1000 - offsetX, 380 - offsetY);
+            ctx.lineTo(1200 - offsetX, 400 - offsetY);
+            ctx.lineTo(1200 - offsetX, 600 - offsetY);
+            ctx.lineTo(-offsetX, 600 - offsetY);
+            ctx.closePath();
+            ctx.fill();
+          },
+        };
+
+      case "towers":
+        // Castle towers layer (medium parallax)
+        return {
+          ...layer,
+          draw: (ctx, offsetX, offsetY) => {
+            ctx.fillStyle = colors[0];
+            // Left tower
+            ctx.fillRect(0 - offsetX, 400 - offsetY, 40, 200);
+            // Right tower
+            ctx.fillRect(760 - offsetX, 400 - offsetY, 40, 200);
+            // Middle tower
+            ctx.fillRect(384 - offsetX, 352 - offsetY, 40, 248);
+
+            // Tower windows
+            ctx.fillStyle = colors[1];
+            ctx.fillRect(15 - offsetX, 420 - offsetY, 10, 15);
+            ctx.fillRect(775 - offsetX, 420 - offsetY, 10, 15);
+            ctx.fillRect(399 - offsetX, 372 - offsetY, 10, 15);
+          },
+        };
+
+      case "mist":
+        // Foreground mist layer (fastest parallax)
+        return {
+          ...layer,
+          draw: (ctx, offsetX, offsetY) => {
+            ctx.fillStyle = colors[0];
+            // Wispy mist shapes
+            for (let i = 0; i < 5; i++) {
+              const x = i * 200 - offsetX;
+              const y = 500 - offsetY + Math.sin(Date.now() * 0.001 + i) * 10;
+              ctx.beginPath();
+              ctx.ellipse(x, y, 80, 20, 0, 0, Math.PI * 2);
+              ctx.fill();
+            }
+          },
+        };
+    }
   }
 
   addLayer(layer: BackgroundLayer): void {
@@ -125,29 +193,7 @@ export class ParallaxBackground {
 
   // Method to customize the moon position and appearance
   setMoonPosition(x: number, y: number, radius: number = 32): void {
-    // Find and update the moon layer
-    const moonLayerIndex = this.layers.findIndex(
-      (layer) => layer.parallaxX === 0.1 && layer.parallaxY === 0.05,
-    );
-    if (moonLayerIndex !== -1) {
-      this.layers[moonLayerIndex] = {
-        draw: (ctx, offsetX, offsetY) => {
-          // Moon
-          ctx.fillStyle = "#FFFACD";
-          ctx.beginPath();
-          ctx.arc(x - offsetX, y - offsetY, radius, 0, Math.PI * 2);
-          ctx.fill();
-
-          // Moon glow
-          ctx.fillStyle = "rgba(255, 250, 205, 0.2)";
-          ctx.beginPath();
-          ctx.arc(x - offsetX, y - offsetY, radius + 16, 0, Math.PI * 2);
-          ctx.fill();
-        },
-        parallaxX: 0.1,
-        parallaxY: 0.05,
-      };
-    }
+    this.moon = { x, y, radius };
   }
 
   render(ctx: CanvasRenderingContext2D, camera: Camera): void {
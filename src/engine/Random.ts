@@ -0,0 +1,102 @@
+/**
+ * Seedable pseudo-random sequence (mulberry32). Same seed, same numbers.
+ */
+export class RandomStream {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next number in [0, 1), a drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max)
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  /**
+   * True with the given probability (0-1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Either 1 or -1 with equal odds
+   */
+  sign(): 1 | -1 {
+    return this.next() > 0.5 ? 1 : -1;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * Random numbers for one run, split into independent streams so that
+ * visual effects never shift the gameplay sequence.
+ */
+export class RandomService {
+  seed: number;
+  // Anything that changes the simulation: spawn directions, drop velocities, AI phases
+  gameplay: RandomStream;
+  // Particles, weather, shakes: free to vary with frame rate without affecting a replay
+  cosmetic: RandomStream;
+
+  constructor(seed: number = RandomService.createSeed()) {
+    this.seed = seed >>> 0;
+    this.gameplay = new RandomStream(RandomService.deriveSeed(this.seed, 1));
+    this.cosmetic = new RandomStream(RandomService.deriveSeed(this.seed, 2));
+  }
+
+  /**
+   * Restart both streams from a new seed
+   */
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.gameplay.setState(RandomService.deriveSeed(this.seed, 1));
+    this.cosmetic.setState(RandomService.deriveSeed(this.seed, 2));
+  }
+
+  static createSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+
+  private static deriveSeed(seed: number, streamIndex: number): number {
+    let h = (seed ^ Math.imul(streamIndex, 0x9e3779b9)) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+  }
+}
+
+// Fallback for objects created outside a GameState (e.g. editor previews); not reproducible
+export const unseededRandom = new RandomService();
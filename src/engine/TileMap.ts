@@ -0,0 +1,321 @@
+import type { TileMapData, TileTypeData } from "@/levels/LevelData";
+import { DiagonalPlatform } from "@/objects/diagonalPlatform";
+import { Platform } from "@/objects/platform";
+import { SolidBlock } from "@/objects/solidBlock";
+import { Vector2 } from "./Vector2";
+
+export const EMPTY_TILE = ".";
+export const DEFAULT_TILE_SIZE = 32;
+// Tiles per side of the squares the map is cached and redrawn in
+export const TILE_CHUNK_SIZE = 16;
+
+export const DEFAULT_TILESET: TileTypeData[] = [
+  { id: "1", name: "stone", color: "#4A4A4A", solid: true },
+  { id: "2", name: "brick", color: "#6B3A2A", solid: true },
+  { id: "3", name: "ledge", color: "#654321", oneWay: true },
+  { id: "4", name: "ramp up", color: "#5A5A5A", slope: "up" },
+  { id: "5", name: "ramp down", color: "#5A5A5A", slope: "down" },
+  { id: "6", name: "wall", color: "#2A2030" },
+];
+
+// Diagonal platforms stand the player half their thickness off the line; slopes need none,
+// so the ramp surface meets the solid tiles around it exactly
+const SLOPE_THICKNESS = 0;
+
+/**
+ * Level objects the physics sees in place of the tiles. They are never rendered or saved.
+ */
+export interface TileColliders {
+  platforms: Platform[];
+  solidBlocks: SolidBlock[];
+  diagonalPlatforms: DiagonalPlatform[];
+}
+
+/**
+ * A level's tile terrain: the grid of tile ids, its tileset, and the colliders built from them
+ */
+export class TileMap {
+  readonly tileSize: number;
+  private columns: number;
+  private rows: number;
+  private tiles: string[];
+  // Only kept when the level declares its own tileset, so saving leaves the default implicit
+  private tileset: TileTypeData[] | undefined;
+  private tileTypes: Map<string, TileTypeData>;
+  private colliders: TileColliders | null = null;
+  // Bumped whenever a tile in the chunk changes, so cached chunk images know to redraw
+  private chunkRevisions = new Map<string, number>();
+
+  constructor(data: TileMapData) {
+    this.tileSize = data.tileSize;
+    this.rows = data.rows.length;
+    this.columns = Math.max(0, ...data.rows.map((row) => row.length));
+    this.tiles = [];
+    for (const row of data.rows) {
+      this.tiles.push(...row.padEnd(this.columns, EMPTY_TILE));
+    }
+    this.tileset = data.tileset?.map((type) => ({ ...type }));
+    this.tileTypes = new Map((this.tileset ?? DEFAULT_TILESET).map((type) => [type.id, type]));
+  }
+
+  /**
+   * An empty map covering a level of the given size in pixels
+   */
+  static createEmpty(width: number, height: number, tileSize: number = DEFAULT_TILE_SIZE): TileMap {
+    const columns = Math.ceil(width / tileSize);
+    const rows = Math.ceil(height / tileSize);
+    return new TileMap({ tileSize, rows: Array(rows).fill(EMPTY_TILE.repeat(columns)) });
+  }
+
+  toData(): TileMapData {
+    const rows: string[] = [];
+    for (let row = 0; row < this.rows; row++) {
+      rows.push(this.tiles.slice(row * this.columns, (row + 1) * this.columns).join(""));
+    }
+    return {
+      tileSize: this.tileSize,
+      rows,
+      ...(this.tileset && { tileset: this.tileset.map((type) => ({ ...type })) }),
+    };
+  }
+
+  getColumns(): number {
+    return this.columns;
+  }
+
+  getRows(): number {
+    return this.rows;
+  }
+
+  getTileset(): TileTypeData[] {
+    return [...this.tileTypes.values()];
+  }
+
+  /**
+   * Tile id at a cell; cells outside the map are empty
+   */
+  getTile(column: number, row: number): string {
+    if (!this.contains(column, row)) return EMPTY_TILE;
+    return this.tiles[row * this.columns + column];
+  }
+
+  /**
+   * Type of the tile at a cell, or undefined for empty cells and ids missing from the tileset
+   */
+  getTileType(column: number, row: number): TileTypeData | undefined {
+    return this.tileTypes.get(this.getTile(column, row));
+  }
+
+  /**
+   * Cell under a world position (may lie outside the map)
+   */
+  cellAt(position: { x: number; y: number }): { column: number; row: number } {
+    return {
+      column: Math.floor(position.x / this.tileSize),
+      row: Math.floor(position.y / this.tileSize),
+    };
+  }
+
+  contains(column: number, row: number): boolean {
+    return column >= 0 && row >= 0 && column < this.columns && row < this.rows;
+  }
+
+  /**
+   * Grow the grid with empty cells so it has at least the given size
+   */
+  ensureSize(columns: number, rows: number): void {
+    if (columns <= this.columns && rows <= this.rows) return;
+
+    const newColumns = Math.max(columns, this.columns);
+    const newRows = Math.max(rows, this.rows);
+    const tiles: string[] = [];
+    for (let row = 0; row < newRows; row++) {
+      for (let column = 0; column < newColumns; column++) {
+        tiles.push(this.getTile(column, row));
+      }
+    }
+    this.columns = newColumns;
+    this.rows = newRows;
+    this.tiles = tiles;
+  }
+
+  /**
+   * Returns whether the cell changed. Cells outside the map are left alone.
+   */
+  setTile(column: number, row: number, id: string): boolean {
+    if (!this.contains(column, row)) return false;
+    const index = row * this.columns + column;
+    if (this.tiles[index] === id) return false;
+
+    this.tiles[index] = id;
+    this.colliders = null;
+    const chunkKey = this.chunkKey(
+      Math.floor(column / TILE_CHUNK_SIZE),
+      Math.floor(row / TILE_CHUNK_SIZE),
+    );
+    this.chunkRevisions.set(chunkKey, (this.chunkRevisions.get(chunkKey) ?? 0) + 1);
+    return true;
+  }
+
+  /**
+   * Set every cell between two corners (inclusive). Returns how many cells changed.
+   */
+  fillRect(
+    fromColumn: number,
+    fromRow: number,
+    toColumn: number,
+    toRow: number,
+    id: string,
+  ): number {
+    let changed = 0;
+    for (let row = Math.min(fromRow, toRow); row <= Math.max(fromRow, toRow); row++) {
+      for (
+        let column = Math.min(fromColumn, toColumn);
+        column <= Math.max(fromColumn, toColumn);
+        column++
+      ) {
+        if (this.setTile(column, row, id)) changed++;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Replace the connected area of matching tiles around a cell (edges only, no diagonals).
+   * Returns how many cells changed.
+   */
+  floodFill(column: number, row: number, id: string): number {
+    const target = this.getTile(column, row);
+    if (!this.contains(column, row) || target === id) return 0;
+
+    let changed = 0;
+    const pending: Array<[number, number]> = [[column, row]];
+    while (pending.length > 0) {
+      const [x, y] = pending.pop() as [number, number];
+      if (!this.contains(x, y) || this.getTile(x, y) !== target) continue;
+      this.setTile(x, y, id);
+      changed++;
+      pending.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+    }
+    return changed;
+  }
+
+  getChunkRevision(chunkColumn: number, chunkRow: number): number {
+    return this.chunkRevisions.get(this.chunkKey(chunkColumn, chunkRow)) ?? 0;
+  }
+
+  /**
+   * Colliders for the current tiles, rebuilt after any change
+   */
+  getColliders(): TileColliders {
+    if (!this.colliders) {
+      this.colliders = {
+        platforms: this.buildOneWayPlatforms(),
+        solidBlocks: this.buildSolidBlocks(),
+        diagonalPlatforms: [...this.buildSlopes("up"), ...this.buildSlopes("down")],
+      };
+    }
+    return this.colliders;
+  }
+
+  private chunkKey(chunkColumn: number, chunkRow: number): string {
+    return `${chunkColumn},${chunkRow}`;
+  }
+
+  /**
+   * Column ranges [start, end) of consecutive tiles in a row that match
+   */
+  private runs(row: number, matches: (type: TileTypeData) => boolean): Array<[number, number]> {
+    const runs: Array<[number, number]> = [];
+    let start = -1;
+    for (let column = 0; column <= this.columns; column++) {
+      const type = column < this.columns ? this.getTileType(column, row) : undefined;
+      const inRun = type !== undefined && matches(type);
+      if (inRun && start === -1) {
+        start = column;
+      } else if (!inRun && start !== -1) {
+        runs.push([start, column]);
+        start = -1;
+      }
+    }
+    return runs;
+  }
+
+  private buildSolidBlocks(): SolidBlock[] {
+    const blocks: SolidBlock[] = [];
+    // Runs continue downwards while the row below has a run with the same ends
+    let open = new Map<string, SolidBlock>();
+
+    for (let row = 0; row < this.rows; row++) {
+      const next = new Map<string, SolidBlock>();
+      for (const [start, end] of this.runs(row, (type) => type.solid === true)) {
+        const key = `${start}:${end}`;
+        const above = open.get(key);
+        if (above) {
+          above.size.y += this.tileSize;
+          next.set(key, above);
+          continue;
+        }
+        const block = new SolidBlock({
+          x: start * this.tileSize,
+          y: row * this.tileSize,
+          width: (end - start) * this.tileSize,
+          height: this.tileSize,
+          color: this.getTileType(start, row)?.color,
+        });
+        blocks.push(block);
+        next.set(key, block);
+      }
+      open = next;
+    }
+    return blocks;
+  }
+
+  private buildOneWayPlatforms(): Platform[] {
+    // Only the top edge of a one-way tile is landed on, so each row gets its own platforms
+    const platforms: Platform[] = [];
+    for (let row = 0; row < this.rows; row++) {
+      for (const [start, end] of this.runs(row, (type) => type.oneWay === true)) {
+        platforms.push(
+          new Platform({
+            x: start * this.tileSize,
+            y: row * this.tileSize,
+            width: (end - start) * this.tileSize,
+            height: Math.max(4, this.tileSize / 4),
+            color: this.getTileType(start, row)?.color,
+          }),
+        );
+      }
+    }
+    return platforms;
+  }
+
+  private buildSlopes(direction: "up" | "down"): DiagonalPlatform[] {
+    // Neighbouring ramp tiles along the diagonal become one line
+    const step = direction === "up" ? -1 : 1;
+    const isSlope = (column: number, row: number) =>
+      this.getTileType(column, row)?.slope === direction;
+
+    const slopes: DiagonalPlatform[] = [];
+    for (let row = 0; row < this.rows; row++) {
+      for (let column = 0; column < this.columns; column++) {
+        if (!isSlope(column, row) || isSlope(column - 1, row - step)) continue;
+
+        let length = 1;
+        while (isSlope(column + length, row + length * step)) length++;
+
+        const size = this.tileSize;
+        const startY = direction === "up" ? (row + 1) * size : row * size;
+        slopes.push(
+          new DiagonalPlatform({
+            startPoint: new Vector2(column * size, startY),
+            endPoint: new Vector2((column + length) * size, startY + length * step * size),
+            thickness: SLOPE_THICKNESS,
+            color: this.getTileType(column, row)?.color,
+          }),
+        );
+      }
+    }
+    return slopes;
+  }
+}
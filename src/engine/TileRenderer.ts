@@ -0,0 +1,146 @@
+import type { TileTypeData } from "@/levels/LevelData";
+import type { TileMap } from "./TileMap";
+import { TILE_CHUNK_SIZE } from "./TileMap";
+
+function shade(color: string, amount: number): string {
+  const hex = color.replace("#", "");
+  const channel = (offset: number) =>
+    Math.max(0, Math.min(255, parseInt(hex.substring(offset, offset + 2), 16) + amount))
+      .toString(16)
+      .padStart(2, "0");
+  return `#${channel(0)}${channel(2)}${channel(4)}`;
+}
+
+/**
+ * Draw one tile with its top-left corner at (x, y)
+ */
+export function drawTile(
+  ctx: CanvasRenderingContext2D,
+  type: TileTypeData,
+  x: number,
+  y: number,
+  size: number,
+): void {
+  ctx.fillStyle = type.color;
+
+  if (type.slope) {
+    // Filled below the ramp, with the walkable edge picked out
+    const up = type.slope === "up";
+    ctx.beginPath();
+    ctx.moveTo(x, up ? y + size : y);
+    ctx.lineTo(x + size, up ? y : y + size);
+    ctx.lineTo(up ? x + size : x, y + size);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.strokeStyle = shade(type.color, 40);
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x, up ? y + size : y);
+    ctx.lineTo(x + size, up ? y : y + size);
+    ctx.stroke();
+    return;
+  }
+
+  if (type.oneWay) {
+    // A plank across the top of the cell
+    const thickness = Math.max(4, size / 4);
+    ctx.fillRect(x, y, size, thickness);
+    ctx.fillStyle = shade(type.color, 20);
+    ctx.fillRect(x, y, size, 2);
+    ctx.fillStyle = shade(type.color, -20);
+    ctx.fillRect(x, y + thickness - 2, size, 2);
+    return;
+  }
+
+  ctx.fillRect(x, y, size, size);
+  if (type.solid) {
+    ctx.fillStyle = shade(type.color, 40);
+    ctx.fillRect(x, y, size, 2);
+    ctx.fillStyle = shade(type.color, -30);
+    ctx.fillRect(x, y + size - 2, size, 2);
+    ctx.fillRect(x + size - 2, y, 2, size);
+  } else {
+    // Scenery tiles are only outlined, so they read as set back from the playfield
+    ctx.strokeStyle = shade(type.color, -15);
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x + 0.5, y + 0.5, size - 1, size - 1);
+  }
+}
+
+interface CachedChunk {
+  canvas: HTMLCanvasElement;
+  revision: number;
+}
+
+/**
+ * Draws a tile map in chunks, each cached as an image until one of its tiles changes
+ */
+export class TileRenderer {
+  private tileMap: TileMap | null = null;
+  private chunks = new Map<string, CachedChunk>();
+
+  /**
+   * Draw the chunks that overlap the view (a rectangle in world coordinates)
+   */
+  render(
+    ctx: CanvasRenderingContext2D,
+    tileMap: TileMap,
+    view: { x: number; y: number; width: number; height: number },
+  ): void {
+    if (tileMap !== this.tileMap) {
+      // A different map (a new level, or an editor undo) shares nothing with the cached images
+      this.chunks.clear();
+      this.tileMap = tileMap;
+    }
+
+    const chunkPixels = TILE_CHUNK_SIZE * tileMap.tileSize;
+    const lastColumn = Math.ceil(tileMap.getColumns() / TILE_CHUNK_SIZE) - 1;
+    const lastRow = Math.ceil(tileMap.getRows() / TILE_CHUNK_SIZE) - 1;
+    const fromColumn = Math.max(0, Math.floor(view.x / chunkPixels));
+    const fromRow = Math.max(0, Math.floor(view.y / chunkPixels));
+    const toColumn = Math.min(lastColumn, Math.floor((view.x + view.width) / chunkPixels));
+    const toRow = Math.min(lastRow, Math.floor((view.y + view.height) / chunkPixels));
+
+    for (let row = fromRow; row <= toRow; row++) {
+      for (let column = fromColumn; column <= toColumn; column++) {
+        const chunk = this.getChunk(tileMap, column, row);
+        ctx.drawImage(chunk.canvas, column * chunkPixels, row * chunkPixels);
+      }
+    }
+  }
+
+  private getChunk(tileMap: TileMap, chunkColumn: number, chunkRow: number): CachedChunk {
+    const key = `${chunkColumn},${chunkRow}`;
+    const revision = tileMap.getChunkRevision(chunkColumn, chunkRow);
+    let chunk = this.chunks.get(key);
+    if (chunk && chunk.revision === revision) return chunk;
+
+    if (!chunk) {
+      const canvas = document.createElement("canvas");
+      canvas.width = TILE_CHUNK_SIZE * tileMap.tileSize;
+      canvas.height = TILE_CHUNK_SIZE * tileMap.tileSize;
+      chunk = { canvas, revision };
+      this.chunks.set(key, chunk);
+    }
+    chunk.revision = revision;
+
+    const ctx = chunk.canvas.getContext("2d");
+    if (!ctx) return chunk;
+    ctx.clearRect(0, 0, chunk.canvas.width, chunk.canvas.height);
+
+    const size = tileMap.tileSize;
+    for (let y = 0; y < TILE_CHUNK_SIZE; y++) {
+      for (let x = 0; x < TILE_CHUNK_SIZE; x++) {
+        const type = tileMap.getTileType(
+          chunkColumn * TILE_CHUNK_SIZE + x,
+          chunkRow * TILE_CHUNK_SIZE + y,
+        );
+        if (type) {
+          drawTile(ctx, type, x * size, y * size, size);
+        }
+      }
+    }
+    return chunk;
+  }
+}
@@ -0,0 +1,192 @@
+import type { KeyValueStorage } from "./KeyValueStorage";
+import { getDefaultStorage } from "./KeyValueStorage";
+
+/**
+ * How a persisted blob is shaped and upgraded. Blobs written before versioning existed count as version 0.
+ */
+export interface StorageSchema<T> {
+  // Version written by this build
+  version: number;
+  // migrations[n] upgrades data at version n to version n + 1
+  migrations: Record<number, (data: unknown) => unknown>;
+  // Shape check run on the fully migrated data
+  validate: (data: unknown) => data is T;
+}
+
+/**
+ * Record of a blob that could not be read and was moved aside
+ */
+export interface QuarantineReport {
+  key: string;
+  quarantineKey: string;
+  reason: string;
+  time: number;
+}
+
+interface Envelope {
+  schemaVersion: number;
+  data: unknown;
+}
+
+const QUARANTINE_INDEX_KEY = "storage_quarantine";
+
+export class StorageCorruptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageCorruptionError";
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isEnvelope(value: unknown): value is Envelope {
+  return isRecord(value) && Number.isInteger(value.schemaVersion) && "data" in value;
+}
+
+/**
+ * Storage where every blob carries a schema version. Old blobs are migrated step by step
+ * on read; unreadable ones are quarantined under a separate key and reported, never silently dropped.
+ */
+export class VersionedStorage {
+  readonly storage: KeyValueStorage;
+
+  // Event callbacks
+  private onCorruptionCallbacks: Array<(report: QuarantineReport) => void> = [];
+
+  constructor(storage: KeyValueStorage = getDefaultStorage()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Read and migrate a blob. Returns null when the key is empty or the blob had to be quarantined.
+   */
+  read<T>(key: string, schema: StorageSchema<T>): T | null {
+    let raw: string | null;
+    try {
+      raw = this.storage.getItem(key);
+    } catch (error) {
+      // Storage unavailable (blocked by the browser, say): nothing to read, nothing to quarantine
+      console.warn(`Failed to read "${key}":`, error);
+      return null;
+    }
+    if (raw === null) return null;
+
+    let decoded: { data: T; migrated: boolean };
+    try {
+      decoded = this.decode(raw, schema);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.quarantine(key, raw, reason);
+      return null;
+    }
+
+    if (decoded.migrated) {
+      // Persist the upgrade so the migration only runs once. If that fails the old blob is
+      // still readable, and is simply migrated again next time.
+      try {
+        this.write(key, schema, decoded.data);
+      } catch (error) {
+        console.warn(`Failed to save migrated "${key}":`, error);
+      }
+    }
+    return decoded.data;
+  }
+
+  write<T>(key: string, schema: StorageSchema<T>, data: T): void {
+    const envelope: Envelope = { schemaVersion: schema.version, data };
+    this.storage.setItem(key, JSON.stringify(envelope));
+  }
+
+  remove(key: string): void {
+    this.storage.removeItem(key);
+  }
+
+  onCorruption(callback: (report: QuarantineReport) => void): void {
+    this.onCorruptionCallbacks.push(callback);
+  }
+
+  getQuarantineReports(): QuarantineReport[] {
+    try {
+      const saved = this.storage.getItem(QUARANTINE_INDEX_KEY);
+      const reports: unknown = saved ? JSON.parse(saved) : [];
+      return Array.isArray(reports) ? (reports as QuarantineReport[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Forget the reports (the quarantined blobs themselves are kept)
+   */
+  clearQuarantineReports(): void {
+    this.storage.removeItem(QUARANTINE_INDEX_KEY);
+  }
+
+  private decode<T>(raw: string, schema: StorageSchema<T>): { data: T; migrated: boolean } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new StorageCorruptionError("Not valid JSON");
+    }
+
+    let version = 0;
+    let data = parsed;
+    if (isEnvelope(parsed)) {
+      version = parsed.schemaVersion;
+      data = parsed.data;
+    }
+
+    if (version > schema.version) {
+      throw new StorageCorruptionError(
+        `Written by a newer build (version ${version}, this build reads up to ${schema.version})`,
+      );
+    }
+
+    const startVersion = version;
+    while (version < schema.version) {
+      const migrate = schema.migrations[version];
+      if (!migrate) {
+        throw new StorageCorruptionError(`No migration from version ${version}`);
+      }
+      data = migrate(data);
+      version++;
+    }
+
+    if (!schema.validate(data)) {
+      throw new StorageCorruptionError(`Data does not match schema version ${schema.version}`);
+    }
+    return { data, migrated: version !== startVersion };
+  }
+
+  private quarantine(key: string, raw: string, reason: string): void {
+    const time = Date.now();
+    const quarantineKey = `${key}@quarantine-${time}`;
+    const report: QuarantineReport = { key, quarantineKey, reason, time };
+
+    try {
+      this.storage.setItem(quarantineKey, raw);
+      this.storage.removeItem(key);
+      this.storage.setItem(
+        QUARANTINE_INDEX_KEY,
+        JSON.stringify([...this.getQuarantineReports(), report]),
+      );
+    } catch (error) {
+      // Storage full or unavailable: leave the original in place rather than lose it
+      console.error(`Failed to quarantine ${key}:`, error);
+    }
+
+    console.error(`Quarantined corrupted "${key}" as "${quarantineKey}": ${reason}`);
+    this.onCorruptionCallbacks.forEach((callback) => callback(report));
+  }
+}
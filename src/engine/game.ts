@@ -1,5 +1,11 @@
+import { ControlsPanel } from "../hud/ControlsPanel";
+import { TitleScreen } from "../hud/TitleScreen";
 import { LevelEditor } from "../levels/LevelEditor";
+import { levels } from "../levels/levels";
+import { ManualClock } from "./Clock";
 import { GameState } from "./GameState";
+import { Input } from "./Input";
+import { parseRecording, serializeRecording } from "./InputRecording";
 import { Scanlines } from "./Scanlines";
 
 interface ExtendedCanvasRenderingContext2D extends CanvasRenderingContext2D {
@@ -16,6 +22,17 @@ export class Game {
   lastTime: number;
   running: boolean;
   scanlines: Scanlines;
+  // Backing-store scale for high-DPI displays, set in setupPixelPerfectCanvas
+  pixelRatio: number = 1;
+  // Game time, advanced one fixed step per update so timing is reproducible
+  clock: ManualClock;
+  // Simulation steps per second; physics always advances in 1 / tickRate increments
+  tickRate: number = 60;
+  // The rate to go back to once a replay recorded at another rate has finished
+  tickRateBeforeReplay: number | null = null;
+  // Maximum simulation steps run in a single frame before dropping the backlog
+  maxCatchUpSteps: number = 5;
+  accumulator: number = 0;
 
   constructor(canvasId: string = "gameCanvas", initialLevelId: string = "tutorial") {
     // Validate canvas element exists and is actually a canvas
@@ -41,7 +58,12 @@ export class Game {
     // Configure canvas for pixel-perfect rendering
     this.setupPixelPerfectCanvas();
 
-    this.gameState = new GameState(initialLevelId);
+    this.clock = new ManualClock();
+    this.gameState = new GameState(initialLevelId, {
+      clock: this.clock,
+      input: new Input(this.canvas, this.pixelRatio),
+      levels,
+    });
     this.lastTime = 0;
     this.running = true;
     this.scanlines = new Scanlines(0.6, 2, 0.5);
@@ -49,6 +71,12 @@ export class Game {
     // Set up UI for level switching
     this.setupLevelSwitchUI();
 
+    // Hold the simulation on the title screen until a save slot is picked
+    this.running = false;
+    new TitleScreen(this.gameState, initialLevelId, () => {
+      this.running = true;
+    }).open();
+
     this.start();
   }
 
@@ -74,6 +102,7 @@ export class Game {
 
     // Ensure integer pixel positions by using device pixel ratio
     const pixelRatio = window.devicePixelRatio || 1;
+    this.pixelRatio = pixelRatio;
 
     // Get the canvas size from HTML attributes (800x600)
     const canvasWidth = this.canvas.width;
@@ -129,20 +158,30 @@ export class Game {
     uiContainer.style.boxShadow = "0 0 20px rgba(212, 175, 55, 0.3)";
     uiContainer.style.fontFamily = "'Orbitron', monospace";
 
-    levelIds.forEach((levelId) => {
-      const button = document.createElement("button");
-      button.textContent = `Level ${levelId.replace("level", "")}`;
-      button.className = "arcade-button";
-      button.style.margin = "0 5px";
-
-      button.addEventListener("click", () => {
-        this.gameState.loadLevel(levelId);
-        // Remove focus from the button after click
-        button.blur();
+    // Level buttons live in their own row so levels registered at runtime can be added
+    const levelButtons = document.createElement("span");
+    const refreshLevelButtons = () => {
+      levelButtons.textContent = "";
+      levelManager.getLevelIds().forEach((levelId) => {
+        const button = document.createElement("button");
+        button.textContent = `Level ${levelId.replace("level", "")}`;
+        button.className = "arcade-button";
+        button.style.margin = "0 5px";
+
+        button.addEventListener("click", () => {
+          this.gameState.loadLevel(levelId);
+          // Remove focus from the button after click
+          button.blur();
+        });
+
+        levelButtons.appendChild(button);
       });
+    };
+    refreshLevelButtons();
+    levelManager.onLevelRegistered(refreshLevelButtons);
+    uiContainer.appendChild(levelButtons);
 
-      uiContainer.appendChild(button);
-    });
+    this.setupLevelImport(uiContainer);
 
     const editorButton = document.createElement("button");
     editorButton.textContent = "Level Editor";
@@ -169,36 +208,247 @@ export class Game {
 
     uiContainer.appendChild(editorButton);
 
+    this.setupReplayControls(uiContainer);
+
+    const controlsPanel = new ControlsPanel(this.gameState);
+    const controlsButton = document.createElement("button");
+    controlsButton.textContent = "Controls";
+    controlsButton.className = "arcade-button";
+    controlsButton.style.margin = "0 5px";
+
+    controlsButton.addEventListener("click", () => {
+      controlsPanel.open();
+      controlsButton.blur();
+    });
+
+    uiContainer.appendChild(controlsButton);
+
     document.body.appendChild(uiContainer);
   }
 
+  /**
+   * Load level JSON files at runtime: an Import Level button, drag-and-drop onto the canvas,
+   * and a `?levelUrl=` query parameter
+   */
+  setupLevelImport(uiContainer: HTMLElement): void {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = ".json,application/json";
+    fileInput.style.display = "none";
+
+    fileInput.addEventListener("change", () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = "";
+      if (file) this.importLevelFile(file);
+    });
+
+    const importButton = document.createElement("button");
+    importButton.textContent = "Import Level";
+    importButton.className = "arcade-button";
+    importButton.style.margin = "0 5px";
+
+    importButton.addEventListener("click", () => {
+      fileInput.click();
+      importButton.blur();
+    });
+
+    this.canvas.addEventListener("dragover", (event) => {
+      // Required for the drop event to fire
+      event.preventDefault();
+    });
+    this.canvas.addEventListener("drop", (event) => {
+      event.preventDefault();
+      const file = event.dataTransfer?.files[0];
+      if (file) this.importLevelFile(file);
+    });
+
+    const levelUrl = new URLSearchParams(window.location.search).get("levelUrl");
+    if (levelUrl) {
+      this.gameState.levelManager
+        .registerLevelFromUrl(levelUrl)
+        .then((levelData) => console.log(`Registered level ${levelData.id} from ${levelUrl}`))
+        .catch((error) => console.error("Failed to load level from URL:", error));
+    }
+
+    uiContainer.appendChild(importButton);
+    uiContainer.appendChild(fileInput);
+  }
+
+  /**
+   * Register a level JSON file and jump straight into it
+   */
+  importLevelFile(file: File): void {
+    file
+      .text()
+      .then((text) => {
+        const levelData = this.gameState.levelManager.registerLevelFromJson(text);
+        this.gameState.loadLevel(levelData.id);
+      })
+      .catch((error) => {
+        console.error("Failed to import level:", error);
+        alert(`Could not import level: ${error instanceof Error ? error.message : error}`);
+      });
+  }
+
+  /**
+   * Record / replay buttons for attaching reproductions to bug reports
+   */
+  setupReplayControls(uiContainer: HTMLElement): void {
+    const replayManager = this.gameState.replayManager;
+
+    const recordButton = document.createElement("button");
+    recordButton.textContent = "Record";
+    recordButton.className = "arcade-button";
+    recordButton.style.margin = "0 5px";
+
+    recordButton.addEventListener("click", () => {
+      if (replayManager.isRecording()) {
+        const recording = replayManager.stopRecording(this.gameState);
+        recordButton.textContent = "Record";
+        recordButton.classList.remove("selected");
+        if (recording) {
+          this.downloadFile(
+            `replay-${recording.levelId}-${recording.seed}.json`,
+            serializeRecording(recording),
+          );
+        }
+      } else if (replayManager.startRecording(this.gameState, this.tickRate)) {
+        recordButton.textContent = "Stop Recording";
+        recordButton.classList.add("selected");
+      }
+      recordButton.blur();
+    });
+
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = ".json,application/json";
+    fileInput.style.display = "none";
+
+    fileInput.addEventListener("change", () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = "";
+      if (!file) return;
+
+      file
+        .text()
+        .then((text) => {
+          const recording = parseRecording(text);
+          const liveTickRate = this.tickRate;
+          this.setTickRate(recording.tickRate);
+          if (replayManager.startPlayback(this.gameState, recording)) {
+            this.tickRateBeforeReplay = liveTickRate;
+            replayButton.textContent = "Stop Replay";
+            replayButton.classList.add("selected");
+          } else {
+            this.setTickRate(liveTickRate);
+          }
+        })
+        .catch((error) => {
+          console.error("Failed to load replay:", error);
+          alert(`Could not load replay: ${error instanceof Error ? error.message : error}`);
+        });
+    });
+
+    const replayButton = document.createElement("button");
+    replayButton.textContent = "Load Replay";
+    replayButton.className = "arcade-button";
+    replayButton.style.margin = "0 5px";
+
+    replayButton.addEventListener("click", () => {
+      if (replayManager.isPlaying()) {
+        replayManager.stopPlayback(this.gameState);
+      } else if (!replayManager.isRecording()) {
+        fileInput.click();
+      }
+      replayButton.blur();
+    });
+
+    replayManager.onPlaybackComplete(() => {
+      if (this.tickRateBeforeReplay !== null) {
+        this.setTickRate(this.tickRateBeforeReplay);
+        this.tickRateBeforeReplay = null;
+      }
+      replayButton.textContent = "Load Replay";
+      replayButton.classList.remove("selected");
+    });
+
+    uiContainer.appendChild(recordButton);
+    uiContainer.appendChild(replayButton);
+    uiContainer.appendChild(fileInput);
+  }
+
+  downloadFile(filename: string, content: string): void {
+    const blob = new Blob([content], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
   start(): void {
     requestAnimationFrame((time) => this.gameLoop(time));
   }
 
+  /**
+   * Change the simulation rate (steps per second)
+   */
+  setTickRate(tickRate: number): void {
+    if (tickRate <= 0) {
+      throw new Error(`Tick rate must be positive, got ${tickRate}`);
+    }
+    this.tickRate = tickRate;
+    this.accumulator = 0;
+  }
+
+  get fixedDeltaTime(): number {
+    return 1 / this.tickRate;
+  }
+
   gameLoop(currentTime: number): void {
     // Always update the time even if paused
-    const deltaTime = (currentTime - this.lastTime) / 1000;
+    const frameTime = this.lastTime === 0 ? 0 : (currentTime - this.lastTime) / 1000;
     this.lastTime = currentTime;
 
     // If game is paused but editor is active, render only (no game updates)
     const isEditorActive = this.gameState.levelEditor?.isEditorActive();
 
     if (!this.running && !isEditorActive) {
+      this.accumulator = 0;
       requestAnimationFrame((time) => this.gameLoop(time));
       return;
     }
 
-    // Cap delta time to prevent large jumps
-    const cappedDeltaTime = Math.min(deltaTime, 0.016);
+    let alpha = 1;
+
+    // If editor is active, skip game state update but still render (unless it is playtesting)
+    if (isEditorActive && !this.gameState.levelEditor?.isPlaytesting()) {
+      this.accumulator = 0;
+    } else {
+      const step = this.fixedDeltaTime;
+      this.accumulator += Math.max(0, frameTime);
+
+      let steps = 0;
+      while (this.accumulator >= step && steps < this.maxCatchUpSteps) {
+        this.clock.advance(step * 1000);
+        this.gameState.update(step);
+        this.accumulator -= step;
+        steps++;
+      }
+
+      // Too far behind (tab switch, long stall): drop the backlog instead of spiralling
+      if (this.accumulator >= step) {
+        this.accumulator %= step;
+      }
 
-    // If editor is active, skip game state update but still render
-    if (!isEditorActive) {
-      this.gameState.update(cappedDeltaTime);
+      alpha = this.accumulator / step;
     }
 
     // Always render, even in editor mode
-    this.gameState.render(this.ctx);
+    this.gameState.render(this.ctx, alpha);
 
     // Apply scanlines effect over everything
     this.scanlines.render(this.ctx, this.canvas.width, this.canvas.height);
@@ -0,0 +1,169 @@
+import type { GameState } from "@/engine/GameState";
+import type { GameAction } from "@/engine/InputBindings";
+import { formatKeyCode, REBINDABLE_ACTIONS } from "@/engine/InputBindings";
+
+/**
+ * Modal listing action bindings. Click a binding, then press the new key (Escape cancels).
+ */
+export class ControlsPanel {
+  private gameState: GameState;
+  private modal: HTMLDivElement | null = null;
+  private bindingButtons: Map<GameAction, HTMLButtonElement> = new Map();
+  private abilityList: HTMLDivElement | null = null;
+  private stopListening: (() => void) | null = null;
+
+  constructor(gameState: GameState) {
+    this.gameState = gameState;
+    this.gameState.bindings.onChange(() => this.refresh());
+  }
+
+  isOpen(): boolean {
+    return this.modal !== null;
+  }
+
+  open(): void {
+    if (this.modal) return;
+
+    const modal = document.createElement("div");
+    Object.assign(modal.style, {
+      position: "fixed",
+      top: "0",
+      left: "0",
+      width: "100%",
+      height: "100%",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      backgroundColor: "rgba(0,0,0,0.6)",
+      zIndex: "1002",
+    });
+    modal.addEventListener("click", (e) => {
+      if (e.target === modal) this.close();
+    });
+
+    const form = document.createElement("div");
+    Object.assign(form.style, {
+      backgroundColor: "#222",
+      padding: "20px",
+      borderRadius: "8px",
+      width: "320px",
+      color: "white",
+      fontFamily: "'Orbitron', monospace",
+      border: "2px solid #D4AF37",
+    });
+
+    const title = document.createElement("h3");
+    title.textContent = "Controls";
+    title.style.marginTop = "0";
+    form.appendChild(title);
+
+    for (const { action, label } of REBINDABLE_ACTIONS) {
+      const row = document.createElement("div");
+      Object.assign(row.style, {
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        marginBottom: "8px",
+      });
+
+      const name = document.createElement("span");
+      name.textContent = label;
+      row.appendChild(name);
+
+      const button = document.createElement("button");
+      button.className = "arcade-button";
+      button.style.minWidth = "110px";
+      button.addEventListener("click", () => this.listenForKey(action));
+      this.bindingButtons.set(action, button);
+      row.appendChild(button);
+
+      form.appendChild(row);
+    }
+
+    this.abilityList = document.createElement("div");
+    Object.assign(this.abilityList.style, { margin: "12px 0", fontSize: "12px", color: "#D4AF37" });
+    form.appendChild(this.abilityList);
+
+    const buttonContainer = document.createElement("div");
+    Object.assign(buttonContainer.style, {
+      display: "flex",
+      justifyContent: "flex-end",
+      gap: "8px",
+    });
+
+    const resetBtn = document.createElement("button");
+    resetBtn.textContent = "Reset Defaults";
+    resetBtn.onclick = () => this.gameState.bindings.resetToDefaults();
+    buttonContainer.appendChild(resetBtn);
+
+    const closeBtn = document.createElement("button");
+    closeBtn.textContent = "Close";
+    closeBtn.onclick = () => this.close();
+    buttonContainer.appendChild(closeBtn);
+
+    form.appendChild(buttonContainer);
+    modal.appendChild(form);
+    document.body.appendChild(modal);
+    this.modal = modal;
+    this.refresh();
+  }
+
+  close(): void {
+    this.stopListening?.();
+    if (this.modal) {
+      document.body.removeChild(this.modal);
+    }
+    this.modal = null;
+    this.abilityList = null;
+    this.bindingButtons.clear();
+  }
+
+  /**
+   * Capture the next key press for an action. Runs in the capture phase so the game never sees it.
+   */
+  private listenForKey(action: GameAction): void {
+    this.stopListening?.();
+
+    const button = this.bindingButtons.get(action);
+    if (button) {
+      button.textContent = "Press a key...";
+      button.classList.add("selected");
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      this.stopListening?.();
+
+      if (e.code === "Escape") {
+        this.refresh();
+      } else {
+        this.gameState.bindings.rebind(action, e.code);
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown, true);
+    this.stopListening = () => {
+      window.removeEventListener("keydown", onKeyDown, true);
+      button?.classList.remove("selected");
+      this.stopListening = null;
+    };
+  }
+
+  private refresh(): void {
+    const { bindings } = this.gameState;
+
+    this.bindingButtons.forEach((button, action) => {
+      button.textContent = bindings.getKeys(action).map(formatKeyCode).join(" / ");
+    });
+
+    if (this.abilityList) {
+      this.abilityList.textContent = "";
+      for (const ability of this.gameState.mpAbilitySystem.getAllAbilities()) {
+        const line = document.createElement("div");
+        line.textContent = `${ability.name}: ${ability.getKeybindLabel(bindings)} (${ability.mpCost} MP)`;
+        this.abilityList.appendChild(line);
+      }
+    }
+  }
+}
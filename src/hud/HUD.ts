@@ -71,6 +71,7 @@ interface HUDPanelConfig {
   ctx: CanvasRenderingContext2D;
   player: Player;
   mpManager: MPManager;
+  lives?: number;
   panelX: number;
   panelY: number;
   panelWidth: number;
@@ -78,12 +79,13 @@ interface HUDPanelConfig {
 }
 
 export class HUD {
-  render(ctx: CanvasRenderingContext2D, player: Player, mpManager: MPManager): void {
+  render(ctx: CanvasRenderingContext2D, player: Player, mpManager: MPManager, lives?: number): void {
     ctx.save();
     const config: HUDPanelConfig = {
       ctx,
       player,
       mpManager,
+      lives,
       panelX: 12,
       panelY: 12,
       panelWidth: 120, // Increased from 110 to 120 to accommodate wider MP box
@@ -93,6 +95,7 @@ export class HUD {
     drawPlayerLevelDisplay(config);
     drawHealthAndManaBoxes(config);
     drawPowerBar(config);
+    drawLivesDisplay(config);
     ctx.restore();
   }
 }
@@ -225,6 +228,22 @@ function drawManaBox(
   drawOrnateStatBox(ctx, x, y, width, height, "MP", mpText, "#000080", accentColor);
 }
 
+function drawLivesDisplay(config: HUDPanelConfig): void {
+  const { ctx, panelX, panelY, panelHeight, lives } = config;
+  if (lives === undefined) return;
+
+  // Small hearts tucked under the panel
+  ctx.font = "bold 12px 'Orbitron', monospace";
+  ctx.textAlign = "left";
+  ctx.fillStyle = "#FF4444";
+  ctx.strokeStyle = "#000";
+  ctx.lineWidth = 2;
+  const text = `♥ × ${lives}`;
+  const y = panelY + panelHeight + 16;
+  ctx.strokeText(text, panelX + 4, y);
+  ctx.fillText(text, panelX + 4, y);
+}
+
 function drawPowerBar(config: HUDPanelConfig): void {
   const { ctx, panelX, panelY, player } = config;
   const contentPadding = 8;
@@ -0,0 +1,187 @@
+import type { GameState } from "@/engine/GameState";
+import { SAVE_SLOT_COUNT } from "@/systems/SaveManager";
+
+/**
+ * Title overlay with the save slot picker. Filled slots continue, empty ones start a new game.
+ */
+export class TitleScreen {
+  private gameState: GameState;
+  private newGameLevelId: string;
+  private onStart: () => void;
+  private overlay: HTMLDivElement | null = null;
+  private slotList: HTMLDivElement | null = null;
+  private notice: HTMLDivElement | null = null;
+
+  /**
+   * @param newGameLevelId Level a new game begins in
+   * @param onStart Called once a slot has been loaded or started
+   */
+  constructor(gameState: GameState, newGameLevelId: string, onStart: () => void) {
+    this.gameState = gameState;
+    this.newGameLevelId = newGameLevelId;
+    this.onStart = onStart;
+  }
+
+  isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  open(): void {
+    if (this.overlay) return;
+
+    const overlay = document.createElement("div");
+    Object.assign(overlay.style, {
+      position: "fixed",
+      top: "0",
+      left: "0",
+      width: "100%",
+      height: "100%",
+      display: "flex",
+      flexDirection: "column",
+      alignItems: "center",
+      justifyContent: "center",
+      background: "radial-gradient(circle, #2C1810 0%, #000 80%)",
+      zIndex: "1001",
+      fontFamily: "'Orbitron', monospace",
+      color: "white",
+    });
+
+    const title = document.createElement("h1");
+    title.textContent = "TESTAVANIA";
+    Object.assign(title.style, {
+      color: "#D4AF37",
+      fontSize: "48px",
+      letterSpacing: "6px",
+      textShadow: "0 0 20px rgba(212, 175, 55, 0.6)",
+      margin: "0 0 32px 0",
+    });
+    overlay.appendChild(title);
+
+    this.slotList = document.createElement("div");
+    Object.assign(this.slotList.style, {
+      display: "flex",
+      flexDirection: "column",
+      gap: "12px",
+      width: "420px",
+    });
+    overlay.appendChild(this.slotList);
+
+    this.notice = document.createElement("div");
+    Object.assign(this.notice.style, {
+      marginTop: "20px",
+      width: "420px",
+      fontSize: "12px",
+      color: "#FF8888",
+    });
+    overlay.appendChild(this.notice);
+
+    document.body.appendChild(overlay);
+    this.overlay = overlay;
+    this.refresh();
+  }
+
+  close(): void {
+    if (this.overlay) {
+      document.body.removeChild(this.overlay);
+    }
+    this.overlay = null;
+    this.slotList = null;
+    this.notice = null;
+  }
+
+  private refresh(): void {
+    if (!this.slotList) return;
+    this.slotList.textContent = "";
+
+    for (let slot = 1; slot <= SAVE_SLOT_COUNT; slot++) {
+      this.slotList.appendChild(this.createSlotRow(slot));
+    }
+
+    // Reading the slots may have quarantined some, so this goes last
+    this.refreshNotice();
+  }
+
+  /**
+   * Tell the player about data that was set aside as corrupt instead of letting it vanish
+   */
+  private refreshNotice(): void {
+    if (!this.notice) return;
+    this.notice.textContent = "";
+
+    const { persistence } = this.gameState;
+    const reports = persistence.getQuarantineReports();
+    if (reports.length === 0) return;
+
+    const message = document.createElement("div");
+    message.textContent =
+      `${reports.length} damaged save ${reports.length === 1 ? "entry was" : "entries were"} ` +
+      `set aside and kept under: ${reports.map((report) => report.quarantineKey).join(", ")}`;
+    this.notice.appendChild(message);
+
+    const dismissButton = document.createElement("button");
+    dismissButton.textContent = "Dismiss";
+    dismissButton.style.marginTop = "6px";
+    dismissButton.addEventListener("click", () => {
+      persistence.clearQuarantineReports();
+      this.refreshNotice();
+    });
+    this.notice.appendChild(dismissButton);
+  }
+
+  private createSlotRow(slot: number): HTMLDivElement {
+    const { saveManager } = this.gameState;
+    const summary = saveManager.getSlotSummary(slot);
+
+    const row = document.createElement("div");
+    Object.assign(row.style, { display: "flex", gap: "8px" });
+
+    const slotButton = document.createElement("button");
+    slotButton.className = "arcade-button";
+    slotButton.style.flex = "1";
+    slotButton.style.textAlign = "left";
+
+    if (summary) {
+      const levelName =
+        this.gameState.levelManager.getLevelData(summary.levelId)?.name ?? summary.levelId;
+      const savedAt = new Date(summary.savedAt).toLocaleString();
+      slotButton.textContent =
+        `Slot ${slot} — Lv ${summary.playerLevel} · ${levelName} · ` +
+        `${summary.crystalsCollected} crystals · ${savedAt}`;
+      slotButton.addEventListener("click", () => {
+        if (saveManager.continueGame(slot, this.gameState)) {
+          this.start();
+        } else {
+          alert(`Slot ${slot} could not be loaded.`);
+        }
+      });
+    } else {
+      slotButton.textContent = `Slot ${slot} — New Game`;
+      slotButton.addEventListener("click", () => {
+        if (saveManager.startNewGame(slot, this.gameState, this.newGameLevelId)) {
+          this.start();
+        }
+      });
+    }
+    row.appendChild(slotButton);
+
+    if (summary) {
+      const deleteButton = document.createElement("button");
+      deleteButton.className = "arcade-button";
+      deleteButton.textContent = "Delete";
+      deleteButton.addEventListener("click", () => {
+        if (confirm(`Delete the save in slot ${slot}?`)) {
+          saveManager.deleteSlot(slot);
+          this.refresh();
+        }
+      });
+      row.appendChild(deleteButton);
+    }
+
+    return row;
+  }
+
+  private start(): void {
+    this.close();
+    this.onStart();
+  }
+}
@@ -248,6 +248,10 @@ export enum GameObjectState {
  */
 export enum GameEvent {
   PLAYER_DEATH = "player_death",
+  PLAYER_RESPAWN = "player_respawn",
+  GAME_OVER = "game_over",
+  CHECKPOINT_ACTIVATED = "checkpoint_activated",
+  ROOM_ENTERED = "room_entered",
   ENEMY_DEATH = "enemy_death",
   LEVEL_COMPLETE = "level_complete",
   ITEM_COLLECTED = "item_collected",
@@ -1,7 +1,12 @@
 import { Ghost } from "@/objects/enemies/Ghost";
 import { LandGhost } from "@/objects/enemies/LandGhost";
 import type { GameState } from "../engine/GameState";
+import { DEFAULT_PARALLAX_LAYERS } from "../engine/ParallaxBackground";
+import { TileMap } from "../engine/TileMap";
+import type { Vector2 } from "../engine/Vector2";
+import { Checkpoint } from "../objects/checkpoint";
 import { DiagonalPlatform } from "../objects/diagonalPlatform";
+import { Door } from "../objects/door";
 import { MemoryCrystal } from "../objects/memoryCrystal";
 import { Platform } from "../objects/platform";
 import { Player } from "../objects/players/player";
@@ -15,16 +20,39 @@ export class Level {
     this.data = levelData;
   }
 
-  // Load this level into the provided GameState
-  loadIntoGameState(gameState: GameState): void {
+  // Load this level into the provided GameState. With an entry point id the existing
+  // player walks in through that entry instead of a fresh player starting at the level start.
+  loadIntoGameState(gameState: GameState, entryId?: string): void {
     // Clear existing objects
     gameState.platforms = [];
     gameState.solidBlocks = [];
     gameState.diagonalPlatforms = [];
     gameState.enemies = [];
     gameState.memoryCrystals = [];
+    gameState.checkpoints = [];
+    gameState.doors = [];
     gameState.hitSparks = [];
 
+    // Keep the non-object parts of the level (copied so editing never touches the source data)
+    gameState.backgroundColor = this.data.background.color;
+    gameState.backgroundElements = (this.data.background.elements ?? []).map((element) => ({
+      type: element.type,
+      position: element.position.copy(),
+      size: element.size.copy(),
+      color: element.color,
+    }));
+    gameState.backgroundParallax = this.data.background.parallax?.map((layer) => ({
+      ...layer,
+      ...(layer.colors && { colors: [...layer.colors] }),
+    }));
+    gameState.parallaxBackground.setTheme(this.data.background.parallax ?? DEFAULT_PARALLAX_LAYERS);
+    gameState.weatherSystem.loadLevelWeather(this.data.weather, this.data.weatherZones);
+    gameState.tileMap = this.data.tileMap ? new TileMap(this.data.tileMap) : null;
+    gameState.entryPoints = (this.data.entryPoints ?? []).map((entry) => ({
+      id: entry.id,
+      position: entry.position.copy(),
+    }));
+
     // Create platforms
     for (const platformData of this.data.platforms) {
       gameState.platforms.push(
@@ -55,8 +83,8 @@ export class Level {
     for (const diagonalPlatformData of this.data.diagonalPlatforms) {
       gameState.diagonalPlatforms.push(
         new DiagonalPlatform({
-          startPoint: diagonalPlatformData.startPoint,
-          endPoint: diagonalPlatformData.endPoint,
+          startPoint: diagonalPlatformData.startPoint.copy(),
+          endPoint: diagonalPlatformData.endPoint.copy(),
           thickness: diagonalPlatformData.thickness,
           color: diagonalPlatformData.color,
         }),
@@ -70,30 +98,87 @@ export class Level {
           crystalData.position.x,
           crystalData.position.y,
           crystalData.type || "azure",
+          gameState.random,
         ),
       );
     }
 
     // Create enemies
+    this.spawnEnemies(gameState);
+
+    // Create checkpoints
+    for (const checkpointData of this.data.checkpoints ?? []) {
+      gameState.checkpoints.push(
+        new Checkpoint(checkpointData.position.x, checkpointData.position.y),
+      );
+    }
+
+    // Create doors
+    for (const doorData of this.data.doors ?? []) {
+      gameState.doors.push(
+        new Door({
+          x: doorData.position.x,
+          y: doorData.position.y,
+          width: doorData.size.x,
+          height: doorData.size.y,
+          targetLevelId: doorData.targetLevelId,
+          targetEntryId: doorData.targetEntryId,
+        }),
+      );
+    }
+
+    const entry = entryId ? this.getEntryPoint(entryId) : undefined;
+    if (entry) {
+      // Carry the player (health, EXP, memories) over from the previous room
+      gameState.player.enterRoom(entry.x, entry.y);
+    } else {
+      if (entryId) {
+        console.warn(`Entry point ${entryId} not found in level ${this.data.id}, using the level start`);
+      }
+      // Create player at defined start position
+      const { x, y } = this.data.player.position;
+      gameState.player = new Player(x, y, gameState.random);
+    }
+
+    // Reset game state timers
+    gameState.hitPauseTimer = 0;
+    gameState.hitPauseDuration = 0;
+    gameState.spawnTimer = 0;
+  }
+
+  /**
+   * Position of the named entry point, or undefined if the level has none by that id
+   */
+  getEntryPoint(entryId: string): Vector2 | undefined {
+    return this.data.entryPoints?.find((entry) => entry.id === entryId)?.position;
+  }
+
+  /**
+   * Replace the enemies in the GameState with a fresh set from the level data
+   */
+  spawnEnemies(gameState: GameState): void {
+    gameState.enemies = [];
     for (const enemyData of this.data.enemies) {
       if (enemyData.type === "ghost") {
         gameState.enemies.push(
-          new Ghost(enemyData.position.x, enemyData.position.y, enemyData.direction),
+          new Ghost(
+            enemyData.position.x,
+            enemyData.position.y,
+            enemyData.direction,
+            gameState.random,
+          ),
         );
       } else {
         gameState.enemies.push(
-          new LandGhost(enemyData.position.x, enemyData.position.y, enemyData.direction),
+          new LandGhost(
+            enemyData.position.x,
+            enemyData.position.y,
+            enemyData.direction,
+            gameState.random,
+          ),
         );
       }
     }
-
-    // Create player at defined start position
-    gameState.player = new Player(this.data.player.position.x, this.data.player.position.y);
-
-    // Reset game state timers
-    gameState.hitPauseTimer = 0;
-    gameState.hitPauseDuration = 0;
-    gameState.spawnTimer = 0;
   }
 
   public getData(): LevelData {
@@ -40,6 +40,77 @@ export interface PlayerStartData {
   position: Vector2;
 }
 
+// Define checkpoint positions (top-left of the brazier)
+export interface CheckpointData {
+  position: Vector2;
+}
+
+// Define exit zones that lead to another room
+export interface DoorData {
+  position: Vector2;
+  size: Vector2;
+  targetLevelId: string;
+  targetEntryId: string; // id of an entry point in the target level
+}
+
+// Define named places where the player appears when arriving through a door
+export interface EntryPointData {
+  id: string;
+  position: Vector2;
+}
+
+// Define decorative shapes drawn behind the level
+export interface BackgroundElementData {
+  type: string;
+  position: Vector2;
+  size: Vector2;
+  color: string;
+}
+
+// Define one layer of the parallax backdrop; each kind is drawn by ParallaxBackground
+export interface ParallaxLayerData {
+  kind: "sky" | "moon" | "mountains" | "towers" | "mist";
+  colors?: string[]; // Kind-specific, e.g. gradient stops top to bottom for sky; defaults per kind
+  parallaxX?: number; // 0 = fixed to the screen, 1 = moves with the camera
+  parallaxY?: number;
+}
+
+export type WeatherMode = "clear" | "light" | "moderate" | "heavy" | "storm";
+
+// Define the weather for a level or one of its zones; anything left out keeps the surrounding setting
+export interface WeatherData {
+  mode?: WeatherMode; // Starting intensity
+  minIntensity?: number; // Storm intensity drifts randomly between min and max (0-1)
+  maxIntensity?: number;
+  lightning?: boolean;
+  indoor?: boolean; // Indoors there is no rain or lightning at all
+  wind?: Vector2; // Pushes the rain: x sideways, y extra fall speed (pixels per second)
+}
+
+// Define regions that change the weather while the player is inside them
+export interface WeatherZoneData {
+  position: Vector2;
+  size: Vector2;
+  weather: WeatherData;
+}
+
+// Define one kind of tile; its flags decide what the tile collides like
+export interface TileTypeData {
+  id: string; // The single character that stands for this tile in TileMapData.rows
+  name: string;
+  color: string;
+  solid?: boolean; // Blocks from every side, like a solid block
+  oneWay?: boolean; // Can be stood on and jumped up through, like a platform
+  slope?: "up" | "down"; // Walkable ramp rising (up) or falling (down) towards the right
+}
+
+// Define terrain painted on a grid anchored at the level's top-left corner
+export interface TileMapData {
+  tileSize: number; // Width and height of one tile in pixels
+  rows: string[]; // Top row first, one character per tile; "." is an empty cell
+  tileset?: TileTypeData[]; // Omitted means the default castle tileset
+}
+
 // Define the entire level data structure
 export interface LevelData {
   id: string;
@@ -48,17 +119,19 @@ export interface LevelData {
   height: number; // Level height in pixels
   background: {
     color: string;
-    elements?: {
-      type: string;
-      position: Vector2;
-      size: Vector2;
-      color: string;
-    }[];
+    elements?: BackgroundElementData[];
+    parallax?: ParallaxLayerData[]; // Back to front; omitted means the default castle-at-night backdrop
   };
   platforms: PlatformData[];
   solidBlocks: SolidBlockData[];
   diagonalPlatforms: DiagonalPlatformData[];
   memoryCrystals: MemoryCrystalData[];
   enemies: EnemyData[];
+  checkpoints?: CheckpointData[];
+  doors?: DoorData[];
+  entryPoints?: EntryPointData[];
+  weather?: WeatherData; // Omitted means the default outdoor storm
+  weatherZones?: WeatherZoneData[];
+  tileMap?: TileMapData;
   player: PlayerStartData;
 }
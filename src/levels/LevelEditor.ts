@@ -1,17 +1,28 @@
 import type { GameState } from "@/engine/GameState";
 import { Vector2 } from "@/engine/Vector2";
+import type { Checkpoint } from "@/objects/checkpoint";
 import type { DiagonalPlatform } from "@/objects/diagonalPlatform";
 import type { Ghost } from "@/objects/enemies/Ghost";
 import type { LandGhost } from "@/objects/enemies/LandGhost";
 import type { MemoryCrystal } from "@/objects/memoryCrystal";
 import type { Platform } from "@/objects/platform";
 import type { SolidBlock } from "@/objects/solidBlock";
+import { EditorClipboard } from "./LevelEditor/EditorClipboard";
+import { applyInspectorField, describeInspectorFields } from "./LevelEditor/EditorInspector";
+import type { EditorLayerId } from "./LevelEditor/EditorLayers";
+import { EditorLayers } from "./LevelEditor/EditorLayers";
 import { EditorLevelSaver } from "./LevelEditor/EditorLevelSaver";
+import type { LintProblem } from "./LevelEditor/EditorLint";
+import { lintLevel } from "./LevelEditor/EditorLint";
+import { EditorMinimap } from "./LevelEditor/EditorMinimap";
 import { EditorMode } from "./LevelEditor/EditorModes";
 import { EditorMouseHandler } from "./LevelEditor/EditorMouseHandler";
 import { EditorObjectManager } from "./LevelEditor/EditorObjectManager";
+import { EditorPlaytest } from "./LevelEditor/EditorPlaytest";
+import { EditorPrefabs } from "./LevelEditor/EditorPrefabs";
 import { EditorRenderer } from "./LevelEditor/EditorRenderer";
 import { EditorStateManager } from "./LevelEditor/EditorStateManager";
+import { EditorTileTools } from "./LevelEditor/EditorTileTools";
 import type {
   EditorDiagonalPlatform,
   EditorObject,
@@ -22,6 +33,14 @@ import type {
 } from "./LevelEditor/EditorTypes";
 import { EditorUI } from "./LevelEditor/EditorUI";
 import { EditorUtils } from "./LevelEditor/EditorUtils";
+import { EditorWeatherPanel } from "./LevelEditor/EditorWeatherPanel";
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 2;
+// Zoom change per wheel notch
+const ZOOM_STEP = 1.25;
+// Starts and stops "Play from here"; a key code, as InputBindings stores them
+const PLAYTEST_KEY = "KeyT";
 
 export class LevelEditor {
   private gameState: GameState;
@@ -38,6 +57,7 @@ export class LevelEditor {
   private platformColor: string = "#654321";
   private crystalType: string = "azure";
   private scrollPosition: Vector2 = new Vector2(0, 0);
+  private zoom: number = 1;
   private levelWidth: number = 800;
   private levelHeight: number = 600;
   private mousePosition: Vector2 = new Vector2(0, 0); // Current mouse position in world coordinates
@@ -46,6 +66,10 @@ export class LevelEditor {
   private areaSelectionStart: Vector2 | null = null;
   private areaSelectionEnd: Vector2 | null = null;
   private selectedObjects: EditorObject[] = [];
+  // Dragging the whole selection: where the drag began and how far the objects have moved so far
+  private groupDrag: { start: Vector2; moved: Vector2; undoPushed: boolean } | null = null;
+  // Results of the last level check, listed in the editor panel
+  private lintProblems: LintProblem[] = [];
 
   // Module instances
   private ui: EditorUI;
@@ -55,6 +79,13 @@ export class LevelEditor {
   private stateManager: EditorStateManager;
   private renderer: EditorRenderer;
   private levelSaver: EditorLevelSaver;
+  private weatherPanel: EditorWeatherPanel;
+  private playtest: EditorPlaytest;
+  private clipboard: EditorClipboard;
+  private tileTools: EditorTileTools;
+  private layers: EditorLayers;
+  private minimap: EditorMinimap;
+  private prefabs: EditorPrefabs;
 
   constructor(gameState: GameState, canvas: HTMLCanvasElement) {
     this.gameState = gameState;
@@ -62,13 +93,21 @@ export class LevelEditor {
 
     // Initialize modules
     this.utils = new EditorUtils();
-    this.objectManager = new EditorObjectManager(gameState, this.utils);
-    this.stateManager = new EditorStateManager(gameState);
+    this.layers = new EditorLayers();
+    this.objectManager = new EditorObjectManager(gameState, this.utils, this.layers);
+    this.prefabs = new EditorPrefabs(gameState);
+    this.stateManager = new EditorStateManager(gameState, this.prefabs);
+    this.playtest = new EditorPlaytest(gameState, this.stateManager);
+    this.clipboard = new EditorClipboard(gameState, this.utils);
+    this.tileTools = new EditorTileTools(gameState, this.layers);
     this.renderer = new EditorRenderer(canvas, this.utils);
-    this.levelSaver = new EditorLevelSaver(gameState, this.utils);
+    this.levelSaver = new EditorLevelSaver(gameState);
+    this.weatherPanel = new EditorWeatherPanel(gameState, () => this.pushUndoState());
+    this.minimap = new EditorMinimap(gameState, (worldPos) => this.centerViewOn(worldPos));
     this.mouseHandler = new EditorMouseHandler({
       canvas,
       objectManager: this.objectManager,
+      tileTools: this.tileTools,
       utils: this.utils,
     });
 
@@ -82,7 +121,9 @@ export class LevelEditor {
       },
       onUndo: () => this.undo(),
       onRedo: () => this.redo(),
-      onSave: () => this.levelSaver.saveCurrentLevel(this.levelWidth, this.levelHeight),
+      onSave: () => this.save(),
+      onWeather: () => this.weatherPanel.open(this.scrollPosition),
+      onPlaytest: () => (this.playtest.isRunning() ? this.stopPlaytest() : this.startPlaytest()),
       onClose: () => this.deactivate(),
       onColorChange: (color) => {
         this.platformColor = color;
@@ -94,10 +135,28 @@ export class LevelEditor {
       onLevelSizeChange: (width, height) => {
         this.levelWidth = width;
         this.levelHeight = height;
+        this.tileTools.setLevelSize(width, height);
       },
       onDirectionChange: (direction) => {
         this.changeSelectedEnemyDirection(direction);
       },
+      onInspectorChange: (key, value, startsEdit) => {
+        this.applyInspectorEdit(key, value, startsEdit);
+      },
+      onTileChange: (id) => {
+        this.tileTools.setTileId(id);
+      },
+      onLayerToggle: (layer, toggle) => {
+        this.toggleLayer(layer, toggle);
+      },
+      onLint: () => this.runLint(),
+      onLintSelect: (index) => this.focusLintProblem(index),
+      onPrefabSelect: (id) => {
+        this.prefabs.select(id);
+        this.updatePrefabPanel();
+      },
+      onPrefabAction: (action) => this.handlePrefabAction(action),
+      onPrefabImport: (file) => this.importPrefabs(file),
     });
   }
 
@@ -113,10 +172,12 @@ export class LevelEditor {
       this.levelWidth = currentLevelData.width;
       this.levelHeight = currentLevelData.height;
     }
+    this.tileTools.setLevelSize(this.levelWidth, this.levelHeight);
 
     // Synchronize editor scroll position with game camera
     this.scrollPosition.x = this.gameState.camera.position.x;
     this.scrollPosition.y = this.gameState.camera.position.y;
+    this.gameState.camera.zoom = this.zoom;
 
     // Create UI
     this.ui.createEditorUI(
@@ -130,6 +191,10 @@ export class LevelEditor {
 
     // Show direction controls if an enemy is selected
     this.updateDirectionControls();
+    this.updateTilePalette();
+    this.updateLayerPanel();
+    this.updatePrefabPanel();
+    this.updateInspector();
 
     // Add event listeners
     this.canvas.addEventListener("mousedown", this.handleMouseDown);
@@ -137,19 +202,23 @@ export class LevelEditor {
     this.canvas.addEventListener("mouseup", this.handleMouseUp);
     this.canvas.addEventListener("wheel", this.handleWheel);
     window.addEventListener("keydown", this.handleKeyDown);
+    window.addEventListener("keydown", this.handlePlaytestKey);
 
-    // Initialize scroll indicator
+    // Initialize scroll indicator and minimap
     this.ui.createScrollIndicator();
     this.updateScrollIndicator();
+    this.minimap.create();
   }
 
   deactivate(): void {
     if (!this.isActive) return;
+    this.stopPlaytest();
     this.isActive = false;
 
-    // Synchronize game camera with editor scroll position
+    // Synchronize game camera with editor scroll position; the game only plays unzoomed
     this.gameState.camera.position.x = this.scrollPosition.x;
     this.gameState.camera.position.y = this.scrollPosition.y;
+    this.gameState.camera.zoom = 1;
 
     // Remove event listeners
     this.canvas.removeEventListener("mousedown", this.handleMouseDown);
@@ -158,17 +227,33 @@ export class LevelEditor {
     this.canvas.removeEventListener("wheel", this.handleWheel);
     window.removeEventListener("keydown", this.handleKeyDown);
     window.removeEventListener("keydown", this.handleUndoRedoKeys);
+    window.removeEventListener("keydown", this.handlePlaytestKey);
 
     // Cleanup UI
     this.ui.cleanup();
+    this.minimap.cleanup();
   }
 
   isEditorActive(): boolean {
     return this.isActive;
   }
 
+  /**
+   * True while "Play from here" runs the live game; the editor stays open but hands over input
+   */
+  isPlaytesting(): boolean {
+    return this.playtest.isRunning();
+  }
+
+  /**
+   * Hidden layers only apply to the editor view; a playtest shows the whole level
+   */
+  isLayerVisible(layer: EditorLayerId): boolean {
+    return this.playtest.isRunning() || this.layers.isVisible(layer);
+  }
+
   render(ctx: CanvasRenderingContext2D): void {
-    if (!this.isActive) return;
+    if (!this.isActive || this.playtest.isRunning()) return;
     this.renderer.render(
       ctx,
       this.mode,
@@ -181,17 +266,276 @@ export class LevelEditor {
       this.selectedObjects,
       this.mousePosition,
       this.resizing ?? undefined,
+      this.gameState.weatherSystem.getWeatherZones(),
+      this.getTilePreview(),
+      this.zoom,
     );
+    this.minimap.render(this.levelWidth, this.levelHeight, {
+      x: this.scrollPosition.x,
+      y: this.scrollPosition.y,
+      ...this.getViewSize(),
+    });
+  }
+
+  /**
+   * The part of the level in view, in world pixels
+   */
+  private getViewSize(): { width: number; height: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    return { width: rect.width / this.zoom, height: rect.height / this.zoom };
+  }
+
+  /**
+   * Change the zoom, keeping the world point under the given canvas position where it is
+   */
+  private zoomAt(screenPos: Vector2, zoom: number): void {
+    const clamped = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+    if (clamped === this.zoom) return;
+
+    const anchor = this.utils.screenToWorld(screenPos, this.scrollPosition, this.zoom);
+    this.zoom = clamped;
+    this.scrollPosition.x = anchor.x - screenPos.x / clamped;
+    this.scrollPosition.y = anchor.y - screenPos.y / clamped;
+    this.clampScroll();
+    this.syncCameraWithScroll();
+    this.updateScrollIndicator();
+  }
+
+  /**
+   * Scroll so a world position is in the middle of the view (as far as the level allows)
+   */
+  private centerViewOn(worldPos: Vector2): void {
+    const view = this.getViewSize();
+    this.scrollPosition.x = worldPos.x - view.width / 2;
+    this.scrollPosition.y = worldPos.y - view.height / 2;
+    this.clampScroll();
+    this.syncCameraWithScroll();
+    this.updateScrollIndicator();
+  }
+
+  private clampScroll(): void {
+    this.utils.clampScrollPosition({
+      scrollPosition: this.scrollPosition,
+      canvas: this.canvas,
+      levelWidth: this.levelWidth,
+      levelHeight: this.levelHeight,
+      zoom: this.zoom,
+    });
+  }
+
+  /**
+   * The cells the current tile tool would paint, or where a prefab would land, outlined under
+   * the cursor
+   */
+  private getTilePreview(): { x: number; y: number; w: number; h: number } | undefined {
+    if (this.mode === EditorMode.PREFAB) {
+      return this.prefabs.getPlacementBounds(this.utils.snapVec2(this.mousePosition));
+    }
+    if (!this.tileTools.canEdit()) return undefined;
+    switch (this.mode) {
+      case EditorMode.TILE_PAINT:
+      case EditorMode.TILE_ERASE:
+      case EditorMode.TILE_FILL:
+        return this.tileTools.getCellBounds(this.mousePosition);
+      case EditorMode.TILE_RECT:
+        return this.tileTools.getCellBounds(this.mousePosition, this.startPosition ?? undefined);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Undo, redo and playtests can swap in a level with another tileset
+   */
+  private updateTilePalette(): void {
+    const container = this.ui.getEditorContainer();
+    if (!container) return;
+    const tileset = this.tileTools.getTileset();
+    if (!tileset.some((type) => type.id === this.tileTools.getTileId()) && tileset.length > 0) {
+      this.tileTools.setTileId(tileset[0].id);
+    }
+    this.ui.createTilePalette(container, tileset, this.tileTools.getTileId());
+  }
+
+  private updateLayerPanel(): void {
+    const container = this.ui.getEditorContainer();
+    if (!container) return;
+    this.ui.createLayerPanel(container, this.layers.getStates());
+  }
+
+  private toggleLayer(layer: EditorLayerId, toggle: "visible" | "locked" | "solo"): void {
+    if (toggle === "visible") {
+      this.layers.toggleVisible(layer);
+    } else if (toggle === "locked") {
+      this.layers.toggleLocked(layer);
+    } else {
+      this.layers.toggleSolo(layer);
+    }
+    this.updateLayerPanel();
+
+    // Objects that can no longer be picked drop out of the selection
+    if (this.selectedObject && !this.layers.canSelect(this.selectedObject)) {
+      this.selectedObject = null;
+      this.resizing = null;
+      this.currentPlatform = null;
+      this.updateDirectionControls();
+    }
+    this.setSelection(this.selectedObjects.filter((obj) => this.layers.canSelect(obj)));
+  }
+
+  private updatePrefabPanel(): void {
+    const container = this.ui.getEditorContainer();
+    if (!container) return;
+    this.ui.createPrefabPanel(
+      container,
+      this.prefabs.getSummaries(),
+      this.prefabs.getSelected()?.id,
+    );
+  }
+
+  /**
+   * Place the prefab picked in the panel with its top-left corner on the grid point nearest
+   * the click, and select the new objects
+   */
+  private placePrefab(worldPos: Vector2): void {
+    if (!this.prefabs.getSelected()) return;
+    this.pushUndoState();
+    this.setSelection(this.prefabs.place(this.utils.snapVec2(worldPos)));
+    this.updatePrefabPanel();
+  }
+
+  private handlePrefabAction(action: "save" | "update" | "delete" | "export"): void {
+    const prefab = this.prefabs.getSelected();
+    const objects = this.getInspectedObjects();
+
+    switch (action) {
+      case "save": {
+        if (objects.length === 0) {
+          alert("Select the objects to save as a prefab first.");
+          return;
+        }
+        const name = prompt("Prefab name:")?.trim();
+        if (!name) return;
+        if (!this.prefabs.create(name, objects)) {
+          alert("Prefabs can't hold the player start; select other objects.");
+          return;
+        }
+        break;
+      }
+      case "update": {
+        if (!prefab) return;
+        if (objects.every((obj) => obj === this.gameState.player)) {
+          alert(`Select the objects to replace "${prefab.name}" with first.`);
+          return;
+        }
+        const question = `Replace "${prefab.name}" with the selection and rebuild its placed copies?`;
+        if (!confirm(question)) return;
+        this.pushUndoState();
+        const rebuilt = this.prefabs.updateSelected(objects);
+        console.log(`Updated prefab ${prefab.name} and rebuilt ${rebuilt} placed copies`);
+        break;
+      }
+      case "delete":
+        if (!prefab) return;
+        if (!confirm(`Delete prefab "${prefab.name}"? Placed copies stay in the level.`)) return;
+        this.prefabs.deleteSelected();
+        break;
+      case "export":
+        this.prefabs.downloadLibrary();
+        return;
+    }
+    this.updatePrefabPanel();
+  }
+
+  private importPrefabs(file: File): void {
+    file
+      .text()
+      .then((text) => {
+        const count = this.prefabs.importLibrary(text);
+        console.log(`Imported ${count} prefabs from ${file.name}`);
+        this.updatePrefabPanel();
+      })
+      .catch((error) => {
+        console.error("Failed to import prefabs:", error);
+        alert(`Could not import prefabs: ${error instanceof Error ? error.message : error}`);
+      });
+  }
+
+  /**
+   * Check the level and list what was found in the editor panel
+   */
+  private runLint(): LintProblem[] {
+    this.lintProblems = lintLevel(this.gameState, this.levelWidth, this.levelHeight);
+    const container = this.ui.getEditorContainer();
+    if (container) {
+      this.ui.createLintPanel(container, this.lintProblems);
+    }
+    return this.lintProblems;
+  }
+
+  /**
+   * Select a problem's object and bring it into view
+   */
+  private focusLintProblem(index: number): void {
+    const problem = this.lintProblems[index];
+    if (!problem) return;
+
+    // Undo and edits since the check may have replaced or removed the object
+    if (!this.isInLevel(problem.object)) {
+      this.runLint();
+      return;
+    }
+
+    const { position, size } = problem.object;
+    this.selectedObject = problem.object;
+    this.resizing = null;
+    this.setSelection([]);
+    this.updateDirectionControls();
+    this.centerViewOn(new Vector2(position.x + size.x / 2, position.y + size.y / 2));
+  }
+
+  private isInLevel(obj: EditorObject): boolean {
+    return (
+      obj === this.gameState.player ||
+      [
+        ...this.gameState.platforms,
+        ...this.gameState.solidBlocks,
+        ...this.gameState.diagonalPlatforms,
+        ...this.gameState.memoryCrystals,
+        ...this.gameState.enemies,
+        ...this.gameState.checkpoints,
+      ].some((candidate) => candidate === obj)
+    );
+  }
+
+  /**
+   * Check the level before saving and let the user back out if anything was found
+   */
+  private save(): void {
+    const problems = this.runLint();
+    if (
+      problems.length > 0 &&
+      !confirm(`The level check found ${problems.length} problem(s).\n\nSave anyway?`)
+    ) {
+      return;
+    }
+    this.levelSaver.saveCurrentLevel(this.levelWidth, this.levelHeight);
   }
 
   private undo(): void {
     this.scrollPosition = this.stateManager.undo(this.scrollPosition);
+    this.clearSelection();
+    this.updateTilePalette();
+    this.updatePrefabPanel();
     this.syncCameraWithScroll();
     this.updateScrollIndicator();
   }
 
   private redo(): void {
     this.scrollPosition = this.stateManager.redo(this.scrollPosition);
+    this.clearSelection();
+    this.updateTilePalette();
+    this.updatePrefabPanel();
     this.syncCameraWithScroll();
     this.updateScrollIndicator();
   }
@@ -200,12 +544,60 @@ export class LevelEditor {
     this.stateManager.pushUndoState(this.scrollPosition);
   }
 
+  private startPlaytest(): void {
+    if (this.playtest.isRunning()) return;
+
+    // Drop any half-finished drag so it does not resume when the playtest ends
+    this.startPosition = null;
+    this.currentPlatform = null;
+    this.currentDiagonalPlatform = null;
+    this.resizing = null;
+    this.areaSelectionStart = null;
+    this.areaSelectionEnd = null;
+
+    this.playtest.start(this.mousePosition, this.scrollPosition);
+    this.gameState.camera.zoom = 1;
+    this.ui.setPlaytestMode(true, this.gameState.bindings.isBound(PLAYTEST_KEY) ? null : "T");
+    this.minimap.setVisible(false);
+  }
+
+  private stopPlaytest(): void {
+    const scrollPosition = this.playtest.stop();
+    if (!scrollPosition) return;
+
+    this.clearSelection();
+    this.updateTilePalette();
+    this.ui.setPlaytestMode(false);
+    this.minimap.setVisible(true);
+    this.scrollPosition = scrollPosition;
+    this.syncCameraWithScroll();
+    this.updateScrollIndicator();
+  }
+
+  private handlePlaytestKey = (e: KeyboardEvent): void => {
+    if (e.code !== PLAYTEST_KEY || e.ctrlKey || e.metaKey || e.altKey) return;
+    // Typing a T into an editor field is not a command
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    // Once the game runs, a T the player has bound to an action belongs to the game
+    if (this.playtest.isRunning() && this.gameState.bindings.isBound(PLAYTEST_KEY)) return;
+
+    e.preventDefault();
+    if (this.playtest.isRunning()) {
+      this.stopPlaytest();
+    } else {
+      this.startPlaytest();
+    }
+  };
+
   private handleMouseDown = (e: MouseEvent) => {
+    if (this.playtest.isRunning()) return;
+    if (this.startGroupDrag(e)) return;
     this.mouseHandler.handleMouseDown({
       e,
       mode: this.mode,
       selectedObject: this.selectedObject,
       scrollPosition: this.scrollPosition,
+      zoom: this.zoom,
       onStartPosition: (pos: Vector2 | null) => {
         this.startPosition = pos;
       },
@@ -223,22 +615,29 @@ export class LevelEditor {
       },
       onSelectedObject: (obj: EditorObject) => {
         this.selectedObject = obj;
+        // A click selection replaces any area selection
+        this.setSelection([]);
         this.updateDirectionControls();
       },
       onAreaSelectionStart: (worldPos: Vector2) => {
         this.startAreaSelection(worldPos);
       },
+      onPlacePrefab: (worldPos: Vector2) => this.placePrefab(worldPos),
       onPushUndoState: () => this.pushUndoState(),
     });
   };
 
   private handleMouseMove = (e: MouseEvent) => {
+    if (this.playtest.isRunning()) return;
     // Update mouse position for display feedback
-    const rect = this.canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    this.mousePosition.x = x + this.scrollPosition.x;
-    this.mousePosition.y = y + this.scrollPosition.y;
+    const worldPos = this.getMouseWorldPosition(e);
+    this.mousePosition.x = worldPos.x;
+    this.mousePosition.y = worldPos.y;
+
+    if (this.groupDrag) {
+      this.updateGroupDrag();
+      return;
+    }
 
     this.mouseHandler.handleMouseMove({
       e,
@@ -249,6 +648,9 @@ export class LevelEditor {
       resizing: this.resizing,
       startPosition: this.startPosition,
       scrollPosition: this.scrollPosition,
+      levelWidth: this.levelWidth,
+      levelHeight: this.levelHeight,
+      zoom: this.zoom,
       onScrollPosition: () => this.syncCameraWithScroll(),
       onScrolling: () => {
         /* handled internally */
@@ -267,6 +669,12 @@ export class LevelEditor {
   };
 
   private handleMouseUp = (e: MouseEvent) => {
+    if (this.playtest.isRunning()) return;
+    if (this.groupDrag) {
+      this.groupDrag = null;
+      this.updateInspector();
+      return;
+    }
     this.mouseHandler.handleMouseUp({
       e,
       mode: this.mode,
@@ -276,6 +684,7 @@ export class LevelEditor {
       resizing: this.resizing,
       startPosition: this.startPosition,
       scrollPosition: this.scrollPosition,
+      zoom: this.zoom,
       onScrolling: () => {
         /* handled internally */
       },
@@ -296,28 +705,42 @@ export class LevelEditor {
         this.finishAreaSelection();
       },
     });
+    // Dragging or resizing may have moved the selected object
+    this.updateInspector();
   };
 
   private handleWheel = (e: WheelEvent): void => {
+    if (this.playtest.isRunning()) return;
     e.preventDefault();
-    const delta = e.deltaY;
-    const scrollSpeed = 32;
+    // Some browsers report Shift + wheel as sideways scrolling
+    const delta = e.deltaY || e.deltaX;
+
+    // Shift + wheel scrolls sideways and Alt + wheel up and down; otherwise the wheel zooms
+    // in on the cursor
+    if (!e.shiftKey && !e.altKey) {
+      const rect = this.canvas.getBoundingClientRect();
+      const screenPos = new Vector2(e.clientX - rect.left, e.clientY - rect.top);
+      this.zoomAt(screenPos, delta < 0 ? this.zoom * ZOOM_STEP : this.zoom / ZOOM_STEP);
+      return;
+    }
+
+    // Same distance on screen at any zoom
+    const scrollSpeed = 32 / this.zoom;
     if (e.shiftKey) {
       this.scrollPosition.x += (delta > 0 ? 1 : -1) * scrollSpeed;
     } else {
       this.scrollPosition.y += (delta > 0 ? 1 : -1) * scrollSpeed;
     }
-    this.utils.clampScrollPosition({
-      scrollPosition: this.scrollPosition,
-      canvas: this.canvas,
-      levelWidth: this.levelWidth,
-      levelHeight: this.levelHeight,
-    });
+    this.clampScroll();
     this.syncCameraWithScroll();
     this.updateScrollIndicator();
   };
 
   private handleKeyDown = (e: KeyboardEvent): void => {
+    if (this.playtest.isRunning()) return;
+    // Keys typed into the editor's own fields (inspector, level size) are not commands
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    if (this.handleSelectionKeys(e)) return;
     const scrollAmount = e.shiftKey ? 64 : 16;
     switch (e.key) {
       case "ArrowUp":
@@ -346,17 +769,13 @@ export class LevelEditor {
       default:
         return;
     }
-    this.utils.clampScrollPosition({
-      scrollPosition: this.scrollPosition,
-      canvas: this.canvas,
-      levelWidth: this.levelWidth,
-      levelHeight: this.levelHeight,
-    });
+    this.clampScroll();
     this.syncCameraWithScroll();
     this.updateScrollIndicator();
   };
 
   private handleUndoRedoKeys = (e: KeyboardEvent) => {
+    if (this.playtest.isRunning()) return;
     const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0;
     if ((isMac ? e.metaKey : e.ctrlKey) && !e.shiftKey && e.key.toLowerCase() === "z") {
       e.preventDefault();
@@ -371,13 +790,159 @@ export class LevelEditor {
     }
   };
 
+  /**
+   * Clipboard shortcuts, and arrow keys move the selection instead of scrolling while there is one.
+   * Returns true when the key was used.
+   */
+  private handleSelectionKeys(e: KeyboardEvent): boolean {
+    const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0;
+    if ((isMac ? e.metaKey : e.ctrlKey) && !e.shiftKey && !e.altKey) {
+      switch (e.key.toLowerCase()) {
+        case "c":
+          this.copySelection();
+          break;
+        case "x":
+          if (this.copySelection() > 0) this.deleteSelectedObjects();
+          break;
+        case "v":
+          if (!this.clipboard.hasContent()) return false;
+          this.pushUndoState();
+          this.setSelection(this.clipboard.paste(this.mousePosition));
+          break;
+        case "d":
+          if (this.selectedObjects.length === 0) return false;
+          this.pushUndoState();
+          this.setSelection(this.clipboard.duplicate(this.selectedObjects));
+          break;
+        default:
+          return false;
+      }
+      e.preventDefault();
+      return true;
+    }
+
+    if (this.selectedObjects.length === 0) return false;
+    const step = e.shiftKey ? 64 : 16;
+    const nudges: Record<string, [number, number]> = {
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+    };
+    const nudge = nudges[e.key];
+    if (!nudge) return false;
+
+    // Holding an arrow key down is one move, so one undo step
+    if (!e.repeat) this.pushUndoState();
+    this.clipboard.moveObjects(this.selectedObjects, nudge[0], nudge[1]);
+    this.updateInspector();
+    e.preventDefault();
+    return true;
+  }
+
+  private copySelection(): number {
+    const count = this.clipboard.copy(this.selectedObjects);
+    if (count > 0) console.log(`Copied ${count} object${count > 1 ? "s" : ""}`);
+    return count;
+  }
+
+  /**
+   * Restoring a state rebuilds every object, so selections from before point at nothing
+   */
+  private clearSelection(): void {
+    this.selectedObject = null;
+    this.groupDrag = null;
+    this.setSelection([]);
+    this.updateDirectionControls();
+  }
+
+  private setSelection(objects: EditorObject[]): void {
+    this.selectedObjects = objects;
+    this.ui.updateSelectionInfo(objects.length);
+    this.updateInspector();
+  }
+
+  /**
+   * What the inspector edits: the area selection if there is one, otherwise the clicked object
+   */
+  private getInspectedObjects(): EditorObject[] {
+    if (this.selectedObjects.length > 0) return this.selectedObjects;
+    return this.selectedObject ? [this.selectedObject] : [];
+  }
+
+  private updateInspector(): void {
+    const container = this.ui.getEditorContainer();
+    if (!container) return;
+    const objects = this.getInspectedObjects();
+    this.ui.createInspector(container, describeInspectorFields(objects), objects.length);
+  }
+
+  private applyInspectorEdit(key: string, value: string | number, startsEdit: boolean): void {
+    const objects = this.getInspectedObjects();
+    if (objects.length === 0) return;
+
+    // Typing "123" is one undo step, not three
+    if (startsEdit) this.pushUndoState();
+    const updated = applyInspectorField(this.gameState, objects, key, value);
+
+    // Changing an enemy's type swaps in a new object, so the selection has to follow it
+    if (this.selectedObjects.length > 0) {
+      this.selectedObjects = updated;
+    } else {
+      this.selectedObject = updated[0];
+      this.updateDirectionControls();
+    }
+  }
+
+  /**
+   * In area select mode, pressing on an already selected object drags the whole selection
+   */
+  private startGroupDrag(e: MouseEvent): boolean {
+    if (e.button !== 0 || this.mode !== EditorMode.AREA_SELECT) return false;
+
+    const worldPos = this.getMouseWorldPosition(e);
+    const hit = this.selectedObjects.some((obj) =>
+      this.isObjectInArea(obj as PositionedObject, worldPos.x, worldPos.y, worldPos.x, worldPos.y),
+    );
+    if (!hit) return false;
+
+    this.groupDrag = { start: worldPos, moved: new Vector2(0, 0), undoPushed: false };
+    return true;
+  }
+
+  private updateGroupDrag(): void {
+    if (!this.groupDrag) return;
+    const { start, moved } = this.groupDrag;
+
+    // Move in whole grid cells so a selection that started on the grid stays on it
+    const dx = this.utils.snap16(this.mousePosition.x - start.x) - moved.x;
+    const dy = this.utils.snap16(this.mousePosition.y - start.y) - moved.y;
+    if (dx === 0 && dy === 0) return;
+
+    // The undo step is taken on the first real move, so a click without a drag leaves none behind
+    if (!this.groupDrag.undoPushed) {
+      this.pushUndoState();
+      this.groupDrag.undoPushed = true;
+    }
+    this.clipboard.moveObjects(this.selectedObjects, dx, dy);
+    moved.x += dx;
+    moved.y += dy;
+  }
+
+  private getMouseWorldPosition(e: MouseEvent): Vector2 {
+    const rect = this.canvas.getBoundingClientRect();
+    const screenPos = new Vector2(e.clientX - rect.left, e.clientY - rect.top);
+    return this.utils.screenToWorld(screenPos, this.scrollPosition, this.zoom);
+  }
+
   private syncCameraWithScroll(): void {
     this.gameState.camera.position.x = this.scrollPosition.x;
     this.gameState.camera.position.y = this.scrollPosition.y;
+    this.gameState.camera.zoom = this.zoom;
   }
 
   private updateScrollIndicator(): void {
-    this.ui.updateScrollIndicator(this.scrollPosition.x, this.scrollPosition.y);
+    this.ui.updateScrollIndicator(this.scrollPosition.x, this.scrollPosition.y, this.zoom);
   }
 
   private changeSelectedEnemyDirection(direction: number): void {
@@ -389,6 +954,7 @@ export class LevelEditor {
       this.pushUndoState();
       (this.selectedObject as SelectableEnemy).direction = direction;
       this.updateDirectionControls(); // Update UI to reflect the change
+      this.updateInspector();
     }
   }
 
@@ -471,8 +1037,19 @@ export class LevelEditor {
       }
     }
 
+    // Check checkpoints
+    for (const checkpoint of this.gameState.checkpoints) {
+      if (this.isObjectInArea(checkpoint, minX, minY, maxX, maxY)) {
+        this.selectedObjects.push(checkpoint);
+      }
+    }
+
+    // Hidden, locked and (while a layer is soloed) other layers stay out of the selection
+    this.selectedObjects = this.selectedObjects.filter((obj) => this.layers.canSelect(obj));
+
     // Update UI to show selection count
     this.ui.updateSelectionInfo(this.selectedObjects.length);
+    this.updateInspector();
   }
 
   private isObjectInArea(
@@ -534,10 +1111,16 @@ export class LevelEditor {
       const enemyIndex = this.gameState.enemies.indexOf(obj as Ghost | LandGhost);
       if (enemyIndex !== -1) {
         this.gameState.enemies.splice(enemyIndex, 1);
+        continue;
+      }
+
+      // Remove checkpoints
+      const checkpointIndex = this.gameState.checkpoints.indexOf(obj as Checkpoint);
+      if (checkpointIndex !== -1) {
+        this.gameState.checkpoints.splice(checkpointIndex, 1);
       }
     }
 
-    this.selectedObjects = [];
-    this.ui.updateSelectionInfo(0);
+    this.setSelection([]);
   }
 }
@@ -0,0 +1,222 @@
+import type { GameState } from "@/engine/GameState";
+import { Vector2 } from "@/engine/Vector2";
+import { Checkpoint } from "@/objects/checkpoint";
+import { DiagonalPlatform } from "@/objects/diagonalPlatform";
+import { Ghost } from "@/objects/enemies/Ghost";
+import { LandGhost } from "@/objects/enemies/LandGhost";
+import { MemoryCrystal } from "@/objects/memoryCrystal";
+import { Platform } from "@/objects/platform";
+import { SolidBlock } from "@/objects/solidBlock";
+import type { EditorObject } from "./EditorTypes";
+import type { EditorUtils } from "./EditorUtils";
+
+// Plain copies of objects, so later edits to the originals never change what gets pasted
+export type ClipboardItem =
+  | { kind: "platform" | "solidBlock"; position: Vector2; size: Vector2; color: string }
+  | {
+      kind: "diagonalPlatform";
+      startPoint: Vector2;
+      endPoint: Vector2;
+      thickness: number;
+      color: string;
+    }
+  | { kind: "memoryCrystal"; position: Vector2; type: string }
+  | { kind: "enemy"; type: string; position: Vector2; direction: number }
+  | { kind: "checkpoint"; position: Vector2 };
+
+/**
+ * Copy, paste, duplicate and group moves for mixed selections
+ */
+export class EditorClipboard {
+  private gameState: GameState;
+  private utils: EditorUtils;
+  private items: ClipboardItem[] = [];
+
+  constructor(gameState: GameState, utils: EditorUtils) {
+    this.gameState = gameState;
+    this.utils = utils;
+  }
+
+  hasContent(): boolean {
+    return this.items.length > 0;
+  }
+
+  /**
+   * Returns how many objects were copied (the player and unknown objects are skipped)
+   */
+  copy(objects: EditorObject[]): number {
+    this.items = captureItems(objects);
+    return this.items.length;
+  }
+
+  /**
+   * Add the clipboard to the level with its top-left corner on the grid point nearest `at`.
+   * Returns the new objects.
+   */
+  paste(at: Vector2): EditorObject[] {
+    if (this.items.length === 0) return [];
+    const target = this.utils.snapVec2(at);
+    const anchor = itemsTopLeft(this.items);
+    return instantiateItems(this.gameState, this.items, target.x - anchor.x, target.y - anchor.y);
+  }
+
+  /**
+   * Copy objects one grid cell down and to the right, leaving the clipboard as it was
+   */
+  duplicate(objects: EditorObject[]): EditorObject[] {
+    return instantiateItems(this.gameState, captureItems(objects), 16, 16);
+  }
+
+  /**
+   * Move objects in place, including the points that diagonal platforms and ghosts derive from
+   */
+  moveObjects(objects: EditorObject[], dx: number, dy: number): void {
+    if (dx === 0 && dy === 0) return;
+    for (const obj of objects) {
+      if (obj instanceof DiagonalPlatform) {
+        obj.startPoint.x += dx;
+        obj.startPoint.y += dy;
+        obj.endPoint.x += dx;
+        obj.endPoint.y += dy;
+      } else if (obj instanceof Ghost) {
+        obj.baseY += dy;
+      }
+      const positioned = obj as { position?: Vector2 };
+      if (positioned?.position) {
+        // Mutated rather than replaced: crystals share their position with their renderer
+        positioned.position.x += dx;
+        positioned.position.y += dy;
+      }
+    }
+  }
+}
+
+/**
+ * Plain copies of the objects that can be copied (the player and unknown objects are skipped)
+ */
+export function captureItems(objects: EditorObject[]): ClipboardItem[] {
+  const items: ClipboardItem[] = [];
+  for (const obj of objects) {
+    if (obj instanceof Platform || obj instanceof SolidBlock) {
+      items.push({
+        kind: obj instanceof Platform ? "platform" : "solidBlock",
+        position: obj.position.copy(),
+        size: obj.size.copy(),
+        color: obj.color,
+      });
+    } else if (obj instanceof DiagonalPlatform) {
+      items.push({
+        kind: "diagonalPlatform",
+        startPoint: obj.startPoint.copy(),
+        endPoint: obj.endPoint.copy(),
+        thickness: obj.thickness,
+        color: obj.color,
+      });
+    } else if (obj instanceof MemoryCrystal) {
+      items.push({ kind: "memoryCrystal", position: obj.position.copy(), type: obj.crystalType });
+    } else if (obj instanceof Ghost || obj instanceof LandGhost) {
+      // Ghosts bob around baseY; copy where they float from, not where they are mid-bob
+      const y = obj instanceof Ghost ? obj.baseY : obj.position.y;
+      items.push({
+        kind: "enemy",
+        type: obj.type,
+        position: new Vector2(obj.position.x, y),
+        direction: obj.direction,
+      });
+    } else if (obj instanceof Checkpoint) {
+      items.push({ kind: "checkpoint", position: obj.position.copy() });
+    }
+  }
+  return items;
+}
+
+/**
+ * Add new objects built from items to the level, moved by (dx, dy). Returns the new objects.
+ */
+export function instantiateItems(
+  gameState: GameState,
+  items: ClipboardItem[],
+  dx: number,
+  dy: number,
+): EditorObject[] {
+  const offset = (v: Vector2) => new Vector2(v.x + dx, v.y + dy);
+  const created: EditorObject[] = [];
+
+  for (const item of items) {
+    switch (item.kind) {
+      case "platform":
+      case "solidBlock": {
+        const args = {
+          x: item.position.x + dx,
+          y: item.position.y + dy,
+          width: item.size.x,
+          height: item.size.y,
+          color: item.color,
+        };
+        if (item.kind === "platform") {
+          const platform = new Platform(args);
+          gameState.platforms.push(platform);
+          created.push(platform);
+        } else {
+          const solidBlock = new SolidBlock(args);
+          gameState.solidBlocks.push(solidBlock);
+          created.push(solidBlock);
+        }
+        break;
+      }
+      case "diagonalPlatform": {
+        const diagonalPlatform = new DiagonalPlatform({
+          startPoint: offset(item.startPoint),
+          endPoint: offset(item.endPoint),
+          thickness: item.thickness,
+          color: item.color,
+        });
+        gameState.diagonalPlatforms.push(diagonalPlatform);
+        created.push(diagonalPlatform);
+        break;
+      }
+      case "memoryCrystal": {
+        const position = offset(item.position);
+        const crystal = new MemoryCrystal(position.x, position.y, item.type, gameState.random);
+        gameState.memoryCrystals.push(crystal);
+        created.push(crystal);
+        break;
+      }
+      case "enemy": {
+        const position = offset(item.position);
+        const enemy =
+          item.type === "ghost"
+            ? new Ghost(position.x, position.y, item.direction, gameState.random)
+            : new LandGhost(position.x, position.y, item.direction, gameState.random);
+        gameState.enemies.push(enemy);
+        created.push(enemy);
+        break;
+      }
+      case "checkpoint": {
+        const position = offset(item.position);
+        const checkpoint = new Checkpoint(position.x, position.y);
+        gameState.checkpoints.push(checkpoint);
+        created.push(checkpoint);
+        break;
+      }
+    }
+  }
+  return created;
+}
+
+/**
+ * Top-left corner of everything in the items
+ */
+export function itemsTopLeft(items: ClipboardItem[]): Vector2 {
+  let x = Infinity;
+  let y = Infinity;
+  for (const item of items) {
+    const points =
+      item.kind === "diagonalPlatform" ? [item.startPoint, item.endPoint] : [item.position];
+    for (const point of points) {
+      x = Math.min(x, point.x);
+      y = Math.min(y, point.y);
+    }
+  }
+  return new Vector2(x, y);
+}
@@ -0,0 +1,257 @@
+import type { GameState } from "@/engine/GameState";
+import type { Vector2 } from "@/engine/Vector2";
+import { Checkpoint } from "@/objects/checkpoint";
+import { getAllCrystalTypes, toCrystalType } from "@/objects/crystal/CrystalTypeConfig";
+import { DiagonalPlatform } from "@/objects/diagonalPlatform";
+import { Ghost } from "@/objects/enemies/Ghost";
+import { LandGhost } from "@/objects/enemies/LandGhost";
+import { MemoryCrystal } from "@/objects/memoryCrystal";
+import { Platform } from "@/objects/platform";
+import { SolidBlock } from "@/objects/solidBlock";
+import { ENEMY_TYPES } from "../LevelValidator";
+import type { EditorObject } from "./EditorTypes";
+
+export type InspectorFieldType = "number" | "color" | "select";
+
+/**
+ * One row of the inspector. `value` is undefined when the selected objects disagree.
+ */
+export interface InspectorField {
+  key: string;
+  label: string;
+  type: InspectorFieldType;
+  value: string | number | undefined;
+  options?: { value: string; label: string }[];
+}
+
+type FieldValue = string | number;
+
+interface FieldAccessor<T> {
+  label: string;
+  type: InspectorFieldType;
+  options?: { value: string; label: string }[];
+  get: (obj: T) => FieldValue;
+  // Returns the object now standing in for `obj` (a new one when the edit changes its class)
+  set: (obj: T, value: FieldValue, gameState: GameState) => EditorObject;
+}
+
+type FieldTable<T> = Record<string, FieldAccessor<T>>;
+
+const num = (value: FieldValue) => Number(value);
+
+function positionFields<T extends { position: Vector2 }>(): FieldTable<T> {
+  return {
+    x: {
+      label: "X",
+      type: "number",
+      get: (obj) => obj.position.x,
+      set: (obj, value) => {
+        obj.position.x = num(value);
+        return obj as EditorObject;
+      },
+    },
+    y: {
+      label: "Y",
+      type: "number",
+      get: (obj) => obj.position.y,
+      set: (obj, value) => {
+        obj.position.y = num(value);
+        return obj as EditorObject;
+      },
+    },
+  };
+}
+
+function boxFields<T extends Platform | SolidBlock>(): FieldTable<T> {
+  return {
+    ...positionFields<T>(),
+    width: {
+      label: "Width",
+      type: "number",
+      get: (obj) => obj.size.x,
+      set: (obj, value) => {
+        obj.size.x = Math.max(1, num(value));
+        return obj;
+      },
+    },
+    height: {
+      label: "Height",
+      type: "number",
+      get: (obj) => obj.size.y,
+      set: (obj, value) => {
+        obj.size.y = Math.max(1, num(value));
+        return obj;
+      },
+    },
+    color: {
+      label: "Color",
+      type: "color",
+      get: (obj) => obj.color,
+      set: (obj, value) => {
+        obj.setColor(String(value));
+        return obj;
+      },
+    },
+  };
+}
+
+// A diagonal platform's end point, edited one axis at a time
+function endPointField(
+  label: string,
+  point: "startPoint" | "endPoint",
+  axis: "x" | "y",
+): FieldAccessor<DiagonalPlatform> {
+  return {
+    label,
+    type: "number",
+    get: (obj) => obj[point][axis],
+    set: (obj, value) => {
+      const start = obj.startPoint.copy();
+      const end = obj.endPoint.copy();
+      (point === "startPoint" ? start : end)[axis] = num(value);
+      obj.setGeometry(start, end);
+      return obj;
+    },
+  };
+}
+
+const PLATFORM_FIELDS = boxFields<Platform>();
+const SOLID_BLOCK_FIELDS = boxFields<SolidBlock>();
+
+const DIAGONAL_FIELDS: FieldTable<DiagonalPlatform> = {
+  startX: endPointField("Start X", "startPoint", "x"),
+  startY: endPointField("Start Y", "startPoint", "y"),
+  endX: endPointField("End X", "endPoint", "x"),
+  endY: endPointField("End Y", "endPoint", "y"),
+  thickness: {
+    label: "Thickness",
+    type: "number",
+    get: (obj) => obj.thickness,
+    set: (obj, value) => {
+      obj.setGeometry(obj.startPoint, obj.endPoint, Math.max(1, num(value)));
+      return obj;
+    },
+  },
+  color: {
+    label: "Color",
+    type: "color",
+    get: (obj) => obj.color,
+    set: (obj, value) => {
+      obj.setColor(String(value));
+      return obj;
+    },
+  },
+};
+
+const CRYSTAL_FIELDS: FieldTable<MemoryCrystal> = {
+  ...positionFields<MemoryCrystal>(),
+  crystalType: {
+    label: "Type",
+    type: "select",
+    options: getAllCrystalTypes().map((type) => ({ value: type, label: type })),
+    get: (obj) => obj.crystalType,
+    set: (obj, value) => {
+      obj.crystalType = toCrystalType(String(value));
+      return obj;
+    },
+  },
+};
+
+const ENEMY_FIELDS: FieldTable<Ghost | LandGhost> = {
+  ...positionFields<Ghost | LandGhost>(),
+  // Ghosts float around baseY, so it moves with them
+  y: {
+    label: "Y",
+    type: "number",
+    get: (obj) => (obj instanceof Ghost ? obj.baseY : obj.position.y),
+    set: (obj, value) => {
+      obj.position.y = num(value);
+      if (obj instanceof Ghost) obj.baseY = num(value);
+      return obj;
+    },
+  },
+  enemyType: {
+    label: "Enemy",
+    type: "select",
+    options: ENEMY_TYPES.map((type) => ({ value: type, label: type })),
+    get: (obj) => obj.type,
+    set: (obj, value, gameState) => {
+      if (value === obj.type) return obj;
+      // Each enemy type is its own class, so swap in a new enemy at the same spot
+      const y = obj instanceof Ghost ? obj.baseY : obj.position.y;
+      const replacement =
+        value === "ghost"
+          ? new Ghost(obj.position.x, y, obj.direction, gameState.random)
+          : new LandGhost(obj.position.x, y, obj.direction, gameState.random);
+      const index = gameState.enemies.indexOf(obj);
+      if (index !== -1) gameState.enemies[index] = replacement;
+      return replacement;
+    },
+  },
+  direction: {
+    label: "Direction",
+    type: "select",
+    options: [
+      { value: "-1", label: "left" },
+      { value: "1", label: "right" },
+    ],
+    get: (obj) => String(obj.direction),
+    set: (obj, value) => {
+      obj.direction = num(value) < 0 ? -1 : 1;
+      return obj;
+    },
+  },
+};
+
+const CHECKPOINT_FIELDS: FieldTable<Checkpoint> = positionFields<Checkpoint>();
+
+function fieldsFor(obj: EditorObject): FieldTable<never> | null {
+  // Tables are typed per class; the instanceof checks here are what make each one safe to use
+  if (obj instanceof Platform) return PLATFORM_FIELDS as FieldTable<never>;
+  if (obj instanceof SolidBlock) return SOLID_BLOCK_FIELDS as FieldTable<never>;
+  if (obj instanceof DiagonalPlatform) return DIAGONAL_FIELDS as FieldTable<never>;
+  if (obj instanceof MemoryCrystal) return CRYSTAL_FIELDS as FieldTable<never>;
+  if (obj instanceof Ghost || obj instanceof LandGhost) return ENEMY_FIELDS as FieldTable<never>;
+  if (obj instanceof Checkpoint) return CHECKPOINT_FIELDS as FieldTable<never>;
+  return null;
+}
+
+/**
+ * The fields every selected object has, in the order the first object lists them.
+ * Objects the inspector does not know (the player) leave nothing in common.
+ */
+export function describeInspectorFields(objects: EditorObject[]): InspectorField[] {
+  const tables = objects.map(fieldsFor);
+  if (tables.length === 0 || tables.some((table) => table === null)) return [];
+  const known = tables as FieldTable<never>[];
+
+  const fields: InspectorField[] = [];
+  for (const [key, accessor] of Object.entries(known[0])) {
+    if (!known.every((table) => key in table)) continue;
+
+    const values = objects.map((obj, index) => known[index][key].get(obj as never));
+    fields.push({
+      key,
+      label: accessor.label,
+      type: accessor.type,
+      value: values.every((value) => value === values[0]) ? values[0] : undefined,
+      ...(accessor.options && { options: accessor.options }),
+    });
+  }
+  return fields;
+}
+
+/**
+ * Set one field on every selected object. Returns the selection afterwards, in the same order.
+ */
+export function applyInspectorField(
+  gameState: GameState,
+  objects: EditorObject[],
+  key: string,
+  value: FieldValue,
+): EditorObject[] {
+  return objects.map((obj) => {
+    const accessor = fieldsFor(obj)?.[key];
+    return accessor ? accessor.set(obj as never, value, gameState) : obj;
+  });
+}
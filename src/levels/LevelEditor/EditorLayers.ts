@@ -0,0 +1,112 @@
+import { Checkpoint } from "@/objects/checkpoint";
+import { DiagonalPlatform } from "@/objects/diagonalPlatform";
+import { Ghost } from "@/objects/enemies/Ghost";
+import { LandGhost } from "@/objects/enemies/LandGhost";
+import { MemoryCrystal } from "@/objects/memoryCrystal";
+import { Platform } from "@/objects/platform";
+import { Player } from "@/objects/players/player";
+import { SolidBlock } from "@/objects/solidBlock";
+import type { EditorObject } from "./EditorTypes";
+
+export type EditorLayerId =
+  | "terrain"
+  | "slopes"
+  | "crystals"
+  | "enemies"
+  | "markers"
+  | "background";
+
+export interface EditorLayer {
+  id: EditorLayerId;
+  label: string;
+  // Whether the layer has objects that can be picked; the background can only be hidden
+  selectable: boolean;
+}
+
+export const EDITOR_LAYERS: EditorLayer[] = [
+  { id: "terrain", label: "Terrain", selectable: true },
+  { id: "slopes", label: "Slopes", selectable: true },
+  { id: "crystals", label: "Crystals", selectable: true },
+  { id: "enemies", label: "Enemies", selectable: true },
+  { id: "markers", label: "Player/Markers", selectable: true },
+  { id: "background", label: "Background", selectable: false },
+];
+
+/**
+ * Toggles for one layer as the layer panel shows them
+ */
+export interface EditorLayerState extends EditorLayer {
+  visible: boolean;
+  locked: boolean;
+  solo: boolean;
+}
+
+/**
+ * The layer an object is drawn and picked on (tiles belong to terrain)
+ */
+export function layerOf(obj: EditorObject): EditorLayerId | null {
+  if (obj instanceof Platform || obj instanceof SolidBlock) return "terrain";
+  if (obj instanceof DiagonalPlatform) return "slopes";
+  if (obj instanceof MemoryCrystal) return "crystals";
+  if (obj instanceof Ghost || obj instanceof LandGhost) return "enemies";
+  if (obj instanceof Checkpoint || obj instanceof Player) return "markers";
+  return null;
+}
+
+/**
+ * Per-layer visibility, lock and "select only this layer" toggles. Editor-only: they are
+ * not saved with the level and never affect the game outside the editor.
+ */
+export class EditorLayers {
+  private hidden = new Set<EditorLayerId>();
+  private locked = new Set<EditorLayerId>();
+  private solo: EditorLayerId | null = null;
+
+  isVisible(layer: EditorLayerId): boolean {
+    return !this.hidden.has(layer);
+  }
+
+  isLocked(layer: EditorLayerId): boolean {
+    return this.locked.has(layer);
+  }
+
+  toggleVisible(layer: EditorLayerId): void {
+    if (!this.hidden.delete(layer)) this.hidden.add(layer);
+  }
+
+  toggleLocked(layer: EditorLayerId): void {
+    if (!this.locked.delete(layer)) this.locked.add(layer);
+  }
+
+  /**
+   * Restrict picking to one layer, or pick from every layer again when it is already the one
+   */
+  toggleSolo(layer: EditorLayerId): void {
+    this.solo = this.solo === layer ? null : layer;
+  }
+
+  /**
+   * Whether the objects on a layer can be changed: shown and unlocked
+   */
+  isEditable(layer: EditorLayerId): boolean {
+    return this.isVisible(layer) && !this.isLocked(layer);
+  }
+
+  /**
+   * Whether clicks, area selection and delete mode may pick an object
+   */
+  canSelect(obj: EditorObject): boolean {
+    const layer = layerOf(obj);
+    if (!layer) return false;
+    return this.isEditable(layer) && (this.solo === null || this.solo === layer);
+  }
+
+  getStates(): EditorLayerState[] {
+    return EDITOR_LAYERS.map((layer) => ({
+      ...layer,
+      visible: this.isVisible(layer.id),
+      locked: this.isLocked(layer.id),
+      solo: this.solo === layer.id,
+    }));
+  }
+}
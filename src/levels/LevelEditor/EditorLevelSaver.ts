@@ -1,19 +1,22 @@
 import type { GameState } from "@/engine/GameState";
+import type { LevelData, WeatherData } from "../LevelData";
+import { serializeLevel } from "../LevelJson";
 import { LevelManager } from "../LevelManager";
-import type { EditorUtils } from "./EditorUtils";
+import { checkLevelRoundTrip } from "../LevelRoundTrip";
+import { formatLevelIssues, hasLevelErrors, validateLevel } from "../LevelValidator";
+
+type LevelFileFormat = "json" | "ts";
 
 export class EditorLevelSaver {
   private gameState: GameState;
-  private utils: EditorUtils;
 
-  constructor(gameState: GameState, utils: EditorUtils) {
+  constructor(gameState: GameState) {
     this.gameState = gameState;
-    this.utils = utils;
   }
 
   saveCurrentLevel(levelWidth: number, levelHeight: number): void {
     // Open form modal for ID and Name collection
-    this.showSaveForm((levelId: string, levelName: string) => {
+    this.showSaveForm((levelId: string, levelName: string, format: LevelFileFormat) => {
       // Create level data from current GameState
       const levelData = LevelManager.createLevelFromGameState(this.gameState, levelId, levelName);
 
@@ -21,54 +24,196 @@ export class EditorLevelSaver {
       levelData.width = levelWidth;
       levelData.height = levelHeight;
 
-      // Prepare string fragments for arrays
-      const platforms = (levelData.platforms || [])
-        .map(
-          (p) =>
-            `  { position: vec2(${this.utils.snap16(p.position.x)}, ${this.utils.snap16(
-              p.position.y,
-            )}), size: vec2(${this.utils.snap16(p.size.x)}, ${this.utils.snap16(
-              p.size.y,
-            )}), color: "${p.color}" },`,
-        )
-        .join("\n");
-
-      const solidBlocks = this.gameState.solidBlocks
-        .map(
-          (sb) =>
-            `  { position: vec2(${this.utils.snap16(sb.position.x)}, ${this.utils.snap16(
-              sb.position.y,
-            )}), size: vec2(${this.utils.snap16(sb.size.x)}, ${this.utils.snap16(
-              sb.size.y,
-            )}), color: "${sb.color}" },`,
-        )
-        .join("\n");
-
-      const memoryCrystals = (levelData.memoryCrystals || [])
-        .map((c) => `  { position: vec2(${c.position.x}, ${c.position.y}), type: '${c.type || 'azure'}' },`)
-        .join("\n");
-
-      const enemies = this.gameState.enemies
-        .map((e) => {
-          const enemyType = e.type === "ghost" ? "ghost" : "landghost";
-          const directionStr = e.direction !== undefined ? `, direction: ${e.direction}` : "";
-          return `  { position: vec2(${e.position.x}, ${e.position.y}), type: "${enemyType}"${directionStr} },`;
-        })
-        .join("\n");
-
-      const player = `  position: vec2(${levelData.player.position.x}, ${levelData.player.position.y})`;
-
-      // Generate TS module content for new level file
-      const fileContent = `import type { LevelData } from "../LevelData";\nimport { Vector2 } from "@/engine/Vector2";\n\nconst vec2 = (x: number, y: number): Vector2 => new Vector2(x, y);\n\nexport const ${levelId}: LevelData = {\n  id: "${levelId}",\n  name: "${levelName}",\n  width: ${levelWidth},\n  height: ${levelHeight},\n  background: {\n    color: "${levelData.background.color}",\n  },\n  platforms: [\n${platforms}\n  ],\n  solidBlocks: [\n${solidBlocks}\n  ],\n  diagonalPlatforms: [],\n  memoryCrystals: [\n${memoryCrystals}\n  ],\n  enemies: [\n${enemies}\n  ],\n  player: {\n${player}\n  },\n};\n\nexport default ${levelId};\n`;
-
-      this.downloadLevelFile(`${levelId}.ts`, fileContent);
+      if (!this.confirmValid(levelData) || !this.confirmRoundTrip(levelData)) return;
+
+      if (format === "json") {
+        // JSON levels load at runtime, so the new level is playable straight away
+        this.gameState.levelManager.registerLevel(levelData);
+        this.downloadLevelFile(`${levelId}.json`, serializeLevel(levelData), "application/json");
+        return;
+      }
+
+      this.downloadLevelFile(`${levelId}.ts`, this.createLevelModule(levelData));
     });
   }
 
+  /**
+   * Refuse to save a level with errors; let the user decide on one with only warnings
+   */
+  private confirmValid(levelData: LevelData): boolean {
+    const issues = validateLevel(levelData);
+    if (issues.length === 0) return true;
+
+    const report = formatLevelIssues(issues);
+    if (hasLevelErrors(issues)) {
+      console.error(`Level ${levelData.id} not saved:\n${report}`);
+      alert(`The level cannot be saved:\n\n${report}`);
+      return false;
+    }
+    console.warn(`Level ${levelData.id} has warnings:\n${report}`);
+    return confirm(`The level has warnings:\n\n${report}\n\nSave anyway?`);
+  }
+
+  /**
+   * Let the user decide on a level that would not load back the way it is now
+   */
+  private confirmRoundTrip(levelData: LevelData): boolean {
+    const differences = checkLevelRoundTrip(levelData);
+    if (differences.length === 0) return true;
+
+    const report = differences.join("\n");
+    console.warn(`Level ${levelData.id} does not load back unchanged:\n${report}`);
+    return confirm(`Loading the saved level would change:\n\n${report}\n\nSave anyway?`);
+  }
+
+  /**
+   * Generate a TypeScript module for src/levels/data/ (needs a rebuild to be picked up)
+   */
+  private createLevelModule(levelData: LevelData): string {
+    // Positions are written exactly as they are (placement already snaps) so the level round-trips
+    const vec2 = (v: { x: number; y: number }) => `vec2(${v.x}, ${v.y})`;
+    // One object per line, in the layout of the hand-written level files
+    const list = <T>(items: T[], toLine: (item: T) => string) =>
+      items.length === 0 ? "[]" : `[\n${items.map((item) => `    ${toLine(item)},`).join("\n")}\n  ]`;
+
+    const backgroundElements = list(
+      levelData.background.elements ?? [],
+      (e) =>
+        `{ type: "${e.type}", position: ${vec2(e.position)}, size: ${vec2(e.size)}, color: "${e.color}" }`,
+    );
+
+    const parallax =
+      levelData.background.parallax &&
+      list(levelData.background.parallax, (layer) => {
+        const colorsStr = layer.colors
+          ? `, colors: [${layer.colors.map((color) => `"${color}"`).join(", ")}]`
+          : "";
+        const parallaxXStr = layer.parallaxX !== undefined ? `, parallaxX: ${layer.parallaxX}` : "";
+        const parallaxYStr = layer.parallaxY !== undefined ? `, parallaxY: ${layer.parallaxY}` : "";
+        return `{ kind: "${layer.kind}"${colorsStr}${parallaxXStr}${parallaxYStr} }`;
+      });
+
+    const platforms = list(
+      levelData.platforms,
+      (p) => `{ position: ${vec2(p.position)}, size: ${vec2(p.size)}, color: "${p.color}" }`,
+    );
+
+    const solidBlocks = list(
+      levelData.solidBlocks,
+      (sb) => `{ position: ${vec2(sb.position)}, size: ${vec2(sb.size)}, color: "${sb.color}" }`,
+    );
+
+    const diagonalPlatforms = list(levelData.diagonalPlatforms, (dp) => {
+      const thicknessStr = dp.thickness !== undefined ? `, thickness: ${dp.thickness}` : "";
+      return `{ startPoint: ${vec2(dp.startPoint)}, endPoint: ${vec2(dp.endPoint)}${thicknessStr}, color: "${dp.color}" }`;
+    });
+
+    const memoryCrystals = list(
+      levelData.memoryCrystals,
+      (c) => `{ position: ${vec2(c.position)}, type: "${c.type || "azure"}" }`,
+    );
+
+    const enemies = list(levelData.enemies, (e) => {
+      const enemyType = e.type === "ghost" ? "ghost" : "landghost";
+      const directionStr = e.direction !== undefined ? `, direction: ${e.direction}` : "";
+      return `{ position: ${vec2(e.position)}, type: "${enemyType}"${directionStr} }`;
+    });
+
+    const checkpoints = list(levelData.checkpoints ?? [], (c) => `{ position: ${vec2(c.position)} }`);
+
+    const doors = list(
+      levelData.doors ?? [],
+      (d) =>
+        `{ position: ${vec2(d.position)}, size: ${vec2(d.size)}, targetLevelId: "${d.targetLevelId}", targetEntryId: "${d.targetEntryId}" }`,
+    );
+
+    const entryPoints = list(
+      levelData.entryPoints ?? [],
+      (e) => `{ id: "${e.id}", position: ${vec2(e.position)} }`,
+    );
+
+    const weather = (w: WeatherData) => {
+      const fields = [
+        ...(w.mode !== undefined ? [`mode: "${w.mode}"`] : []),
+        ...(w.minIntensity !== undefined ? [`minIntensity: ${w.minIntensity}`] : []),
+        ...(w.maxIntensity !== undefined ? [`maxIntensity: ${w.maxIntensity}`] : []),
+        ...(w.lightning !== undefined ? [`lightning: ${w.lightning}`] : []),
+        ...(w.indoor !== undefined ? [`indoor: ${w.indoor}`] : []),
+        ...(w.wind ? [`wind: ${vec2(w.wind)}`] : []),
+      ];
+      return fields.length === 0 ? "{}" : `{ ${fields.join(", ")} }`;
+    };
+
+    const weatherZones =
+      levelData.weatherZones &&
+      list(
+        levelData.weatherZones,
+        (z) => `{ position: ${vec2(z.position)}, size: ${vec2(z.size)}, weather: ${weather(z.weather)} }`,
+      );
+
+    const tileMap = levelData.tileMap;
+    const tileRows = tileMap && list(tileMap.rows, (row) => JSON.stringify(row));
+    const tileset =
+      tileMap?.tileset &&
+      list(tileMap.tileset, (t) => {
+        const flags = [
+          ...(t.solid !== undefined ? [`solid: ${t.solid}`] : []),
+          ...(t.oneWay !== undefined ? [`oneWay: ${t.oneWay}`] : []),
+          ...(t.slope !== undefined ? [`slope: "${t.slope}"`] : []),
+        ];
+        const flagsStr = flags.map((flag) => `, ${flag}`).join("");
+        return `{ id: "${t.id}", name: "${t.name}", color: "${t.color}"${flagsStr} }`;
+      });
+
+    return [
+      `import { Vector2 } from "@/engine/Vector2";`,
+      `import type { LevelData } from "../LevelData";`,
+      "",
+      "const vec2 = (x: number, y: number): Vector2 => new Vector2(x, y);",
+      "",
+      `export const ${levelData.id}: LevelData = {`,
+      `  id: "${levelData.id}",`,
+      `  name: "${levelData.name}",`,
+      `  width: ${levelData.width},`,
+      `  height: ${levelData.height},`,
+      "  background: {",
+      `    color: "${levelData.background.color}",`,
+      `    elements: ${backgroundElements.replace(/\n/g, "\n  ")},`,
+      ...(parallax ? [`    parallax: ${parallax.replace(/\n/g, "\n  ")},`] : []),
+      "  },",
+      `  platforms: ${platforms},`,
+      `  solidBlocks: ${solidBlocks},`,
+      `  diagonalPlatforms: ${diagonalPlatforms},`,
+      `  memoryCrystals: ${memoryCrystals},`,
+      `  enemies: ${enemies},`,
+      `  checkpoints: ${checkpoints},`,
+      `  doors: ${doors},`,
+      `  entryPoints: ${entryPoints},`,
+      ...(levelData.weather ? [`  weather: ${weather(levelData.weather)},`] : []),
+      ...(weatherZones ? [`  weatherZones: ${weatherZones},`] : []),
+      ...(tileMap && tileRows
+        ? [
+            "  tileMap: {",
+            `    tileSize: ${tileMap.tileSize},`,
+            `    rows: ${tileRows.replace(/\n/g, "\n  ")},`,
+            ...(tileset ? [`    tileset: ${tileset.replace(/\n/g, "\n  ")},`] : []),
+            "  },",
+          ]
+        : []),
+      "  player: {",
+      `    position: ${vec2(levelData.player.position)},`,
+      "  },",
+      "};",
+      "",
+      `export default ${levelData.id};`,
+      "",
+    ].join("\n");
+  }
+
   /**
    * Present a small modal form to collect level ID and name in one go.
    */
-  private showSaveForm(onSave: (id: string, name: string) => void): void {
+  private showSaveForm(onSave: (id: string, name: string, format: LevelFileFormat) => void): void {
     const modal = document.createElement("div");
     Object.assign(modal.style, {
       position: "fixed",
@@ -112,6 +257,19 @@ export class EditorLevelSaver {
     Object.assign(nameInput.style, { width: "100%", marginBottom: "10px" });
     form.appendChild(nameInput);
 
+    const formatSelect = document.createElement("select");
+    for (const [value, label] of [
+      ["json", "JSON (loads at runtime)"],
+      ["ts", "TypeScript module (needs rebuild)"],
+    ]) {
+      const option = document.createElement("option");
+      option.value = value;
+      option.textContent = label;
+      formatSelect.appendChild(option);
+    }
+    Object.assign(formatSelect.style, { width: "100%", marginBottom: "10px" });
+    form.appendChild(formatSelect);
+
     const buttonContainer = document.createElement("div");
     Object.assign(buttonContainer.style, {
       display: "flex",
@@ -134,7 +292,7 @@ export class EditorLevelSaver {
         return;
       }
       document.body.removeChild(modal);
-      onSave(idVal, nameVal);
+      onSave(idVal, nameVal, formatSelect.value as LevelFileFormat);
     };
     buttonContainer.appendChild(saveBtn);
 
@@ -146,8 +304,8 @@ export class EditorLevelSaver {
   /**
    * Trigger a client-side download of the generated level file.
    */
-  private downloadLevelFile(filename: string, content: string): void {
-    const blob = new Blob([content], { type: "text/plain" });
+  private downloadLevelFile(filename: string, content: string, type: string = "text/plain"): void {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
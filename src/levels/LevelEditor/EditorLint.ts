@@ -0,0 +1,246 @@
+import type { GameState } from "@/engine/GameState";
+import { Checkpoint } from "@/objects/checkpoint";
+import { DiagonalPlatform } from "@/objects/diagonalPlatform";
+import { Ghost } from "@/objects/enemies/Ghost";
+import { LandGhost } from "@/objects/enemies/LandGhost";
+import { MemoryCrystal } from "@/objects/memoryCrystal";
+import { Platform } from "@/objects/platform";
+import { Player } from "@/objects/players/player";
+import { SolidBlock } from "@/objects/solidBlock";
+import type { CollidableObject } from "@/utils/CollisionUtils";
+import { checkCollision, isWithinLevelBounds } from "@/utils/CollisionUtils";
+import type { LevelIssueSeverity } from "../LevelValidator";
+import type { EditorObject } from "./EditorTypes";
+
+/**
+ * Something that probably makes the level hard or impossible to finish
+ */
+export interface LintProblem {
+  severity: LevelIssueSeverity;
+  message: string;
+  // What the editor focuses when the problem is clicked
+  object: CollidableObject;
+}
+
+// Somewhere the player can stand: the line from (left, leftY) to (right, rightY)
+interface Surface {
+  left: number;
+  right: number;
+  leftY: number;
+  rightY: number;
+}
+
+// The player is lifted this far when a jump starts (see Player.handleInput)
+const JUMP_BOOST = 5;
+
+/**
+ * How far the player can get in one jump, from their jump power, gravity and run speed
+ */
+class JumpModel {
+  private speed: number;
+  private jumpPower: number;
+  // Highest the feet get above where the jump started
+  readonly height: number;
+
+  constructor(player: Player) {
+    this.speed = player.speed;
+    this.jumpPower = player.jumpPower;
+    this.height = (this.jumpPower * this.jumpPower) / (2 * Player.GRAVITY) + JUMP_BOOST;
+  }
+
+  /**
+   * Horizontal distance covered by the time the feet come back down to `rise` above the
+   * take-off point (negative to drop below it), or null when the jump never gets that high
+   */
+  reach(rise: number): number | null {
+    if (rise > this.height) return null;
+    const v = this.jumpPower;
+    const fall = Math.max(0, v * v - 2 * Player.GRAVITY * (rise - JUMP_BOOST));
+    return (this.speed * (v + Math.sqrt(fall))) / Player.GRAVITY;
+  }
+}
+
+function surfaceY(surface: Surface, x: number): number {
+  if (surface.right === surface.left) return surface.leftY;
+  const t = Math.max(0, Math.min(1, (x - surface.left) / (surface.right - surface.left)));
+  return surface.leftY + (surface.rightY - surface.leftY) * t;
+}
+
+function collectSurfaces(gameState: GameState): Surface[] {
+  const surfaces: Surface[] = [];
+  for (const box of [
+    ...gameState.getCollisionPlatforms(),
+    ...gameState.getCollisionSolidBlocks(),
+  ]) {
+    const { x, y } = box.position;
+    surfaces.push({ left: x, right: x + box.size.x, leftY: y, rightY: y });
+  }
+  for (const diagonal of gameState.getCollisionDiagonalPlatforms()) {
+    const [a, b] =
+      diagonal.startPoint.x <= diagonal.endPoint.x
+        ? [diagonal.startPoint, diagonal.endPoint]
+        : [diagonal.endPoint, diagonal.startPoint];
+    surfaces.push({ left: a.x, right: b.x, leftY: a.y, rightY: b.y });
+  }
+  return surfaces;
+}
+
+/**
+ * Whether one jump (or a walk or a drop) gets the player from one surface onto another
+ */
+function canJump(from: Surface, to: Surface, jump: JumpModel, playerWidth: number): boolean {
+  let gap: number;
+  let rise: number;
+  if (to.left > from.right) {
+    gap = to.left - from.right;
+    rise = from.rightY - to.leftY;
+  } else if (to.right < from.left) {
+    gap = from.left - to.right;
+    rise = from.leftY - to.rightY;
+  } else {
+    // Overlapping: jump up (or step down) from just beside the target
+    const x = Math.max(from.left, Math.min(from.right, (to.left + to.right) / 2));
+    gap = 0;
+    rise = surfaceY(from, x) - surfaceY(to, x);
+  }
+  const reach = jump.reach(rise);
+  // The player only has to get a foot over the edge
+  return reach !== null && gap <= reach + playerWidth;
+}
+
+/**
+ * The surfaces the player can get to from where they start (none if there is no ground under them)
+ */
+function findReachableSurfaces(surfaces: Surface[], player: Player, jump: JumpModel): Surface[] {
+  const centerX = player.position.x + player.size.x / 2;
+  const feetY = player.position.y + player.size.y;
+  let start: Surface | null = null;
+  for (const surface of surfaces) {
+    if (centerX < surface.left || centerX > surface.right) continue;
+    const y = surfaceY(surface, centerX);
+    // A little slack for a start placed on the snap grid just below the floor line
+    if (y >= feetY - 8 && (!start || y < surfaceY(start, centerX))) start = surface;
+  }
+  if (!start) return [];
+
+  const reached = new Set<Surface>([start]);
+  const pending = [start];
+  while (pending.length > 0) {
+    const from = pending.pop() as Surface;
+    for (const to of surfaces) {
+      if (!reached.has(to) && canJump(from, to, jump, player.size.x)) {
+        reached.add(to);
+        pending.push(to);
+      }
+    }
+  }
+  return [...reached];
+}
+
+function canReachCrystal(
+  crystal: MemoryCrystal,
+  reachable: Surface[],
+  player: Player,
+  jump: JumpModel,
+): boolean {
+  const centerX = crystal.position.x + crystal.size.x / 2;
+  const bottom = crystal.position.y + crystal.size.y;
+  return reachable.some((surface) => {
+    const nearestX = Math.max(surface.left, Math.min(surface.right, centerX));
+    const gap = Math.abs(centerX - nearestX) - (player.size.x + crystal.size.x) / 2;
+    // The player's head only has to touch the crystal's underside
+    const rise = surfaceY(surface, nearestX) - bottom - player.size.y;
+    const reach = jump.reach(rise);
+    return reach !== null && gap <= reach;
+  });
+}
+
+function describe(obj: EditorObject): string {
+  if (obj instanceof Player) return "Player start";
+  if (obj instanceof Platform) return "Platform";
+  if (obj instanceof SolidBlock) return "Solid block";
+  if (obj instanceof MemoryCrystal) return "Crystal";
+  if (obj instanceof Ghost) return "Ghost";
+  if (obj instanceof LandGhost) return "Land ghost";
+  if (obj instanceof Checkpoint) return "Checkpoint";
+  if (obj instanceof DiagonalPlatform) return "Diagonal platform";
+  return "Object";
+}
+
+function at(obj: { position: { x: number; y: number } }): string {
+  return `(${Math.round(obj.position.x)}, ${Math.round(obj.position.y)})`;
+}
+
+/**
+ * Check the level in the editor for things that make it hard or impossible to finish:
+ * objects outside the level or inside solid blocks, and crystals the player can't jump to.
+ * Errors first, then warnings.
+ */
+export function lintLevel(
+  gameState: GameState,
+  levelWidth: number,
+  levelHeight: number,
+): LintProblem[] {
+  const problems: LintProblem[] = [];
+  const report = (severity: LevelIssueSeverity, object: CollidableObject, message: string) =>
+    problems.push({ severity, object, message });
+
+  const solidBlocks = gameState.getCollisionSolidBlocks();
+  const insideSolid = (obj: CollidableObject) =>
+    solidBlocks.some((block) => checkCollision(obj, block));
+  const outside = (obj: { position: { x: number; y: number }; size: { x: number; y: number } }) =>
+    !isWithinLevelBounds(obj.position, obj.size, levelWidth, levelHeight);
+
+  const { player } = gameState;
+  if (outside(player)) {
+    report("error", player, `Player start ${at(player)} is outside the level`);
+  } else if (insideSolid(player)) {
+    report("error", player, `Player starts inside a solid block at ${at(player)}`);
+  }
+
+  // Terrain may hang past the edges (floors usually do); it only matters when its top,
+  // where the player stands, is off the level
+  for (const obj of [
+    ...gameState.platforms,
+    ...gameState.solidBlocks,
+    ...gameState.diagonalPlatforms,
+  ]) {
+    const { x, y } = obj.position;
+    if (y < 0 || y >= levelHeight || x + obj.size.x <= 0 || x >= levelWidth) {
+      report(
+        "warning",
+        obj,
+        `${describe(obj)} at ${at(obj)} is outside the ${levelWidth}x${levelHeight} level`,
+      );
+    }
+  }
+
+  for (const obj of [...gameState.enemies, ...gameState.checkpoints]) {
+    if (outside(obj)) {
+      report("warning", obj, `${describe(obj)} at ${at(obj)} is outside the level`);
+    } else if (insideSolid(obj)) {
+      report("warning", obj, `${describe(obj)} at ${at(obj)} is inside a solid block`);
+    }
+  }
+
+  const jump = new JumpModel(player);
+  const reachable = findReachableSurfaces(collectSurfaces(gameState), player, jump);
+  if (reachable.length === 0 && !outside(player)) {
+    report("warning", player, `Player start ${at(player)} has no ground below it`);
+  }
+
+  for (const crystal of gameState.memoryCrystals) {
+    if (outside(crystal)) {
+      report("warning", crystal, `Crystal at ${at(crystal)} is outside the level`);
+    } else if (insideSolid(crystal)) {
+      report("warning", crystal, `Crystal at ${at(crystal)} is inside a solid block`);
+    } else if (reachable.length > 0 && !canReachCrystal(crystal, reachable, player, jump)) {
+      report("warning", crystal, `Crystal at ${at(crystal)} looks out of reach`);
+    }
+  }
+
+  return [
+    ...problems.filter((problem) => problem.severity === "error"),
+    ...problems.filter((problem) => problem.severity === "warning"),
+  ];
+}
@@ -0,0 +1,152 @@
+import type { GameState } from "@/engine/GameState";
+import { Vector2 } from "@/engine/Vector2";
+
+// Largest size the minimap is drawn at; the level keeps its proportions inside it
+const MAX_WIDTH = 240;
+const MAX_HEIGHT = 120;
+
+/**
+ * A small overview of the whole level in the corner of the editor. It outlines the part
+ * in view, and clicking or dragging on it moves the view there.
+ */
+export class EditorMinimap {
+  private gameState: GameState;
+  private onJump: (worldPos: Vector2) => void;
+  private canvas: HTMLCanvasElement | null = null;
+  private scale: number = 1;
+  private dragging: boolean = false;
+
+  /**
+   * @param onJump Called with the world position to centre the view on
+   */
+  constructor(gameState: GameState, onJump: (worldPos: Vector2) => void) {
+    this.gameState = gameState;
+    this.onJump = onJump;
+  }
+
+  create(): void {
+    const canvas = document.createElement("canvas");
+    canvas.className = "editor-minimap";
+    canvas.style.position = "fixed";
+    canvas.style.bottom = "44px";
+    canvas.style.right = "10px";
+    canvas.style.zIndex = "1000";
+    canvas.style.border = "1px solid #D4AF37";
+    canvas.style.borderRadius = "3px";
+    canvas.style.boxShadow = "0 0 10px rgba(212, 175, 55, 0.3)";
+    canvas.style.cursor = "pointer";
+    canvas.addEventListener("mousedown", this.handleMouseDown);
+    canvas.addEventListener("mousemove", this.handleMouseMove);
+    window.addEventListener("mouseup", this.handleMouseUp);
+
+    document.body.appendChild(canvas);
+    this.canvas = canvas;
+  }
+
+  setVisible(visible: boolean): void {
+    if (this.canvas) {
+      this.canvas.style.display = visible ? "" : "none";
+    }
+  }
+
+  /**
+   * Redraw the level and the view rectangle (in world coordinates)
+   */
+  render(
+    levelWidth: number,
+    levelHeight: number,
+    view: { x: number; y: number; width: number; height: number },
+  ): void {
+    const canvas = this.canvas;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    this.scale = Math.min(MAX_WIDTH / levelWidth, MAX_HEIGHT / levelHeight);
+    const width = Math.max(1, Math.round(levelWidth * this.scale));
+    const height = Math.max(1, Math.round(levelHeight * this.scale));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    ctx.save();
+    ctx.fillStyle = this.gameState.backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+    ctx.scale(this.scale, this.scale);
+
+    // Terrain, including the colliders built from tiles
+    for (const block of this.gameState.getCollisionSolidBlocks()) {
+      ctx.fillStyle = block.color;
+      ctx.fillRect(block.position.x, block.position.y, block.size.x, block.size.y);
+    }
+    for (const platform of this.gameState.getCollisionPlatforms()) {
+      ctx.fillStyle = platform.color;
+      ctx.fillRect(platform.position.x, platform.position.y, platform.size.x, platform.size.y);
+    }
+    ctx.lineWidth = 2 / this.scale;
+    for (const diagonal of this.gameState.getCollisionDiagonalPlatforms()) {
+      ctx.strokeStyle = diagonal.color;
+      ctx.beginPath();
+      ctx.moveTo(diagonal.startPoint.x, diagonal.startPoint.y);
+      ctx.lineTo(diagonal.endPoint.x, diagonal.endPoint.y);
+      ctx.stroke();
+    }
+
+    // Everything else as dots big enough to see at this scale
+    const dot = (position: Vector2, size: Vector2, color: string) => {
+      const radius = Math.max(2 / this.scale, size.x / 2);
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(position.x + size.x / 2, position.y + size.y / 2, radius, 0, Math.PI * 2);
+      ctx.fill();
+    };
+    for (const crystal of this.gameState.memoryCrystals) {
+      dot(crystal.position, crystal.size, "#00FFFF");
+    }
+    for (const checkpoint of this.gameState.checkpoints) {
+      dot(checkpoint.position, checkpoint.size, "#FFA500");
+    }
+    for (const enemy of this.gameState.enemies) {
+      dot(enemy.position, enemy.size, "#FF4444");
+    }
+    const { player } = this.gameState;
+    dot(player.position, player.size, "#7CFC00");
+
+    ctx.strokeStyle = "#FFD700";
+    ctx.lineWidth = 1.5 / this.scale;
+    ctx.strokeRect(view.x, view.y, view.width, view.height);
+    ctx.restore();
+  }
+
+  cleanup(): void {
+    window.removeEventListener("mouseup", this.handleMouseUp);
+    this.dragging = false;
+    if (this.canvas?.parentElement) {
+      this.canvas.parentElement.removeChild(this.canvas);
+    }
+    this.canvas = null;
+  }
+
+  private handleMouseDown = (e: MouseEvent): void => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    this.dragging = true;
+    this.jumpTo(e);
+  };
+
+  private handleMouseMove = (e: MouseEvent): void => {
+    if (this.dragging) this.jumpTo(e);
+  };
+
+  private handleMouseUp = (): void => {
+    this.dragging = false;
+  };
+
+  private jumpTo(e: MouseEvent): void {
+    if (!this.canvas) return;
+    const rect = this.canvas.getBoundingClientRect();
+    this.onJump(
+      new Vector2((e.clientX - rect.left) / this.scale, (e.clientY - rect.top) / this.scale),
+    );
+  }
+}
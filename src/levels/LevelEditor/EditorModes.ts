@@ -6,7 +6,13 @@ export enum EditorMode {
   MEMORY_CRYSTAL = "MEMORY_CRYSTAL",
   GHOST = "GHOST",
   LANDGHOST = "LANDGHOST",
+  CHECKPOINT = "CHECKPOINT",
   PLAYER = "PLAYER",
   DELETE = "DELETE",
   AREA_SELECT = "AREA_SELECT",
+  TILE_PAINT = "TILE_PAINT",
+  TILE_ERASE = "TILE_ERASE",
+  TILE_FILL = "TILE_FILL",
+  TILE_RECT = "TILE_RECT",
+  PREFAB = "PREFAB",
 }
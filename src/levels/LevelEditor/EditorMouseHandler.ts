@@ -1,6 +1,7 @@
 import { Vector2 } from "@/engine/Vector2";
 import { EditorMode } from "./EditorModes";
 import type { EditorObjectManager } from "./EditorObjectManager";
+import type { EditorTileTools } from "./EditorTileTools";
 import type {
   EditorDiagonalPlatform,
   EditorObject,
@@ -14,6 +15,7 @@ interface HandleMouseDownArgs {
   mode: EditorMode;
   selectedObject: EditorObject;
   scrollPosition: Vector2;
+  zoom: number;
   onStartPosition: (pos: Vector2 | null) => void;
   onCurrentPlatform: (platform: EditorPlatform | null) => void;
   onCurrentDiagonalPlatform: (platform: EditorDiagonalPlatform | null) => void;
@@ -22,6 +24,7 @@ interface HandleMouseDownArgs {
   onSelectedObject: (obj: EditorObject) => void;
   onPushUndoState: () => void;
   onAreaSelectionStart?: (worldPos: Vector2) => void;
+  onPlacePrefab?: (worldPos: Vector2) => void;
 }
 
 interface HandleMouseMoveArgs {
@@ -33,6 +36,9 @@ interface HandleMouseMoveArgs {
   resizing: ResizeState | null;
   startPosition: Vector2 | null;
   scrollPosition: Vector2;
+  levelWidth: number;
+  levelHeight: number;
+  zoom: number;
   onScrollPosition: () => void;
   onScrolling: () => void;
   onCurrentPlatform: (platform: EditorPlatform | null) => void;
@@ -50,6 +56,7 @@ interface HandleMouseUpArgs {
   resizing: ResizeState | null;
   startPosition: Vector2 | null;
   scrollPosition: Vector2;
+  zoom: number;
   onScrolling: () => void;
   onResizing: (resizing: ResizeState | null) => void;
   onStartPosition: (pos: Vector2 | null) => void;
@@ -62,6 +69,7 @@ interface HandleMouseUpArgs {
 export class EditorMouseHandler {
   private canvas: HTMLCanvasElement;
   private objectManager: EditorObjectManager;
+  private tileTools: EditorTileTools;
   private utils: EditorUtils;
   private currentCrystalType: string = "azure";
 
@@ -72,10 +80,12 @@ export class EditorMouseHandler {
   constructor(args: {
     canvas: HTMLCanvasElement;
     objectManager: EditorObjectManager;
+    tileTools: EditorTileTools;
     utils: EditorUtils;
   }) {
     this.canvas = args.canvas;
     this.objectManager = args.objectManager;
+    this.tileTools = args.tileTools;
     this.utils = args.utils;
   }
 
@@ -89,6 +99,7 @@ export class EditorMouseHandler {
       mode,
       selectedObject,
       scrollPosition,
+      zoom,
       onStartPosition,
       onCurrentPlatform,
       onCurrentDiagonalPlatform,
@@ -97,6 +108,7 @@ export class EditorMouseHandler {
       onSelectedObject,
       onPushUndoState,
       onAreaSelectionStart,
+      onPlacePrefab,
     } = args;
     const rect = this.canvas.getBoundingClientRect();
     const x = e.clientX - rect.left;
@@ -112,11 +124,13 @@ export class EditorMouseHandler {
       return;
     }
 
-    // Convert screen position to world position (accounting for scroll)
-    const worldPos = new Vector2(pos.x + scrollPosition.x, pos.y + scrollPosition.y);
+    // Convert screen position to world position (accounting for scroll and zoom)
+    const worldPos = this.utils.screenToWorld(pos, scrollPosition, zoom);
 
     // Handle resize logic
-    if (this.handleResizeStart({ mode, selectedObject, worldPos, onResizing, onPushUndoState })) {
+    if (
+      this.handleResizeStart({ mode, selectedObject, worldPos, zoom, onResizing, onPushUndoState })
+    ) {
       return;
     }
 
@@ -130,6 +144,7 @@ export class EditorMouseHandler {
       onSelectedObject,
       onPushUndoState,
       onAreaSelectionStart,
+      onPlacePrefab,
     });
   };
 
@@ -143,6 +158,9 @@ export class EditorMouseHandler {
       resizing,
       startPosition,
       scrollPosition,
+      levelWidth,
+      levelHeight,
+      zoom,
       onScrollPosition,
       onScrolling,
       onCurrentPlatform,
@@ -157,13 +175,20 @@ export class EditorMouseHandler {
 
     // Handle scrolling with middle mouse button
     if (this.isScrolling && this.scrollStart) {
-      const deltaX = this.scrollStart.x - pos.x;
-      const deltaY = this.scrollStart.y - pos.y;
+      // Dragged screen pixels cover more of the world when zoomed out
+      const deltaX = (this.scrollStart.x - pos.x) / zoom;
+      const deltaY = (this.scrollStart.y - pos.y) / zoom;
 
       scrollPosition.x += deltaX;
       scrollPosition.y += deltaY;
 
-      this.utils.clampScrollPosition({ scrollPosition, canvas: this.canvas });
+      this.utils.clampScrollPosition({
+        scrollPosition,
+        canvas: this.canvas,
+        levelWidth,
+        levelHeight,
+        zoom,
+      });
       onScrollPosition();
 
       this.scrollStart = pos.copy();
@@ -173,14 +198,14 @@ export class EditorMouseHandler {
     }
 
     // Handle resize logic
-    if (this.handleResizeMove({ resizing, selectedObject, pos, scrollPosition })) {
+    if (this.handleResizeMove({ resizing, selectedObject, pos, scrollPosition, zoom })) {
       return;
     }
 
     if (!startPosition) return;
 
     // Convert screen position to world position
-    const worldPos = new Vector2(pos.x + scrollPosition.x, pos.y + scrollPosition.y);
+    const worldPos = this.utils.screenToWorld(pos, scrollPosition, zoom);
 
     this.handleModeMovement({
       mode,
@@ -204,6 +229,7 @@ export class EditorMouseHandler {
       resizing,
       startPosition,
       scrollPosition,
+      zoom,
       onScrolling,
       onResizing,
       onStartPosition,
@@ -234,11 +260,12 @@ export class EditorMouseHandler {
     const pos = new Vector2(x, y);
 
     // Convert to world position
-    const worldPos = new Vector2(pos.x + scrollPosition.x, pos.y + scrollPosition.y);
+    const worldPos = this.utils.screenToWorld(pos, scrollPosition, zoom);
 
     this.handleModeCompletion({
       mode,
       worldPos,
+      startPosition,
       selectedObject,
       currentPlatform,
       currentDiagonalPlatform,
@@ -255,10 +282,11 @@ export class EditorMouseHandler {
     mode: EditorMode;
     selectedObject: EditorObject;
     worldPos: Vector2;
+    zoom: number;
     onResizing: (resizing: ResizeState | null) => void;
     onPushUndoState: () => void;
   }): boolean {
-    const { mode, selectedObject, worldPos, onResizing, onPushUndoState } = args;
+    const { mode, selectedObject, worldPos, zoom, onResizing, onPushUndoState } = args;
     if (
       mode === EditorMode.SELECT &&
       selectedObject &&
@@ -272,10 +300,10 @@ export class EditorMouseHandler {
         w: obj.size.x,
         h: obj.size.y,
       };
-      const handles = this.utils.getResizeHandles(rect);
+      const handles = this.utils.getResizeHandles(rect, zoom);
 
       for (const handle of handles) {
-        if (this.utils.isPointInHandle(worldPos, handle)) {
+        if (this.utils.isPointInHandle(worldPos, handle, zoom)) {
           onResizing({
             handle: handle.name,
             startMouse: worldPos.copy(),
@@ -294,15 +322,16 @@ export class EditorMouseHandler {
     selectedObject: EditorObject;
     pos: Vector2;
     scrollPosition: Vector2;
+    zoom: number;
   }): boolean {
-    const { resizing, selectedObject, pos, scrollPosition } = args;
+    const { resizing, selectedObject, pos, scrollPosition, zoom } = args;
     if (
       resizing &&
       selectedObject &&
       (this.objectManager.isPlatform(selectedObject) ||
         this.objectManager.isSolidBlock(selectedObject))
     ) {
-      const mouse = new Vector2(pos.x + scrollPosition.x, pos.y + scrollPosition.y);
+      const mouse = this.utils.screenToWorld(pos, scrollPosition, zoom);
       this.utils.handleResize(resizing, selectedObject as EditorPlatform, mouse);
       return true;
     }
@@ -318,6 +347,7 @@ export class EditorMouseHandler {
     onSelectedObject: (obj: EditorObject) => void;
     onPushUndoState: () => void;
     onAreaSelectionStart?: (worldPos: Vector2) => void;
+    onPlacePrefab?: (worldPos: Vector2) => void;
   }): void {
     const {
       mode,
@@ -328,6 +358,7 @@ export class EditorMouseHandler {
       onSelectedObject,
       onPushUndoState,
       onAreaSelectionStart,
+      onPlacePrefab,
     } = args;
     switch (mode) {
       case EditorMode.SELECT: {
@@ -375,6 +406,10 @@ export class EditorMouseHandler {
         onPushUndoState();
         this.objectManager.placeLandGhost(worldPos);
         break;
+      case EditorMode.CHECKPOINT:
+        onPushUndoState();
+        this.objectManager.placeCheckpoint(worldPos);
+        break;
       case EditorMode.PLAYER:
         onPushUndoState();
         this.objectManager.placePlayer(worldPos);
@@ -389,6 +424,27 @@ export class EditorMouseHandler {
         }
         onStartPosition(worldPos);
         break;
+      case EditorMode.TILE_PAINT:
+      case EditorMode.TILE_ERASE:
+        if (!this.tileTools.canEdit()) break;
+        // One undo step for the whole stroke; dragging keeps painting
+        onPushUndoState();
+        this.tileTools.paintAt(worldPos, mode === EditorMode.TILE_ERASE);
+        onStartPosition(worldPos);
+        break;
+      case EditorMode.TILE_FILL:
+        if (!this.tileTools.canEdit()) break;
+        onPushUndoState();
+        this.tileTools.fillAt(worldPos);
+        break;
+      case EditorMode.TILE_RECT:
+        onStartPosition(worldPos);
+        break;
+      case EditorMode.PREFAB:
+        if (onPlacePrefab) {
+          onPlacePrefab(worldPos);
+        }
+        break;
     }
   }
 
@@ -437,12 +493,17 @@ export class EditorMouseHandler {
           onAreaSelectionUpdate(worldPos);
         }
         break;
+      case EditorMode.TILE_PAINT:
+      case EditorMode.TILE_ERASE:
+        this.tileTools.paintAt(worldPos, mode === EditorMode.TILE_ERASE);
+        break;
     }
   }
 
   private handleModeCompletion(args: {
     mode: EditorMode;
     worldPos: Vector2;
+    startPosition: Vector2;
     selectedObject: EditorObject;
     currentPlatform: EditorPlatform | null;
     currentDiagonalPlatform: EditorDiagonalPlatform | null;
@@ -454,6 +515,7 @@ export class EditorMouseHandler {
     const {
       mode,
       worldPos,
+      startPosition,
       selectedObject,
       currentPlatform,
       currentDiagonalPlatform,
@@ -496,6 +558,11 @@ export class EditorMouseHandler {
           onAreaSelectionFinish();
         }
         break;
+      case EditorMode.TILE_RECT:
+        if (!this.tileTools.canEdit()) break;
+        onPushUndoState();
+        this.tileTools.fillRect(startPosition, worldPos);
+        break;
     }
   }
 }
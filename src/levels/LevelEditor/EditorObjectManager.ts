@@ -1,64 +1,79 @@
 import type { GameState } from "@/engine/GameState";
 import { Vector2 } from "@/engine/Vector2";
+import { Checkpoint } from "@/objects/checkpoint";
 import { DiagonalPlatform } from "@/objects/diagonalPlatform";
 import { Ghost } from "@/objects/enemies/Ghost";
 import { LandGhost } from "@/objects/enemies/LandGhost";
 import { MemoryCrystal } from "@/objects/memoryCrystal";
 import { Platform } from "@/objects/platform";
 import { SolidBlock } from "@/objects/solidBlock";
+import type { EditorLayers } from "./EditorLayers";
 import type { EditorDiagonalPlatform, EditorObject, EditorPlatform } from "./EditorTypes";
 import type { EditorUtils } from "./EditorUtils";
 
 export class EditorObjectManager {
   private gameState: GameState;
   private utils: EditorUtils;
+  private layers: EditorLayers;
 
-  constructor(gameState: GameState, utils: EditorUtils) {
+  constructor(gameState: GameState, utils: EditorUtils, layers: EditorLayers) {
     this.gameState = gameState;
     this.utils = utils;
+    this.layers = layers;
   }
 
   selectObjectAt(pos: Vector2): EditorObject {
-    // Prioritize: enemy > memory crystal > platform > solid block > player
+    // Prioritize: enemy > memory crystal > checkpoint > platform > solid block > player.
+    // Objects on hidden, locked or (while one layer is soloed) other layers are skipped.
 
     // Check enemies first
     for (const enemy of this.gameState.enemies) {
-      if (this.isPointInObject(pos, enemy)) {
+      if (this.layers.canSelect(enemy) && this.isPointInObject(pos, enemy)) {
         return enemy;
       }
     }
 
     // Check memory crystals
     for (const crystal of this.gameState.memoryCrystals) {
-      if (this.isPointInObject(pos, crystal)) {
+      if (this.layers.canSelect(crystal) && this.isPointInObject(pos, crystal)) {
         return crystal;
       }
     }
 
+    // Check checkpoints
+    for (const checkpoint of this.gameState.checkpoints) {
+      if (this.layers.canSelect(checkpoint) && this.isPointInObject(pos, checkpoint)) {
+        return checkpoint;
+      }
+    }
+
     // Check platforms
     for (const platform of this.gameState.platforms) {
-      if (this.isPointInObject(pos, platform)) {
+      if (this.layers.canSelect(platform) && this.isPointInObject(pos, platform)) {
         return platform;
       }
     }
 
     // Check diagonal platforms
     for (const diagonalPlatform of this.gameState.diagonalPlatforms) {
-      if (this.isPointInDiagonalPlatform(pos, diagonalPlatform)) {
+      if (
+        this.layers.canSelect(diagonalPlatform) &&
+        this.isPointInDiagonalPlatform(pos, diagonalPlatform)
+      ) {
         return diagonalPlatform;
       }
     }
 
     // Check solid blocks
     for (const solidBlock of this.gameState.solidBlocks) {
-      if (this.isPointInObject(pos, solidBlock)) {
+      if (this.layers.canSelect(solidBlock) && this.isPointInObject(pos, solidBlock)) {
         return solidBlock;
       }
     }
 
     // Check player
     const player = this.gameState.player;
-    if (this.isPointInObject(pos, player)) {
+    if (this.layers.canSelect(player) && this.isPointInObject(pos, player)) {
       return player;
     }
 
@@ -193,7 +208,9 @@ export class EditorObjectManager {
   placeMemoryCrystal(pos: Vector2, type: string = "azure"): void {
     const snapped = this.utils.snapToCenter(pos);
     // Create new memory crystal at position (position is the actual position, not adjusted)
-    this.gameState.memoryCrystals.push(new MemoryCrystal(snapped.x, snapped.y, type));
+    this.gameState.memoryCrystals.push(
+      new MemoryCrystal(snapped.x, snapped.y, type, this.gameState.random),
+    );
   }
 
   placeGhost(pos: Vector2): void {
@@ -204,7 +221,7 @@ export class EditorObjectManager {
     const ghostY = snapped.y - 16; // Position the 32px tall ghost
 
     // Create the ghost with default direction (right)
-    const newGhost = new Ghost(ghostX, ghostY, 1);
+    const newGhost = new Ghost(ghostX, ghostY, 1, this.gameState.random);
     this.gameState.enemies.push(newGhost);
   }
 
@@ -216,7 +233,7 @@ export class EditorObjectManager {
     const enemyY = snapped.y - 16; // Position the 32px tall enemy
 
     // Create the enemy with default direction (right)
-    const newEnemy = new LandGhost(enemyX, enemyY, 1);
+    const newEnemy = new LandGhost(enemyX, enemyY, 1, this.gameState.random);
 
     // When creating an enemy through the editor, initialize with zero vertical velocity
     // to prevent immediate falling
@@ -225,6 +242,14 @@ export class EditorObjectManager {
     this.gameState.enemies.push(newEnemy);
   }
 
+  placeCheckpoint(pos: Vector2): void {
+    const snapped = this.utils.snapVec2(pos);
+    // The snap point is the ground under the brazier, so it stands on the platform clicked
+    this.gameState.checkpoints.push(
+      new Checkpoint(snapped.x - Checkpoint.WIDTH / 2, snapped.y - Checkpoint.HEIGHT),
+    );
+  }
+
   placePlayer(pos: Vector2): void {
     const snapped = this.utils.snapVec2(pos);
     // Update player position
@@ -236,7 +261,7 @@ export class EditorObjectManager {
     // Check platforms
     for (let i = 0; i < this.gameState.platforms.length; i++) {
       const platform = this.gameState.platforms[i];
-      if (this.isPointInObject(pos, platform)) {
+      if (this.layers.canSelect(platform) && this.isPointInObject(pos, platform)) {
         this.gameState.platforms.splice(i, 1);
         return;
       }
@@ -245,7 +270,7 @@ export class EditorObjectManager {
     // Check solid blocks
     for (let i = 0; i < this.gameState.solidBlocks.length; i++) {
       const solidBlock = this.gameState.solidBlocks[i];
-      if (this.isPointInObject(pos, solidBlock)) {
+      if (this.layers.canSelect(solidBlock) && this.isPointInObject(pos, solidBlock)) {
         this.gameState.solidBlocks.splice(i, 1);
         return;
       }
@@ -254,7 +279,10 @@ export class EditorObjectManager {
     // Check diagonal platforms
     for (let i = 0; i < this.gameState.diagonalPlatforms.length; i++) {
       const diagonalPlatform = this.gameState.diagonalPlatforms[i];
-      if (this.isPointInDiagonalPlatform(pos, diagonalPlatform)) {
+      if (
+        this.layers.canSelect(diagonalPlatform) &&
+        this.isPointInDiagonalPlatform(pos, diagonalPlatform)
+      ) {
         this.gameState.diagonalPlatforms.splice(i, 1);
         return;
       }
@@ -263,7 +291,7 @@ export class EditorObjectManager {
     // Check memory crystals
     for (let i = 0; i < this.gameState.memoryCrystals.length; i++) {
       const crystal = this.gameState.memoryCrystals[i];
-      if (this.isPointInObject(pos, crystal)) {
+      if (this.layers.canSelect(crystal) && this.isPointInObject(pos, crystal)) {
         this.gameState.memoryCrystals.splice(i, 1);
         return;
       }
@@ -272,11 +300,20 @@ export class EditorObjectManager {
     // Check enemies
     for (let i = 0; i < this.gameState.enemies.length; i++) {
       const enemy = this.gameState.enemies[i];
-      if (this.isPointInObject(pos, enemy)) {
+      if (this.layers.canSelect(enemy) && this.isPointInObject(pos, enemy)) {
         this.gameState.enemies.splice(i, 1);
         return;
       }
     }
+
+    // Check checkpoints
+    for (let i = 0; i < this.gameState.checkpoints.length; i++) {
+      const checkpoint = this.gameState.checkpoints[i];
+      if (this.layers.canSelect(checkpoint) && this.isPointInObject(pos, checkpoint)) {
+        this.gameState.checkpoints.splice(i, 1);
+        return;
+      }
+    }
   }
 
   isPlatform(obj: EditorObject): boolean {
@@ -0,0 +1,98 @@
+import type { GameState } from "@/engine/GameState";
+import type { Vector2 } from "@/engine/Vector2";
+import type { PlayerProgress } from "@/objects/players/PlayerTypes";
+import type { MPPersistenceData } from "@/systems/MPManager";
+import type { WorldProgressData } from "@/systems/WorldProgress";
+import type { EditorStateManager } from "./EditorStateManager";
+import type { EditorState } from "./EditorTypes";
+
+interface PlaytestSnapshot {
+  levelId: string;
+  editorState: EditorState;
+  progress: PlayerProgress;
+  respawnPoint: Vector2;
+  mp: MPPersistenceData;
+  // Rooms visited and crystals broken during the playtest must not count towards completion
+  worldProgress: WorldProgressData;
+}
+
+/**
+ * Runs the live game from inside the editor and puts everything back afterwards
+ */
+export class EditorPlaytest {
+  private gameState: GameState;
+  private stateManager: EditorStateManager;
+  private snapshot: PlaytestSnapshot | null = null;
+
+  constructor(gameState: GameState, stateManager: EditorStateManager) {
+    this.gameState = gameState;
+    this.stateManager = stateManager;
+  }
+
+  isRunning(): boolean {
+    return this.snapshot !== null;
+  }
+
+  /**
+   * Snapshot the level as edited and drop the player in centred on the given world position
+   */
+  start(spawnPosition: Vector2, scrollPosition: Vector2): void {
+    if (this.snapshot) return;
+
+    const { player, lifeSystem } = this.gameState;
+    this.snapshot = {
+      levelId: this.gameState.currentLevelId ?? "",
+      editorState: this.stateManager.captureCurrentState(scrollPosition),
+      progress: player.getProgress(),
+      respawnPoint: lifeSystem.getRespawnPoint(),
+      mp: this.gameState.mpManager.getPersistenceData(),
+      worldProgress: this.gameState.progress.toData(),
+    };
+
+    const x = Math.round(spawnPosition.x - player.size.x / 2);
+    const y = Math.round(spawnPosition.y - player.size.y / 2);
+    player.respawn(x, y);
+    // Deaths during the playtest bring the player back here, with a full set of lives
+    lifeSystem.reset();
+    lifeSystem.setRespawnPoint(x, y);
+    this.gameState.saveManager.setAutosaveSuspended(true);
+    this.gameState.paused = false;
+    console.log(`Playtest started at ${x}, ${y}`);
+  }
+
+  /**
+   * Return the level, player, lives, MP and completion record to how they were when the
+   * playtest started.
+   * Returns the editor scroll position to go back to.
+   */
+  stop(): Vector2 | null {
+    const snapshot = this.snapshot;
+    if (!snapshot) return null;
+    this.snapshot = null;
+
+    // Reloading first drops anything the run left behind (pending tasks, a room entered
+    // through a door); the edited objects then replace the level's saved ones
+    this.gameState.loadLevel(snapshot.levelId);
+    this.stateManager.restoreState(snapshot.editorState);
+    this.gameState.experiences = [];
+    this.gameState.energyBlasts = [];
+    this.gameState.poofEffects = [];
+    this.gameState.floatingExpIndicators = [];
+
+    // Loading the level swapped in a new player, so look it up only now
+    const { player, lifeSystem } = this.gameState;
+    const start = snapshot.editorState.player.position;
+    player.respawn(start.x, start.y);
+    player.applyProgress(snapshot.progress);
+    lifeSystem.reset();
+    lifeSystem.setRespawnPoint(snapshot.respawnPoint.x, snapshot.respawnPoint.y);
+    this.gameState.mpManager.applyPersistenceData(snapshot.mp);
+    this.gameState.mpManager.saveMP();
+    this.gameState.progress.load(snapshot.worldProgress);
+    this.gameState.saveManager.setAutosaveSuspended(false);
+    this.gameState.paused = false;
+
+    console.log("Playtest stopped, editor state restored");
+    return snapshot.editorState.scrollPosition.copy();
+  }
+}
@@ -0,0 +1,435 @@
+import type { GameState } from "@/engine/GameState";
+import { Vector2 } from "@/engine/Vector2";
+import type { StorageSchema, VersionedStorage } from "@/engine/VersionedStorage";
+import { isFiniteNumber, isRecord } from "@/engine/VersionedStorage";
+import type { ClipboardItem } from "./EditorClipboard";
+import { captureItems, instantiateItems, itemsTopLeft } from "./EditorClipboard";
+import type { EditorObject, PrefabLinkState, PrefabMemberList } from "./EditorTypes";
+
+/**
+ * A named group of objects saved for reuse, positioned relative to its top-left corner
+ */
+export interface PrefabData {
+  id: string;
+  name: string;
+  items: ClipboardItem[];
+}
+
+/**
+ * A prefab as the prefab panel lists it
+ */
+export interface PrefabSummary {
+  id: string;
+  name: string;
+  objectCount: number;
+  // Linked copies placed in the level
+  instanceCount: number;
+}
+
+// A placed copy of a prefab: the level objects that were built from it
+interface PrefabInstance {
+  prefabId: string;
+  objects: EditorObject[];
+}
+
+const PREFAB_STORAGE_KEY = "editor_prefabs";
+const PREFAB_FILE_FORMAT = "testavania-prefabs";
+
+// Crystals, enemies and checkpoints are about this big; prefab items only keep their corner
+const POINT_ITEM_SIZE = 32;
+
+const MEMBER_LISTS: PrefabMemberList[] = [
+  "platforms",
+  "solidBlocks",
+  "diagonalPlatforms",
+  "memoryCrystals",
+  "enemies",
+  "checkpoints",
+];
+
+function isPoint(value: unknown): value is { x: number; y: number } {
+  return isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+}
+
+function isPrefabItem(value: unknown): value is ClipboardItem {
+  if (!isRecord(value)) return false;
+  switch (value.kind) {
+    case "platform":
+    case "solidBlock":
+      return isPoint(value.position) && isPoint(value.size) && typeof value.color === "string";
+    case "diagonalPlatform":
+      return (
+        isPoint(value.startPoint) &&
+        isPoint(value.endPoint) &&
+        isFiniteNumber(value.thickness) &&
+        typeof value.color === "string"
+      );
+    case "memoryCrystal":
+      return isPoint(value.position) && typeof value.type === "string";
+    case "enemy":
+      return (
+        isPoint(value.position) && typeof value.type === "string" && isFiniteNumber(value.direction)
+      );
+    case "checkpoint":
+      return isPoint(value.position);
+    default:
+      return false;
+  }
+}
+
+function isPrefab(value: unknown): value is PrefabData {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    Array.isArray(value.items) &&
+    value.items.every(isPrefabItem)
+  );
+}
+
+/**
+ * Versions of the `editor_prefabs` blob
+ * 1: list of prefabs
+ */
+export const PREFAB_LIBRARY_SCHEMA: StorageSchema<PrefabData[]> = {
+  version: 1,
+  migrations: {},
+  validate: (data): data is PrefabData[] => Array.isArray(data) && data.every(isPrefab),
+};
+
+/**
+ * Copy of an item moved by (dx, dy), with real Vector2s even when it was read from JSON
+ */
+function moveItem(item: ClipboardItem, dx: number, dy: number): ClipboardItem {
+  const move = (point: { x: number; y: number }) => new Vector2(point.x + dx, point.y + dy);
+  switch (item.kind) {
+    case "platform":
+    case "solidBlock":
+      return {
+        ...item,
+        position: move(item.position),
+        size: new Vector2(item.size.x, item.size.y),
+      };
+    case "diagonalPlatform":
+      return { ...item, startPoint: move(item.startPoint), endPoint: move(item.endPoint) };
+    default:
+      return { ...item, position: move(item.position) };
+  }
+}
+
+/**
+ * Items with their top-left corner moved to (0, 0)
+ */
+function relativeItems(items: ClipboardItem[]): ClipboardItem[] {
+  const topLeft = itemsTopLeft(items);
+  return items.map((item) => moveItem(item, -topLeft.x, -topLeft.y));
+}
+
+/**
+ * The prefab library (kept in storage across sessions) and the prefab copies placed in the
+ * level. Placed copies stay linked to their prefab for the editing session, through undo and
+ * playtests, so updating a prefab rebuilds them; saved levels only keep the plain objects.
+ */
+export class EditorPrefabs {
+  private gameState: GameState;
+  private storage: VersionedStorage;
+  private prefabs: PrefabData[] = [];
+  private instances: PrefabInstance[] = [];
+  private selectedId: string | null = null;
+
+  constructor(gameState: GameState, storage: VersionedStorage = gameState.persistence) {
+    this.gameState = gameState;
+    this.storage = storage;
+    this.load();
+  }
+
+  getSummaries(): PrefabSummary[] {
+    this.pruneInstances();
+    return this.prefabs.map((prefab) => ({
+      id: prefab.id,
+      name: prefab.name,
+      objectCount: prefab.items.length,
+      instanceCount: this.instances.filter((instance) => instance.prefabId === prefab.id).length,
+    }));
+  }
+
+  /**
+   * The prefab the prefab mode places
+   */
+  getSelected(): PrefabData | undefined {
+    return this.prefabs.find((prefab) => prefab.id === this.selectedId);
+  }
+
+  select(id: string): void {
+    if (this.prefabs.some((prefab) => prefab.id === id)) {
+      this.selectedId = id;
+    }
+  }
+
+  /**
+   * Roughly the area the selected prefab covers with its top-left corner at `topLeft`
+   */
+  getPlacementBounds(topLeft: Vector2): { x: number; y: number; w: number; h: number } | undefined {
+    const prefab = this.getSelected();
+    if (!prefab) return undefined;
+    let w = 0;
+    let h = 0;
+    for (const item of prefab.items) {
+      let right: number;
+      let bottom: number;
+      if (item.kind === "diagonalPlatform") {
+        right = Math.max(item.startPoint.x, item.endPoint.x);
+        bottom = Math.max(item.startPoint.y, item.endPoint.y);
+      } else if (item.kind === "platform" || item.kind === "solidBlock") {
+        right = item.position.x + item.size.x;
+        bottom = item.position.y + item.size.y;
+      } else {
+        right = item.position.x + POINT_ITEM_SIZE;
+        bottom = item.position.y + POINT_ITEM_SIZE;
+      }
+      w = Math.max(w, right);
+      h = Math.max(h, bottom);
+    }
+    return { x: topLeft.x, y: topLeft.y, w, h };
+  }
+
+  /**
+   * Save objects as a new prefab and select it. The objects become its first placed copy.
+   * Returns null when there is nothing a prefab can hold (the player is never included).
+   */
+  create(name: string, objects: EditorObject[]): PrefabData | null {
+    const members = EditorPrefabs.prefabMembers(objects);
+    if (members.length === 0) return null;
+
+    const prefab: PrefabData = {
+      id: this.createId(name),
+      name,
+      items: relativeItems(captureItems(members)),
+    };
+    this.prefabs.push(prefab);
+    this.selectedId = prefab.id;
+    this.save();
+    this.link(prefab.id, members);
+    return prefab;
+  }
+
+  /**
+   * Place a copy of the selected prefab with its top-left corner at `topLeft`.
+   * Returns the new objects.
+   */
+  place(topLeft: Vector2): EditorObject[] {
+    const prefab = this.getSelected();
+    if (!prefab) return [];
+    const objects = instantiateItems(this.gameState, prefab.items, topLeft.x, topLeft.y);
+    this.instances.push({ prefabId: prefab.id, objects });
+    return objects;
+  }
+
+  /**
+   * Replace the selected prefab's contents with objects, which become one of its copies, and
+   * rebuild every other placed copy to match, each where its top-left corner is now.
+   * Returns how many copies were rebuilt, or -1 when nothing was updated.
+   */
+  updateSelected(objects: EditorObject[]): number {
+    const prefab = this.getSelected();
+    const members = EditorPrefabs.prefabMembers(objects);
+    if (!prefab || members.length === 0) return -1;
+
+    prefab.items = relativeItems(captureItems(members));
+    this.save();
+    const source = this.link(prefab.id, members);
+
+    let rebuilt = 0;
+    for (const instance of this.instances) {
+      if (instance === source || instance.prefabId !== prefab.id) continue;
+      const topLeft = itemsTopLeft(captureItems(instance.objects));
+      this.removeFromLevel(instance.objects);
+      instance.objects = instantiateItems(this.gameState, prefab.items, topLeft.x, topLeft.y);
+      rebuilt++;
+    }
+    return rebuilt;
+  }
+
+  /**
+   * Remove the selected prefab from the library. Its placed copies stay as plain objects.
+   */
+  deleteSelected(): void {
+    const id = this.selectedId;
+    if (id === null) return;
+    this.prefabs = this.prefabs.filter((prefab) => prefab.id !== id);
+    this.instances = this.instances.filter((instance) => instance.prefabId !== id);
+    this.selectedId = null;
+    this.save();
+  }
+
+  /**
+   * The library as a JSON file that importLibrary reads back
+   */
+  exportLibrary(): string {
+    const file = {
+      format: PREFAB_FILE_FORMAT,
+      version: PREFAB_LIBRARY_SCHEMA.version,
+      prefabs: this.prefabs,
+    };
+    return `${JSON.stringify(file, null, 2)}\n`;
+  }
+
+  /**
+   * Save the library as prefabs.json through the browser
+   */
+  downloadLibrary(): void {
+    const blob = new Blob([this.exportLibrary()], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "prefabs.json";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Add the prefabs from an exported library, replacing any with the same id.
+   * Returns how many were added. Throws with a readable message if the file is not a library.
+   */
+  importLibrary(text: string): number {
+    let file: unknown;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      throw new Error("Prefab file is not valid JSON");
+    }
+    if (!isRecord(file) || file.format !== PREFAB_FILE_FORMAT) {
+      throw new Error("Not a prefab library (missing format marker)");
+    }
+    if (file.version !== PREFAB_LIBRARY_SCHEMA.version) {
+      throw new Error(`Unsupported prefab library version: ${String(file.version)}`);
+    }
+    if (!PREFAB_LIBRARY_SCHEMA.validate(file.prefabs)) {
+      throw new Error("Prefab library has malformed prefabs");
+    }
+
+    for (const imported of file.prefabs) {
+      const prefab = { ...imported, items: imported.items.map((item) => moveItem(item, 0, 0)) };
+      const index = this.prefabs.findIndex((existing) => existing.id === prefab.id);
+      if (index === -1) {
+        this.prefabs.push(prefab);
+      } else {
+        this.prefabs[index] = prefab;
+      }
+    }
+    this.save();
+    return file.prefabs.length;
+  }
+
+  /**
+   * The placed copies, by where their objects sit in the level lists
+   */
+  captureLinks(): PrefabLinkState[] {
+    this.pruneInstances();
+    return this.instances.map((instance) => ({
+      prefabId: instance.prefabId,
+      members: instance.objects.flatMap((obj) => {
+        const member = this.locate(obj);
+        return member ? [member] : [];
+      }),
+    }));
+  }
+
+  /**
+   * Relink the objects of a level rebuilt from a captured state
+   */
+  restoreLinks(links: PrefabLinkState[]): void {
+    this.instances = [];
+    for (const link of links) {
+      if (!this.prefabs.some((prefab) => prefab.id === link.prefabId)) continue;
+      const objects = link.members.flatMap(({ list, index }) => {
+        const obj = (this.gameState[list] as object[])[index];
+        return obj ? [obj] : [];
+      });
+      if (objects.length > 0) {
+        this.instances.push({ prefabId: link.prefabId, objects });
+      }
+    }
+  }
+
+  /**
+   * The objects a prefab can hold, in the order captureItems copies them
+   */
+  private static prefabMembers(objects: EditorObject[]): EditorObject[] {
+    return objects.filter((obj) => captureItems([obj]).length > 0);
+  }
+
+  /**
+   * Make objects one placed copy of a prefab, taking them out of any copy they were part of
+   */
+  private link(prefabId: string, objects: EditorObject[]): PrefabInstance {
+    for (const instance of this.instances) {
+      instance.objects = instance.objects.filter((obj) => !objects.includes(obj));
+    }
+    const instance: PrefabInstance = { prefabId, objects: [...objects] };
+    this.instances.push(instance);
+    this.pruneInstances();
+    return instance;
+  }
+
+  /**
+   * Forget objects that were deleted from the level, and copies with nothing left
+   */
+  private pruneInstances(): void {
+    for (const instance of this.instances) {
+      instance.objects = instance.objects.filter((obj) => this.locate(obj) !== null);
+    }
+    this.instances = this.instances.filter((instance) => instance.objects.length > 0);
+  }
+
+  private locate(obj: EditorObject): { list: PrefabMemberList; index: number } | null {
+    for (const list of MEMBER_LISTS) {
+      const index = (this.gameState[list] as EditorObject[]).indexOf(obj);
+      if (index !== -1) return { list, index };
+    }
+    return null;
+  }
+
+  private removeFromLevel(objects: EditorObject[]): void {
+    for (const obj of objects) {
+      const member = this.locate(obj);
+      if (member) {
+        (this.gameState[member.list] as EditorObject[]).splice(member.index, 1);
+      }
+    }
+  }
+
+  /**
+   * An id made from the name, numbered when another prefab already has it
+   */
+  private createId(name: string): string {
+    const base =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "") || "prefab";
+    let id = base;
+    for (let n = 2; this.prefabs.some((prefab) => prefab.id === id); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+
+  private load(): void {
+    const saved = this.storage.read(PREFAB_STORAGE_KEY, PREFAB_LIBRARY_SCHEMA);
+    this.prefabs = (saved ?? []).map((prefab) => ({
+      ...prefab,
+      items: prefab.items.map((item) => moveItem(item, 0, 0)),
+    }));
+  }
+
+  private save(): void {
+    try {
+      this.storage.write(PREFAB_STORAGE_KEY, PREFAB_LIBRARY_SCHEMA, this.prefabs);
+    } catch (error) {
+      console.warn("Failed to save prefab library:", error);
+    }
+  }
+}
@@ -1,4 +1,6 @@
 import type { Vector2 } from "@/engine/Vector2";
+import type { WeatherZoneData } from "@/levels/LevelData";
+import { Checkpoint } from "@/objects/checkpoint";
 import { Platform } from "@/objects/platform";
 import { SolidBlock } from "@/objects/solidBlock";
 import { EditorMode } from "./EditorModes";
@@ -31,9 +33,17 @@ export class EditorRenderer {
     selectedObjects?: EditorObject[],
     mousePosition?: Vector2,
     resizing?: ResizeState,
+    weatherZones?: WeatherZoneData[],
+    tilePreview?: { x: number; y: number; w: number; h: number },
+    zoom: number = 1,
   ): void {
     ctx.save();
 
+    // Outline weather zones (they have no in-game visual of their own)
+    if (weatherZones) {
+      this.drawWeatherZones(ctx, weatherZones);
+    }
+
     // Draw current platform being created
     if (mode === EditorMode.PLATFORM && currentPlatform) {
       this.drawCurrentPlatform(ctx, currentPlatform, "#FFFFFF");
@@ -49,9 +59,16 @@ export class EditorRenderer {
       this.drawCurrentDiagonalPlatform(ctx, currentDiagonalPlatform, "#FFD700"); // Gold to distinguish
     }
 
+    // Outline the cells a tile tool will change
+    if (tilePreview) {
+      ctx.strokeStyle = mode === EditorMode.TILE_ERASE ? "#FF6B6B" : "#7CFC00";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(tilePreview.x, tilePreview.y, tilePreview.w, tilePreview.h);
+    }
+
     // Highlight selected object
     if (mode === EditorMode.SELECT && selectedObject) {
-      this.drawSelectedObject(ctx, selectedObject);
+      this.drawSelectedObject(ctx, selectedObject, zoom);
     }
 
     // Draw area selection rectangle
@@ -65,7 +82,7 @@ export class EditorRenderer {
     }
 
     // Draw grid for alignment
-    this.utils.drawGrid({ ctx, scrollPosition, canvas: this.canvas });
+    this.utils.drawGrid({ ctx, scrollPosition, canvas: this.canvas, zoom });
 
     // Draw position/size feedback
     if (mousePosition) {
@@ -75,6 +92,19 @@ export class EditorRenderer {
     ctx.restore();
   }
 
+  private drawWeatherZones(ctx: CanvasRenderingContext2D, zones: WeatherZoneData[]): void {
+    ctx.strokeStyle = "rgba(135, 206, 235, 0.8)";
+    ctx.fillStyle = "rgba(135, 206, 235, 0.8)";
+    ctx.font = "12px monospace";
+    ctx.setLineDash([8, 4]);
+    zones.forEach((zone, index) => {
+      ctx.strokeRect(zone.position.x, zone.position.y, zone.size.x, zone.size.y);
+      const label = zone.weather.indoor ? "indoor" : (zone.weather.mode ?? "weather");
+      ctx.fillText(`Zone ${index + 1}: ${label}`, zone.position.x + 4, zone.position.y + 14);
+    });
+    ctx.setLineDash([]);
+  }
+
   private drawCurrentPlatform(
     ctx: CanvasRenderingContext2D,
     platform: EditorPlatform,
@@ -129,7 +159,11 @@ export class EditorRenderer {
     ctx.lineWidth = 1;
   }
 
-  private drawSelectedObject(ctx: CanvasRenderingContext2D, selectedObject: EditorObject): void {
+  private drawSelectedObject(
+    ctx: CanvasRenderingContext2D,
+    selectedObject: EditorObject,
+    zoom: number,
+  ): void {
     const obj = selectedObject as { position: Vector2; size: Vector2 };
     if (obj.position && obj.size) {
       ctx.strokeStyle = "#FF0000";
@@ -139,7 +173,7 @@ export class EditorRenderer {
 
       // Draw resize handles if it's a platform or solid block
       if (selectedObject instanceof Platform || selectedObject instanceof SolidBlock) {
-        this.drawResizeHandles(ctx, obj);
+        this.drawResizeHandles(ctx, obj, zoom);
       }
     }
   }
@@ -147,6 +181,7 @@ export class EditorRenderer {
   private drawResizeHandles(
     ctx: CanvasRenderingContext2D,
     obj: { position: Vector2; size: Vector2 },
+    zoom: number,
   ): void {
     const rect = {
       x: obj.position.x,
@@ -154,8 +189,8 @@ export class EditorRenderer {
       w: obj.size.x,
       h: obj.size.y,
     };
-    const handles = this.utils.getResizeHandles(rect);
-    const handleSize = EditorUtils.getHandleSize();
+    const handles = this.utils.getResizeHandles(rect, zoom);
+    const handleSize = EditorUtils.getHandleSize(zoom);
 
     ctx.save();
     for (const handle of handles) {
@@ -262,6 +297,17 @@ export class EditorRenderer {
         ctx.strokeRect(enemyPos.x, enemyPos.y, 32, 32);
         break;
       }
+      case EditorMode.CHECKPOINT: {
+        // Show placement preview for checkpoint, standing on the snapped point
+        const checkpointPos = this.utils.snapVec2(mousePosition);
+        ctx.strokeRect(
+          checkpointPos.x - Checkpoint.WIDTH / 2,
+          checkpointPos.y - Checkpoint.HEIGHT,
+          Checkpoint.WIDTH,
+          Checkpoint.HEIGHT,
+        );
+        break;
+      }
       case EditorMode.PLAYER: {
         // Show placement preview for player
         const playerPos = this.utils.snapVec2(mousePosition);
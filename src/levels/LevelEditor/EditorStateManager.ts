@@ -1,53 +1,30 @@
 import type { GameState } from "@/engine/GameState";
 import type { Vector2 } from "@/engine/Vector2";
+import { TileMap } from "@/engine/TileMap";
+import { Checkpoint } from "@/objects/checkpoint";
 import { DiagonalPlatform } from "@/objects/diagonalPlatform";
+import { Door } from "@/objects/door";
 import { Ghost } from "@/objects/enemies/Ghost";
 import { LandGhost } from "@/objects/enemies/LandGhost";
 import { MemoryCrystal } from "@/objects/memoryCrystal";
 import { Platform } from "@/objects/platform";
 import { SolidBlock } from "@/objects/solidBlock";
+import type { EditorPrefabs } from "./EditorPrefabs";
 import type { EditorState } from "./EditorTypes";
 
 export class EditorStateManager {
   private gameState: GameState;
+  private prefabs: EditorPrefabs;
   private undoStack: EditorState[] = [];
   private redoStack: EditorState[] = [];
 
-  constructor(gameState: GameState) {
+  constructor(gameState: GameState, prefabs: EditorPrefabs) {
     this.gameState = gameState;
+    this.prefabs = prefabs;
   }
 
   pushUndoState(scrollPosition: Vector2): void {
-    // Deep copy relevant arrays and player position
-    this.undoStack.push({
-      platforms: this.gameState.platforms.map((p) => ({
-        position: p.position.copy(),
-        size: p.size.copy(),
-        color: p.color,
-      })),
-      solidBlocks: this.gameState.solidBlocks.map((sb) => ({
-        position: sb.position.copy(),
-        size: sb.size.copy(),
-        color: sb.color,
-      })),
-      diagonalPlatforms: this.gameState.diagonalPlatforms.map((dp) => ({
-        startPoint: dp.startPoint.copy(),
-        endPoint: dp.endPoint.copy(),
-        thickness: dp.thickness,
-        color: dp.color,
-      })),
-      memoryCrystals: this.gameState.memoryCrystals.map((c) => ({
-        position: c.position.copy(),
-        type: c.crystalType,
-      })),
-      enemies: this.gameState.enemies.map((e) => ({
-        position: e.position.copy(),
-        type: e.type,
-        direction: e.direction,
-      })),
-      player: { position: this.gameState.player.position.copy() },
-      scrollPosition: scrollPosition.copy(),
-    });
+    this.undoStack.push(this.captureCurrentState(scrollPosition));
 
     // Limit stack size
     if (this.undoStack.length > 100) this.undoStack.shift();
@@ -78,7 +55,11 @@ export class EditorStateManager {
     return scrollPosition;
   }
 
-  private captureCurrentState(scrollPosition: Vector2): EditorState {
+  /**
+   * Deep copy of everything that ends up in the saved level, plus the scroll position and
+   * which objects are placed prefabs
+   */
+  captureCurrentState(scrollPosition: Vector2): EditorState {
     return {
       platforms: this.gameState.platforms.map((p) => ({
         position: p.position.copy(),
@@ -105,12 +86,36 @@ export class EditorStateManager {
         type: e.type,
         direction: e.direction,
       })),
+      checkpoints: this.gameState.checkpoints.map((c) => ({ position: c.position.copy() })),
+      doors: this.gameState.doors.map((d) => ({
+        position: d.position.copy(),
+        size: d.size.copy(),
+        targetLevelId: d.targetLevelId,
+        targetEntryId: d.targetEntryId,
+      })),
+      entryPoints: this.gameState.entryPoints.map((e) => ({ id: e.id, position: e.position.copy() })),
+      background: {
+        color: this.gameState.backgroundColor,
+        elements: this.gameState.backgroundElements.map((e) => ({
+          type: e.type,
+          position: e.position.copy(),
+          size: e.size.copy(),
+          color: e.color,
+        })),
+      },
+      weather: this.gameState.weatherSystem.getLevelWeather(),
+      weatherZones: this.gameState.weatherSystem.getWeatherZones(),
+      tileMap: this.gameState.tileMap?.toData(),
       player: { position: this.gameState.player.position.copy() },
+      prefabLinks: this.prefabs.captureLinks(),
       scrollPosition: scrollPosition.copy(),
     };
   }
 
-  private restoreState(state: EditorState): void {
+  /**
+   * Rebuild the level's objects from a captured state. Leaves the undo and redo stacks alone.
+   */
+  restoreState(state: EditorState): void {
     // Restore platforms
     this.gameState.platforms = state.platforms.map(
       (p) =>
@@ -148,21 +153,58 @@ export class EditorStateManager {
 
     // Restore memory crystals
     this.gameState.memoryCrystals = state.memoryCrystals.map(
-      (c) => new MemoryCrystal(c.position.x, c.position.y, c.type),
+      (c) => new MemoryCrystal(c.position.x, c.position.y, c.type, this.gameState.random),
     );
 
     // Restore enemies
     this.gameState.enemies = state.enemies.map((e) => {
       const enemyType = e.type || "landghost"; // Default to landghost for backward compatibility
       if (enemyType === "ghost") {
-        return new Ghost(e.position.x, e.position.y, e.direction);
+        return new Ghost(e.position.x, e.position.y, e.direction, this.gameState.random);
       } else {
-        return new LandGhost(e.position.x, e.position.y, e.direction);
+        return new LandGhost(e.position.x, e.position.y, e.direction, this.gameState.random);
       }
     });
 
+    // Restore checkpoints
+    this.gameState.checkpoints = (state.checkpoints || []).map(
+      (c) => new Checkpoint(c.position.x, c.position.y),
+    );
+
+    // Restore doors
+    this.gameState.doors = (state.doors || []).map(
+      (d) =>
+        new Door({
+          x: d.position.x,
+          y: d.position.y,
+          width: d.size.x,
+          height: d.size.y,
+          targetLevelId: d.targetLevelId,
+          targetEntryId: d.targetEntryId,
+        }),
+    );
+
+    // Restore entry points and background
+    this.gameState.entryPoints = state.entryPoints.map((e) => ({ id: e.id, position: e.position.copy() }));
+    this.gameState.backgroundColor = state.background.color;
+    this.gameState.backgroundElements = state.background.elements.map((e) => ({
+      type: e.type,
+      position: e.position.copy(),
+      size: e.size.copy(),
+      color: e.color,
+    }));
+
+    // Restore weather
+    this.gameState.weatherSystem.loadLevelWeather(state.weather, state.weatherZones);
+
+    // Restore tiles
+    this.gameState.tileMap = state.tileMap ? new TileMap(state.tileMap) : null;
+
     // Restore player
     this.gameState.player.position.x = state.player.position.x;
     this.gameState.player.position.y = state.player.position.y;
+
+    // Relink placed prefabs to the rebuilt objects
+    this.prefabs.restoreLinks(state.prefabLinks);
   }
 }
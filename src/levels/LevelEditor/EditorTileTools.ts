@@ -0,0 +1,122 @@
+import type { GameState } from "@/engine/GameState";
+import { DEFAULT_TILE_SIZE, DEFAULT_TILESET, EMPTY_TILE, TileMap } from "@/engine/TileMap";
+import type { Vector2 } from "@/engine/Vector2";
+import type { TileTypeData } from "../LevelData";
+import type { EditorLayers } from "./EditorLayers";
+
+/**
+ * Paint, erase, flood fill and rectangle fill on the level's tile map
+ */
+export class EditorTileTools {
+  private gameState: GameState;
+  private layers: EditorLayers;
+  private tileId: string = DEFAULT_TILESET[0].id;
+  private levelWidth: number = 800;
+  private levelHeight: number = 600;
+
+  constructor(gameState: GameState, layers: EditorLayers) {
+    this.gameState = gameState;
+    this.layers = layers;
+  }
+
+  /**
+   * Tiles are part of the terrain layer, so hiding or locking it leaves them alone
+   */
+  canEdit(): boolean {
+    return this.layers.isEditable("terrain");
+  }
+
+  setTileId(id: string): void {
+    this.tileId = id;
+  }
+
+  getTileId(): string {
+    return this.tileId;
+  }
+
+  /**
+   * Tiles are only painted inside the level; the map grows to cover it when the level grows
+   */
+  setLevelSize(width: number, height: number): void {
+    this.levelWidth = width;
+    this.levelHeight = height;
+  }
+
+  /**
+   * The tiles the palette offers: the level's own tileset, or the default one
+   */
+  getTileset(): TileTypeData[] {
+    return this.gameState.tileMap?.getTileset() ?? DEFAULT_TILESET;
+  }
+
+  getTileSize(): number {
+    return this.gameState.tileMap?.tileSize ?? DEFAULT_TILE_SIZE;
+  }
+
+  /**
+   * Set (or with erase, clear) the cell under a world position. Returns whether anything changed.
+   */
+  paintAt(worldPos: Vector2, erase: boolean): boolean {
+    if (!this.canEdit()) return false;
+    const tileMap = this.getTileMap();
+    const { column, row } = tileMap.cellAt(worldPos);
+    return tileMap.setTile(column, row, erase ? EMPTY_TILE : this.tileId);
+  }
+
+  /**
+   * Flood fill from the cell under a world position. Returns how many cells changed.
+   */
+  fillAt(worldPos: Vector2): number {
+    if (!this.canEdit()) return 0;
+    const tileMap = this.getTileMap();
+    const { column, row } = tileMap.cellAt(worldPos);
+    return tileMap.floodFill(column, row, this.tileId);
+  }
+
+  /**
+   * Fill every cell between the cells under two world positions. Returns how many cells changed.
+   */
+  fillRect(from: Vector2, to: Vector2): number {
+    if (!this.canEdit()) return 0;
+    const tileMap = this.getTileMap();
+    const start = tileMap.cellAt(from);
+    const end = tileMap.cellAt(to);
+    return tileMap.fillRect(start.column, start.row, end.column, end.row, this.tileId);
+  }
+
+  /**
+   * The cells a tool would touch, as a world rectangle: the one under `to`, or from `from` to `to`
+   */
+  getCellBounds(to: Vector2, from?: Vector2): { x: number; y: number; w: number; h: number } {
+    const size = this.getTileSize();
+    const cell = (pos: Vector2) => ({
+      column: Math.floor(pos.x / size),
+      row: Math.floor(pos.y / size),
+    });
+    const end = cell(to);
+    const start = from ? cell(from) : end;
+    const column = Math.min(start.column, end.column);
+    const row = Math.min(start.row, end.row);
+    return {
+      x: column * size,
+      y: row * size,
+      w: (Math.abs(end.column - start.column) + 1) * size,
+      h: (Math.abs(end.row - start.row) + 1) * size,
+    };
+  }
+
+  /**
+   * The level's tile map, created on first use and grown to cover the level
+   */
+  private getTileMap(): TileMap {
+    if (!this.gameState.tileMap) {
+      this.gameState.tileMap = TileMap.createEmpty(this.levelWidth, this.levelHeight);
+    }
+    const tileMap = this.gameState.tileMap;
+    tileMap.ensureSize(
+      Math.ceil(this.levelWidth / tileMap.tileSize),
+      Math.ceil(this.levelHeight / tileMap.tileSize),
+    );
+    return tileMap;
+  }
+}
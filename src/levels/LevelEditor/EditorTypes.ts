@@ -1,4 +1,6 @@
 import type { Vector2 } from "@/engine/Vector2";
+import type { TileMapData, WeatherData, WeatherZoneData } from "@/levels/LevelData";
+import type { Checkpoint } from "@/objects/checkpoint";
 import type { DiagonalPlatform } from "@/objects/diagonalPlatform";
 import type { Ghost } from "@/objects/enemies/Ghost";
 import type { LandGhost } from "@/objects/enemies/LandGhost";
@@ -19,13 +21,39 @@ export interface EditorDiagonalPlatform {
   color: string;
 }
 
+// The level lists a prefab instance's objects can live in
+export type PrefabMemberList =
+  | "platforms"
+  | "solidBlocks"
+  | "diagonalPlatforms"
+  | "memoryCrystals"
+  | "enemies"
+  | "checkpoints";
+
+// A placed prefab as undo keeps it: its objects by position in the level lists
+export interface PrefabLinkState {
+  prefabId: string;
+  members: { list: PrefabMemberList; index: number }[];
+}
+
 export interface EditorState {
   platforms: { position: Vector2; size: Vector2; color: string }[];
   solidBlocks: { position: Vector2; size: Vector2; color: string }[];
   diagonalPlatforms: { startPoint: Vector2; endPoint: Vector2; thickness: number; color: string }[];
   memoryCrystals: { position: Vector2; type?: string }[];
   enemies: { position: Vector2; type: string; direction?: number }[];
+  checkpoints: { position: Vector2 }[];
+  doors: { position: Vector2; size: Vector2; targetLevelId: string; targetEntryId: string }[];
+  entryPoints: { id: string; position: Vector2 }[];
+  background: {
+    color: string;
+    elements: { type: string; position: Vector2; size: Vector2; color: string }[];
+  };
+  weather: WeatherData | undefined;
+  weatherZones: WeatherZoneData[];
+  tileMap: TileMapData | undefined;
   player: { position: Vector2 };
+  prefabLinks: PrefabLinkState[];
   scrollPosition: Vector2;
 }
 
@@ -62,6 +90,7 @@ export type EditorObject =
   | MemoryCrystal
   | LandGhost
   | Ghost
+  | Checkpoint
   | object
   | null;
 
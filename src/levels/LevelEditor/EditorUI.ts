@@ -1,38 +1,75 @@
+import { drawTile } from "@/engine/TileRenderer";
+import type { TileTypeData } from "../LevelData";
+import type { InspectorField } from "./EditorInspector";
+import type { EditorLayerId, EditorLayerState } from "./EditorLayers";
+import type { LintProblem } from "./EditorLint";
 import { EditorMode } from "./EditorModes";
+import type { PrefabSummary } from "./EditorPrefabs";
 
 export class EditorUI {
   private editorContainer: HTMLDivElement | null = null;
   private scrollIndicator: HTMLDivElement | null = null;
+  private playtesting = false;
   private onModeChange: (mode: EditorMode) => void;
   private onUndo: () => void;
   private onRedo: () => void;
   private onSave: () => void;
+  private onWeather: () => void;
+  private onPlaytest: () => void;
   private onClose: () => void;
   private onColorChange: (color: string) => void;
   private onCrystalTypeChange: (type: string) => void;
   private onLevelSizeChange: (width: number, height: number) => void;
   private onDirectionChange: (direction: number) => void;
+  private onInspectorChange: (key: string, value: string | number, startsEdit: boolean) => void;
+  private onTileChange: (id: string) => void;
+  private onLayerToggle: (layer: EditorLayerId, toggle: "visible" | "locked" | "solo") => void;
+  private onLint: () => void;
+  private onLintSelect: (index: number) => void;
+  private onPrefabSelect: (id: string) => void;
+  private onPrefabAction: (action: "save" | "update" | "delete" | "export") => void;
+  private onPrefabImport: (file: File) => void;
 
   constructor(callbacks: {
     onModeChange: (mode: EditorMode) => void;
     onUndo: () => void;
     onRedo: () => void;
     onSave: () => void;
+    onWeather: () => void;
+    onPlaytest: () => void;
     onClose: () => void;
     onColorChange: (color: string) => void;
     onCrystalTypeChange: (type: string) => void;
     onLevelSizeChange: (width: number, height: number) => void;
     onDirectionChange: (direction: number) => void;
+    onInspectorChange: (key: string, value: string | number, startsEdit: boolean) => void;
+    onTileChange: (id: string) => void;
+    onLayerToggle: (layer: EditorLayerId, toggle: "visible" | "locked" | "solo") => void;
+    onLint: () => void;
+    onLintSelect: (index: number) => void;
+    onPrefabSelect: (id: string) => void;
+    onPrefabAction: (action: "save" | "update" | "delete" | "export") => void;
+    onPrefabImport: (file: File) => void;
   }) {
     this.onModeChange = callbacks.onModeChange;
     this.onUndo = callbacks.onUndo;
     this.onRedo = callbacks.onRedo;
     this.onSave = callbacks.onSave;
+    this.onWeather = callbacks.onWeather;
+    this.onPlaytest = callbacks.onPlaytest;
     this.onClose = callbacks.onClose;
     this.onColorChange = callbacks.onColorChange;
     this.onCrystalTypeChange = callbacks.onCrystalTypeChange;
     this.onLevelSizeChange = callbacks.onLevelSizeChange;
     this.onDirectionChange = callbacks.onDirectionChange;
+    this.onInspectorChange = callbacks.onInspectorChange;
+    this.onTileChange = callbacks.onTileChange;
+    this.onLayerToggle = callbacks.onLayerToggle;
+    this.onLint = callbacks.onLint;
+    this.onLintSelect = callbacks.onLintSelect;
+    this.onPrefabSelect = callbacks.onPrefabSelect;
+    this.onPrefabAction = callbacks.onPrefabAction;
+    this.onPrefabImport = callbacks.onPrefabImport;
   }
 
   createEditorUI(
@@ -147,8 +184,9 @@ export class EditorUI {
     scrollInstructions.style.marginBottom = "10px";
     scrollInstructions.style.color = "#aaa";
     scrollInstructions.innerHTML =
-      "Scroll: Middle mouse drag, mouse wheel, or arrow keys<br>" +
-      "Hold Shift + arrows for faster scrolling";
+      "Scroll: Middle mouse drag, arrow keys, or Shift/Alt + mouse wheel<br>" +
+      "Hold Shift + arrows for faster scrolling<br>" +
+      "Zoom: Mouse wheel; click the minimap to jump";
     container.appendChild(scrollInstructions);
   }
 
@@ -185,8 +223,14 @@ export class EditorUI {
     createModeButton(EditorMode.MEMORY_CRYSTAL, "Memory Crystal");
     createModeButton(EditorMode.GHOST, "Ghost");
     createModeButton(EditorMode.LANDGHOST, "Land Ghost");
+    createModeButton(EditorMode.CHECKPOINT, "Checkpoint");
     createModeButton(EditorMode.PLAYER, "Player");
     createModeButton(EditorMode.DELETE, "Delete");
+    createModeButton(EditorMode.TILE_PAINT, "Tile Paint");
+    createModeButton(EditorMode.TILE_ERASE, "Tile Erase");
+    createModeButton(EditorMode.TILE_FILL, "Tile Fill");
+    createModeButton(EditorMode.TILE_RECT, "Tile Rect");
+    createModeButton(EditorMode.PREFAB, "Prefab");
 
     container.appendChild(modeContainer);
   }
@@ -280,6 +324,33 @@ export class EditorUI {
     redoButton.addEventListener("click", () => this.onRedo());
     actionContainer.appendChild(redoButton);
 
+    // Weather button
+    const weatherButton = document.createElement("button");
+    weatherButton.textContent = "Weather";
+    weatherButton.className = "arcade-button";
+    weatherButton.style.margin = "0 5px 0 0";
+    weatherButton.addEventListener("click", () => this.onWeather());
+    actionContainer.appendChild(weatherButton);
+
+    // Playtest button (starts where the mouse last was over the canvas)
+    const playtestButton = document.createElement("button");
+    playtestButton.textContent = "Play from Here (T)";
+    playtestButton.className = "arcade-button";
+    playtestButton.style.margin = "0 5px 0 0";
+    playtestButton.addEventListener("click", () => {
+      playtestButton.blur(); // Keep Space for jumping, not re-clicking
+      this.onPlaytest();
+    });
+    actionContainer.appendChild(playtestButton);
+
+    // Check button (saving runs the same checks)
+    const lintButton = document.createElement("button");
+    lintButton.textContent = "Check Level";
+    lintButton.className = "arcade-button";
+    lintButton.style.margin = "0 5px 0 0";
+    lintButton.addEventListener("click", () => this.onLint());
+    actionContainer.appendChild(lintButton);
+
     // Save button
     const saveButton = document.createElement("button");
     saveButton.textContent = "Save Level";
@@ -315,14 +386,37 @@ export class EditorUI {
     indicator.style.border = "1px solid #D4AF37";
     indicator.style.boxShadow = "0 0 10px rgba(212, 175, 55, 0.3)";
     indicator.textContent = "Scroll: 0, 0";
+    // During a playtest the indicator is the way back when no key is free for it
+    indicator.addEventListener("click", () => {
+      if (this.playtesting) this.onPlaytest();
+    });
 
     document.body.appendChild(indicator);
     this.scrollIndicator = indicator;
   }
 
-  updateScrollIndicator(x: number, y: number): void {
+  /**
+   * Hide the editor panel while the game runs, and say how to get back: the return key,
+   * or null when the game has that key and only clicking the indicator works
+   */
+  setPlaytestMode(active: boolean, returnKey: string | null = null): void {
+    this.playtesting = active;
+    if (this.editorContainer) {
+      this.editorContainer.style.display = active ? "none" : "";
+    }
+    if (this.scrollIndicator) {
+      this.scrollIndicator.style.cursor = active ? "pointer" : "";
+      if (active) {
+        const howToReturn = returnKey ? `press ${returnKey} or click here` : "click here";
+        this.scrollIndicator.textContent = `Playtesting - ${howToReturn} to return to the editor`;
+      }
+    }
+  }
+
+  updateScrollIndicator(x: number, y: number, zoom: number = 1): void {
     if (!this.scrollIndicator) return;
-    this.scrollIndicator.textContent = `Scroll: ${Math.round(x)}, ${Math.round(y)}`;
+    const scroll = `Scroll: ${Math.round(x)}, ${Math.round(y)}`;
+    this.scrollIndicator.textContent = `${scroll} | Zoom: ${Math.round(zoom * 100)}%`;
   }
 
   getEditorContainer(): HTMLDivElement | null {
@@ -355,7 +449,8 @@ export class EditorUI {
       infoContainer.appendChild(text);
 
       const deleteHint = document.createElement("div");
-      deleteHint.textContent = "Press Delete or Backspace to remove";
+      deleteHint.textContent =
+        "Delete/Backspace removes, Ctrl+C/X/V/D copy, cut, paste, duplicate; drag or arrow keys move";
       deleteHint.style.fontSize = "11px";
       deleteHint.style.color = "#aaa";
       infoContainer.appendChild(deleteHint);
@@ -427,6 +522,356 @@ export class EditorUI {
     container.appendChild(directionContainer);
   }
 
+  /**
+   * Typed inputs for the selection's shared fields. Edits apply as they are typed;
+   * everything from focusing an input to leaving it is reported as one edit.
+   */
+  createInspector(container: HTMLDivElement, fields: InspectorField[], count: number): void {
+    // Remove any existing inspector
+    const existingInspector = container.querySelector(".inspector");
+    if (existingInspector) {
+      existingInspector.remove();
+    }
+
+    if (fields.length === 0) return;
+
+    const inspector = document.createElement("div");
+    inspector.className = "inspector";
+    inspector.style.marginTop = "10px";
+    inspector.style.padding = "10px";
+    inspector.style.backgroundColor = "rgba(255, 255, 255, 0.1)";
+    inspector.style.borderRadius = "3px";
+    inspector.style.display = "grid";
+    inspector.style.gridTemplateColumns = "auto 1fr";
+    inspector.style.gap = "4px 8px";
+    inspector.style.alignItems = "center";
+
+    const title = document.createElement("div");
+    title.textContent = count > 1 ? `Properties (${count} objects)` : "Properties";
+    title.style.fontWeight = "bold";
+    title.style.gridColumn = "1 / -1";
+    inspector.appendChild(title);
+
+    for (const field of fields) {
+      const label = document.createElement("label");
+      label.textContent = field.label;
+      label.style.fontSize = "12px";
+      inspector.appendChild(label);
+
+      let input: HTMLInputElement | HTMLSelectElement;
+      if (field.type === "select") {
+        const select = document.createElement("select");
+        if (field.value === undefined) {
+          const mixed = document.createElement("option");
+          mixed.value = "";
+          mixed.textContent = "(mixed)";
+          mixed.disabled = true;
+          select.appendChild(mixed);
+        }
+        for (const option of field.options ?? []) {
+          const optionElement = document.createElement("option");
+          optionElement.value = option.value;
+          optionElement.textContent = option.label;
+          select.appendChild(optionElement);
+        }
+        select.value = field.value === undefined ? "" : String(field.value);
+        input = select;
+      } else {
+        const textInput = document.createElement("input");
+        textInput.type = field.type;
+        if (field.value !== undefined) {
+          textInput.value = String(field.value);
+        } else if (field.type === "number") {
+          textInput.placeholder = "mixed";
+        } else {
+          // Color inputs can't be blank; the label says the colors differ instead
+          label.textContent = `${field.label} (mixed)`;
+        }
+        input = textInput;
+      }
+      input.style.width = "80px";
+
+      let editing = false;
+      input.addEventListener("input", () => {
+        const value = field.type === "number" ? parseFloat(input.value) : input.value;
+        if (typeof value === "number" && !Number.isFinite(value)) return;
+        this.onInspectorChange(field.key, value, !editing);
+        editing = true;
+      });
+      input.addEventListener("change", () => {
+        editing = false;
+      });
+
+      inspector.appendChild(input);
+    }
+
+    container.appendChild(inspector);
+  }
+
+  /**
+   * Swatches for the tiles the tile tools paint with
+   */
+  createTilePalette(container: HTMLDivElement, tileset: TileTypeData[], selectedId: string): void {
+    // Remove any existing palette
+    const existingPalette = container.querySelector(".tile-palette");
+    if (existingPalette) {
+      existingPalette.remove();
+    }
+
+    const palette = document.createElement("div");
+    palette.className = "tile-palette";
+    palette.style.marginBottom = "10px";
+
+    const title = document.createElement("div");
+    title.textContent = "Tiles:";
+    title.style.marginBottom = "5px";
+    palette.appendChild(title);
+
+    const swatches = document.createElement("div");
+    swatches.style.display = "flex";
+    swatches.style.flexWrap = "wrap";
+    swatches.style.gap = "5px";
+
+    for (const type of tileset) {
+      const button = document.createElement("button");
+      button.className = "arcade-button";
+      const flags = [
+        type.solid && "solid",
+        type.oneWay && "one-way",
+        type.slope && `slope ${type.slope}`,
+      ].filter(Boolean);
+      button.title = [type.name, ...flags].join(", ");
+      button.style.padding = "3px";
+      if (type.id === selectedId) {
+        button.classList.add("selected");
+      }
+
+      const swatch = document.createElement("canvas");
+      swatch.width = 24;
+      swatch.height = 24;
+      swatch.style.display = "block";
+      const ctx = swatch.getContext("2d");
+      if (ctx) drawTile(ctx, type, 0, 0, 24);
+      button.appendChild(swatch);
+
+      button.addEventListener("click", () => {
+        this.onTileChange(type.id);
+        Array.from(swatches.children).forEach((btn) => {
+          (btn as HTMLButtonElement).classList.remove("selected");
+        });
+        button.classList.add("selected");
+      });
+      swatches.appendChild(button);
+    }
+
+    palette.appendChild(swatches);
+    container.appendChild(palette);
+  }
+
+  /**
+   * One row per layer: show/hide, lock, and "select only this layer"
+   */
+  createLayerPanel(container: HTMLDivElement, layers: EditorLayerState[]): void {
+    // Remove any existing layer panel
+    const existingPanel = container.querySelector(".layer-panel");
+    if (existingPanel) {
+      existingPanel.remove();
+    }
+
+    const panel = document.createElement("div");
+    panel.className = "layer-panel";
+    panel.style.marginBottom = "10px";
+    panel.style.display = "grid";
+    panel.style.gridTemplateColumns = "auto repeat(3, min-content)";
+    panel.style.gap = "3px 5px";
+    panel.style.alignItems = "center";
+    panel.style.fontSize = "12px";
+
+    const title = document.createElement("div");
+    title.textContent = "Layers:";
+    title.style.gridColumn = "1 / -1";
+    panel.appendChild(title);
+
+    const createToggle = (
+      layer: EditorLayerState,
+      toggle: "visible" | "locked" | "solo",
+      label: string,
+      hint: string,
+    ) => {
+      const button = document.createElement("button");
+      button.textContent = label;
+      button.title = hint;
+      button.className = "arcade-button";
+      button.style.padding = "2px 6px";
+      button.style.fontSize = "11px";
+      if (layer[toggle]) {
+        button.classList.add("selected");
+      }
+      button.addEventListener("click", () => this.onLayerToggle(layer.id, toggle));
+      panel.appendChild(button);
+    };
+
+    for (const layer of layers) {
+      const label = document.createElement("span");
+      label.textContent = layer.label;
+      label.style.opacity = layer.visible ? "1" : "0.5";
+      panel.appendChild(label);
+
+      createToggle(layer, "visible", "Show", `Show ${layer.label.toLowerCase()} in the editor`);
+      if (layer.selectable) {
+        createToggle(layer, "locked", "Lock", "Locked objects can't be selected or deleted");
+        createToggle(layer, "solo", "Only", "Select only from this layer");
+      } else {
+        // Keep the grid rows aligned
+        panel.appendChild(document.createElement("span"));
+        panel.appendChild(document.createElement("span"));
+      }
+    }
+
+    container.appendChild(panel);
+  }
+
+  /**
+   * The prefab library: pick the prefab that Prefab mode places, and save, update, delete,
+   * export or import prefabs
+   */
+  createPrefabPanel(
+    container: HTMLDivElement,
+    prefabs: PrefabSummary[],
+    selectedId: string | undefined,
+  ): void {
+    // Remove any existing prefab panel
+    const existingPanel = container.querySelector(".prefab-panel");
+    if (existingPanel) {
+      existingPanel.remove();
+    }
+
+    const panel = document.createElement("div");
+    panel.className = "prefab-panel";
+    panel.style.marginBottom = "10px";
+    panel.style.fontSize = "12px";
+
+    const title = document.createElement("div");
+    title.textContent = prefabs.length === 0 ? "Prefabs: none saved yet" : "Prefabs:";
+    title.style.marginBottom = "5px";
+    panel.appendChild(title);
+
+    const list = document.createElement("div");
+    list.style.display = "flex";
+    list.style.flexWrap = "wrap";
+    list.style.gap = "5px";
+    list.style.marginBottom = "5px";
+    for (const prefab of prefabs) {
+      const button = document.createElement("button");
+      button.textContent = `${prefab.name} (${prefab.instanceCount} placed)`;
+      button.title = `${prefab.objectCount} object${prefab.objectCount === 1 ? "" : "s"}`;
+      button.className = "arcade-button";
+      button.style.padding = "2px 6px";
+      button.style.fontSize = "11px";
+      if (prefab.id === selectedId) {
+        button.classList.add("selected");
+      }
+      button.addEventListener("click", () => this.onPrefabSelect(prefab.id));
+      list.appendChild(button);
+    }
+    panel.appendChild(list);
+
+    const createAction = (
+      action: "save" | "update" | "delete" | "export",
+      label: string,
+      hint: string,
+      needsPrefab: boolean,
+    ) => {
+      const button = document.createElement("button");
+      button.textContent = label;
+      button.title = hint;
+      button.className = "arcade-button";
+      button.style.margin = "0 5px 5px 0";
+      button.style.padding = "2px 6px";
+      button.style.fontSize = "11px";
+      button.disabled = needsPrefab && selectedId === undefined;
+      button.addEventListener("click", () => this.onPrefabAction(action));
+      panel.appendChild(button);
+    };
+    createAction("save", "Save Selection", "Save the selected objects as a new prefab", false);
+    createAction(
+      "update",
+      "Update",
+      "Replace the picked prefab with the selected objects and rebuild its placed copies",
+      true,
+    );
+    createAction("delete", "Delete", "Remove the picked prefab from the library", true);
+    createAction("export", "Export", "Download the prefab library as JSON", false);
+
+    // Import reads a file exported from this or another browser
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = ".json,application/json";
+    fileInput.style.display = "none";
+    fileInput.addEventListener("change", () => {
+      const file = fileInput.files?.[0];
+      if (file) this.onPrefabImport(file);
+      fileInput.value = "";
+    });
+    const importButton = document.createElement("button");
+    importButton.textContent = "Import";
+    importButton.title = "Add prefabs from an exported library";
+    importButton.className = "arcade-button";
+    importButton.style.margin = "0 5px 5px 0";
+    importButton.style.padding = "2px 6px";
+    importButton.style.fontSize = "11px";
+    importButton.addEventListener("click", () => fileInput.click());
+    panel.appendChild(importButton);
+    panel.appendChild(fileInput);
+
+    container.appendChild(panel);
+  }
+
+  /**
+   * The problems from the last level check; clicking one focuses its object
+   */
+  createLintPanel(container: HTMLDivElement, problems: LintProblem[]): void {
+    // Remove any existing lint panel
+    const existingPanel = container.querySelector(".lint-panel");
+    if (existingPanel) {
+      existingPanel.remove();
+    }
+
+    const panel = document.createElement("div");
+    panel.className = "lint-panel";
+    panel.style.marginBottom = "10px";
+    panel.style.fontSize = "12px";
+
+    const title = document.createElement("div");
+    title.textContent =
+      problems.length === 0 ? "Check: no problems found" : `Check: ${problems.length} problem(s)`;
+    title.style.marginBottom = "5px";
+    panel.appendChild(title);
+
+    const list = document.createElement("div");
+    list.style.maxHeight = "120px";
+    list.style.overflowY = "auto";
+    problems.forEach((problem, index) => {
+      const row = document.createElement("div");
+      row.textContent = `${problem.severity}: ${problem.message}`;
+      row.title = "Show in the editor";
+      row.style.color = problem.severity === "error" ? "#FF6B6B" : "#FFD700";
+      row.style.padding = "2px 4px";
+      row.style.cursor = "pointer";
+      row.addEventListener("mouseenter", () => {
+        row.style.background = "rgba(212, 175, 55, 0.2)";
+      });
+      row.addEventListener("mouseleave", () => {
+        row.style.background = "";
+      });
+      row.addEventListener("click", () => this.onLintSelect(index));
+      list.appendChild(row);
+    });
+    panel.appendChild(list);
+
+    container.appendChild(panel);
+  }
+
   cleanup(): void {
     if (this.editorContainer?.parentElement) {
       this.editorContainer.parentElement.removeChild(this.editorContainer);
@@ -18,9 +18,23 @@ export class EditorUtils {
     return new Vector2(Math.floor(v.x / 16) * 16 + 8, Math.floor(v.y / 16) * 16 + 8);
   }
 
-  // Returns an array of handle positions for a given rect
-  getResizeHandles(rect: { x: number; y: number; w: number; h: number }): ResizeHandle[] {
-    const hs = EditorUtils.HANDLE_SIZE / 2;
+  /**
+   * World position under a point on the canvas (in CSS pixels)
+   */
+  screenToWorld(screenPos: Vector2, scrollPosition: Vector2, zoom: number): Vector2 {
+    return new Vector2(
+      screenPos.x / zoom + scrollPosition.x,
+      screenPos.y / zoom + scrollPosition.y,
+    );
+  }
+
+  // Returns an array of handle positions for a given rect. Handles keep their size on screen,
+  // so at other zooms they cover more or less of the world.
+  getResizeHandles(
+    rect: { x: number; y: number; w: number; h: number },
+    zoom: number = 1,
+  ): ResizeHandle[] {
+    const hs = EditorUtils.getHandleSize(zoom) / 2;
     return [
       { name: "nw", x: rect.x - hs, y: rect.y - hs },
       { name: "n", x: rect.x + rect.w / 2 - hs, y: rect.y - hs },
@@ -33,12 +47,13 @@ export class EditorUtils {
     ];
   }
 
-  isPointInHandle(point: Vector2, handle: ResizeHandle): boolean {
+  isPointInHandle(point: Vector2, handle: ResizeHandle, zoom: number = 1): boolean {
+    const size = EditorUtils.getHandleSize(zoom);
     return (
       point.x >= handle.x &&
-      point.x <= handle.x + EditorUtils.HANDLE_SIZE &&
+      point.x <= handle.x + size &&
       point.y >= handle.y &&
-      point.y <= handle.y + EditorUtils.HANDLE_SIZE
+      point.y <= handle.y + size
     );
   }
 
@@ -102,11 +117,15 @@ export class EditorUtils {
     canvas: HTMLCanvasElement;
     levelWidth?: number;
     levelHeight?: number;
+    zoom?: number;
   }): void {
-    const { scrollPosition, canvas, levelWidth = 800, levelHeight = 600 } = args;
-    // The visible area is the canvas size, so don't allow scrolling past the right/bottom edge
-    const maxX = Math.max(0, levelWidth - canvas.width);
-    const maxY = Math.max(0, levelHeight - canvas.height);
+    const { scrollPosition, canvas, levelWidth = 800, levelHeight = 600, zoom = 1 } = args;
+    // The visible area is the canvas's CSS size (in world pixels at this zoom), so don't allow
+    // scrolling past the right/bottom edge. canvas.width is the backing store, which is larger
+    // on high-DPI displays
+    const rect = canvas.getBoundingClientRect();
+    const maxX = Math.max(0, levelWidth - rect.width / zoom);
+    const maxY = Math.max(0, levelHeight - rect.height / zoom);
     scrollPosition.x = Math.max(0, Math.min(scrollPosition.x, maxX));
     scrollPosition.y = Math.max(0, Math.min(scrollPosition.y, maxY));
   }
@@ -115,14 +134,18 @@ export class EditorUtils {
     ctx: CanvasRenderingContext2D;
     scrollPosition: Vector2;
     canvas: HTMLCanvasElement;
+    zoom?: number;
   }): void {
-    const { ctx, scrollPosition, canvas } = args;
+    const { ctx, scrollPosition, canvas, zoom = 1 } = args;
 
     // Calculate grid boundaries in world space (slightly extended to avoid gaps at edges)
     const startX = Math.floor(scrollPosition.x / 16) * 16;
     const startY = Math.floor(scrollPosition.y / 16) * 16;
-    const endX = startX + canvas.width + 32;
-    const endY = startY + canvas.height + 32;
+    const rect = canvas.getBoundingClientRect();
+    const endX = startX + rect.width / zoom + 32;
+    const endY = startY + rect.height / zoom + 32;
+    // Zoomed far out the 16px lines would fill the view, so only the coarser ones are drawn
+    const showMinor = zoom >= 0.5;
 
     // Helper to draw a single line with the desired opacity and width
     const drawLine = (
@@ -153,7 +176,7 @@ export class EditorUtils {
       } else if (is32) {
         // Medium line every 32px
         drawLine(x, startY, x, endY, 0.35, 1);
-      } else {
+      } else if (showMinor) {
         // Minor 16px grid line
         drawLine(x, startY, x, endY, 0.15, 0.5);
       }
@@ -169,7 +192,7 @@ export class EditorUtils {
         drawLine(startX, y, endX, y, 0.5, 1.5);
       } else if (is32) {
         drawLine(startX, y, endX, y, 0.35, 1);
-      } else {
+      } else if (showMinor) {
         drawLine(startX, y, endX, y, 0.15, 0.5);
       }
     }
@@ -178,7 +201,7 @@ export class EditorUtils {
     ctx.lineWidth = 1;
   }
 
-  static getHandleSize(): number {
-    return EditorUtils.HANDLE_SIZE;
+  static getHandleSize(zoom: number = 1): number {
+    return EditorUtils.HANDLE_SIZE / zoom;
   }
 }
@@ -0,0 +1,259 @@
+import { WEATHER_MODE_INTENSITY } from "@/effects/WeatherSystem";
+import type { GameState } from "@/engine/GameState";
+import { Vector2 } from "@/engine/Vector2";
+import type { WeatherData, WeatherMode, WeatherZoneData } from "../LevelData";
+
+const WEATHER_MODES = Object.keys(WEATHER_MODE_INTENSITY) as WeatherMode[];
+
+/**
+ * Modal for editing the level's weather and its weather zones
+ */
+export class EditorWeatherPanel {
+  private gameState: GameState;
+  private onPushUndoState: () => void;
+
+  constructor(gameState: GameState, onPushUndoState: () => void) {
+    this.gameState = gameState;
+    this.onPushUndoState = onPushUndoState;
+  }
+
+  /**
+   * @param viewPosition Top-left of the editor view, where new zones are placed
+   */
+  open(viewPosition: Vector2): void {
+    // Edit copies; nothing changes until Apply
+    const weather: WeatherData = this.gameState.weatherSystem.getLevelWeather() ?? {};
+    const zones = this.gameState.weatherSystem.getWeatherZones();
+
+    const modal = document.createElement("div");
+    Object.assign(modal.style, {
+      position: "fixed",
+      top: "0",
+      left: "0",
+      width: "100%",
+      height: "100%",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      backgroundColor: "rgba(0,0,0,0.6)",
+      zIndex: "1002",
+    });
+
+    const form = document.createElement("div");
+    Object.assign(form.style, {
+      backgroundColor: "#222",
+      padding: "20px",
+      borderRadius: "8px",
+      width: "420px",
+      maxHeight: "80vh",
+      overflowY: "auto",
+      color: "white",
+      fontFamily: "monospace",
+    });
+
+    const title = document.createElement("h3");
+    title.textContent = "Weather";
+    title.style.marginTop = "0";
+    form.appendChild(title);
+
+    form.appendChild(this.createWeatherFields(weather));
+
+    const zoneList = document.createElement("div");
+    const renderZones = () => {
+      zoneList.replaceChildren();
+      zones.forEach((zone, index) => {
+        zoneList.appendChild(
+          this.createZoneFields(zone, index, () => {
+            zones.splice(index, 1);
+            renderZones();
+          }),
+        );
+      });
+    };
+    renderZones();
+    form.appendChild(zoneList);
+
+    const addZoneBtn = document.createElement("button");
+    addZoneBtn.textContent = "Add Zone";
+    addZoneBtn.style.marginBottom = "10px";
+    addZoneBtn.onclick = () => {
+      zones.push({
+        position: new Vector2(Math.round(viewPosition.x) + 200, Math.round(viewPosition.y) + 150),
+        size: new Vector2(400, 300),
+        weather: { indoor: true },
+      });
+      renderZones();
+    };
+    form.appendChild(addZoneBtn);
+
+    const buttonContainer = document.createElement("div");
+    Object.assign(buttonContainer.style, {
+      display: "flex",
+      justifyContent: "flex-end",
+      gap: "8px",
+    });
+
+    const cancelBtn = document.createElement("button");
+    cancelBtn.textContent = "Cancel";
+    cancelBtn.onclick = () => document.body.removeChild(modal);
+    buttonContainer.appendChild(cancelBtn);
+
+    const applyBtn = document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.onclick = () => {
+      document.body.removeChild(modal);
+      this.onPushUndoState();
+      // A level weather with no fields set is the same as none
+      const levelWeather = Object.values(weather).some((value) => value !== undefined)
+        ? weather
+        : undefined;
+      this.gameState.weatherSystem.loadLevelWeather(levelWeather, zones);
+    };
+    buttonContainer.appendChild(applyBtn);
+
+    form.appendChild(buttonContainer);
+    modal.appendChild(form);
+    document.body.appendChild(modal);
+  }
+
+  private createZoneFields(
+    zone: WeatherZoneData,
+    index: number,
+    onDelete: () => void,
+  ): HTMLElement {
+    const fieldset = document.createElement("fieldset");
+    Object.assign(fieldset.style, { marginBottom: "10px", border: "1px solid #555" });
+
+    const legend = document.createElement("legend");
+    legend.textContent = `Zone ${index + 1}`;
+    fieldset.appendChild(legend);
+
+    const rect = document.createElement("div");
+    rect.style.marginBottom = "6px";
+    for (const [label, vector, axis] of [
+      ["x", zone.position, "x"],
+      ["y", zone.position, "y"],
+      ["w", zone.size, "x"],
+      ["h", zone.size, "y"],
+    ] as const) {
+      rect.appendChild(
+        this.createNumberInput(label, vector[axis], (value) => {
+          if (value !== undefined) vector[axis] = value;
+        }),
+      );
+    }
+    fieldset.appendChild(rect);
+
+    fieldset.appendChild(this.createWeatherFields(zone.weather));
+
+    const deleteBtn = document.createElement("button");
+    deleteBtn.textContent = "Delete";
+    deleteBtn.onclick = onDelete;
+    fieldset.appendChild(deleteBtn);
+
+    return fieldset;
+  }
+
+  /**
+   * Inputs bound to a weather block; an empty input leaves the field unset
+   */
+  private createWeatherFields(weather: WeatherData): HTMLElement {
+    const fields = document.createElement("div");
+    Object.assign(fields.style, {
+      display: "flex",
+      flexWrap: "wrap",
+      gap: "6px",
+      marginBottom: "10px",
+    });
+
+    const modeSelect = document.createElement("select");
+    for (const mode of ["", ...WEATHER_MODES]) {
+      const option = document.createElement("option");
+      option.value = mode;
+      option.textContent = mode || "(no mode)";
+      modeSelect.appendChild(option);
+    }
+    modeSelect.value = weather.mode ?? "";
+    modeSelect.onchange = () => {
+      weather.mode = (modeSelect.value || undefined) as WeatherMode | undefined;
+    };
+    fields.appendChild(modeSelect);
+
+    fields.appendChild(
+      this.createNumberInput("min", weather.minIntensity, (value) => {
+        weather.minIntensity = value;
+      }),
+    );
+    fields.appendChild(
+      this.createNumberInput("max", weather.maxIntensity, (value) => {
+        weather.maxIntensity = value;
+      }),
+    );
+
+    for (const key of ["lightning", "indoor"] as const) {
+      fields.appendChild(
+        this.createTristateSelect(key, weather[key], (value) => {
+          weather[key] = value;
+        }),
+      );
+    }
+
+    const setWind = (axis: "x" | "y", value: number | undefined) => {
+      const wind = weather.wind ?? new Vector2(0, 0);
+      wind[axis] = value ?? 0;
+      weather.wind = wind.x === 0 && wind.y === 0 ? undefined : wind;
+    };
+    fields.appendChild(
+      this.createNumberInput("wind x", weather.wind?.x, (value) => setWind("x", value)),
+    );
+    fields.appendChild(
+      this.createNumberInput("wind y", weather.wind?.y, (value) => setWind("y", value)),
+    );
+
+    return fields;
+  }
+
+  private createNumberInput(
+    label: string,
+    value: number | undefined,
+    onChange: (value: number | undefined) => void,
+  ): HTMLElement {
+    const wrapper = document.createElement("label");
+    wrapper.textContent = `${label} `;
+
+    const input = document.createElement("input");
+    input.type = "number";
+    input.step = "any";
+    input.value = value !== undefined ? String(value) : "";
+    input.style.width = "60px";
+    input.onchange = () => {
+      const parsed = parseFloat(input.value);
+      onChange(Number.isFinite(parsed) ? parsed : undefined);
+    };
+    wrapper.appendChild(input);
+    return wrapper;
+  }
+
+  private createTristateSelect(
+    label: string,
+    value: boolean | undefined,
+    onChange: (value: boolean | undefined) => void,
+  ): HTMLElement {
+    const wrapper = document.createElement("label");
+    wrapper.textContent = `${label} `;
+
+    const select = document.createElement("select");
+    for (const optionValue of ["", "true", "false"]) {
+      const option = document.createElement("option");
+      option.value = optionValue;
+      option.textContent = optionValue || "default";
+      select.appendChild(option);
+    }
+    select.value = value === undefined ? "" : String(value);
+    select.onchange = () => {
+      onChange(select.value === "" ? undefined : select.value === "true");
+    };
+    wrapper.appendChild(select);
+    return wrapper;
+  }
+}
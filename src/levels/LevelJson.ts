@@ -0,0 +1,263 @@
+import { Vector2 } from "@/engine/Vector2";
+import type { LevelData, ParallaxLayerData, TileMapData, WeatherData } from "./LevelData";
+
+const LEVEL_FORMAT = "testavania-level";
+const LEVEL_FORMAT_VERSION = 1;
+
+// Vectors are stored as plain [x, y] pairs
+type Pair = [number, number];
+
+type WeatherJson = Omit<WeatherData, "wind"> & { wind?: Pair };
+
+interface RectJson {
+  position: Pair;
+  size: Pair;
+  color: string;
+}
+
+/**
+ * The JSON form of LevelData. Keys are always written in this order so saved files diff cleanly.
+ */
+export interface LevelJson {
+  format: typeof LEVEL_FORMAT;
+  version: typeof LEVEL_FORMAT_VERSION;
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  background: {
+    color: string;
+    elements?: Array<{ type: string; position: Pair; size: Pair; color: string }>;
+    // No vectors in here, so layers are stored as-is
+    parallax?: ParallaxLayerData[];
+  };
+  platforms: RectJson[];
+  solidBlocks: RectJson[];
+  diagonalPlatforms: Array<{ startPoint: Pair; endPoint: Pair; thickness?: number; color: string }>;
+  memoryCrystals: Array<{ position: Pair; type?: string }>;
+  enemies: Array<{ position: Pair; type?: string; direction?: number }>;
+  checkpoints?: Array<{ position: Pair }>;
+  doors?: Array<{ position: Pair; size: Pair; targetLevelId: string; targetEntryId: string }>;
+  entryPoints?: Array<{ id: string; position: Pair }>;
+  weather?: WeatherJson;
+  weatherZones?: Array<{ position: Pair; size: Pair; weather: WeatherJson }>;
+  // Rows of tile characters, stored as-is
+  tileMap?: TileMapData;
+  player: { position: Pair };
+}
+
+const pair = (v: Vector2): Pair => [v.x, v.y];
+
+const weatherJson = (weather: WeatherData): WeatherJson => {
+  const { wind, ...rest } = weather;
+  return { ...rest, ...(wind && { wind: pair(wind) }) };
+};
+
+/**
+ * Canonical JSON for a level, for sharing and for runtime loading without a rebuild
+ */
+export function serializeLevel(level: LevelData): string {
+  const json: LevelJson = {
+    format: LEVEL_FORMAT,
+    version: LEVEL_FORMAT_VERSION,
+    id: level.id,
+    name: level.name,
+    width: level.width,
+    height: level.height,
+    background: {
+      color: level.background.color,
+      ...(level.background.elements && {
+        elements: level.background.elements.map((e) => ({
+          type: e.type,
+          position: pair(e.position),
+          size: pair(e.size),
+          color: e.color,
+        })),
+      }),
+      ...(level.background.parallax && { parallax: level.background.parallax }),
+    },
+    platforms: level.platforms.map((p) => ({
+      position: pair(p.position),
+      size: pair(p.size),
+      color: p.color,
+    })),
+    solidBlocks: level.solidBlocks.map((sb) => ({
+      position: pair(sb.position),
+      size: pair(sb.size),
+      color: sb.color,
+    })),
+    diagonalPlatforms: level.diagonalPlatforms.map((dp) => ({
+      startPoint: pair(dp.startPoint),
+      endPoint: pair(dp.endPoint),
+      ...(dp.thickness !== undefined && { thickness: dp.thickness }),
+      color: dp.color,
+    })),
+    memoryCrystals: level.memoryCrystals.map((c) => ({
+      position: pair(c.position),
+      ...(c.type && { type: c.type }),
+    })),
+    enemies: level.enemies.map((e) => ({
+      position: pair(e.position),
+      ...(e.type && { type: e.type }),
+      ...(e.direction !== undefined && { direction: e.direction }),
+    })),
+    ...(level.checkpoints && {
+      checkpoints: level.checkpoints.map((c) => ({ position: pair(c.position) })),
+    }),
+    ...(level.doors && {
+      doors: level.doors.map((d) => ({
+        position: pair(d.position),
+        size: pair(d.size),
+        targetLevelId: d.targetLevelId,
+        targetEntryId: d.targetEntryId,
+      })),
+    }),
+    ...(level.entryPoints && {
+      entryPoints: level.entryPoints.map((e) => ({ id: e.id, position: pair(e.position) })),
+    }),
+    ...(level.weather && { weather: weatherJson(level.weather) }),
+    ...(level.weatherZones && {
+      weatherZones: level.weatherZones.map((z) => ({
+        position: pair(z.position),
+        size: pair(z.size),
+        weather: weatherJson(z.weather),
+      })),
+    }),
+    ...(level.tileMap && { tileMap: level.tileMap }),
+    player: { position: pair(level.player.position) },
+  };
+
+  // Pretty-print, but keep each [x, y] pair on one line
+  const text = JSON.stringify(json, null, 2).replace(
+    /\[\s*(-?[\d.e+-]+),\s*(-?[\d.e+-]+)\s*\]/g,
+    "[$1, $2]",
+  );
+  return `${text}\n`;
+}
+
+/**
+ * Read a level written by serializeLevel. Throws with a readable message if the file is not a level.
+ */
+export function parseLevel(text: string): LevelData {
+  let json: LevelJson;
+  try {
+    json = JSON.parse(text) as LevelJson;
+  } catch {
+    throw new Error("Level file is not valid JSON");
+  }
+
+  if (json?.format !== LEVEL_FORMAT) {
+    throw new Error("Not a level file (missing format marker)");
+  }
+  if (json.version !== LEVEL_FORMAT_VERSION) {
+    throw new Error(`Unsupported level format version: ${String(json.version)}`);
+  }
+  if (typeof json.id !== "string" || json.id === "" || typeof json.name !== "string") {
+    throw new Error("Level is missing its id or name");
+  }
+  if (typeof json.width !== "number" || typeof json.height !== "number") {
+    throw new Error("Level is missing its width or height");
+  }
+
+  const list = <T>(value: T[] | undefined, field: string): T[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) throw new Error(`${field} must be an array`);
+    return value;
+  };
+  const vec = (value: unknown, field: string): Vector2 => {
+    if (
+      !Array.isArray(value) ||
+      value.length !== 2 ||
+      typeof value[0] !== "number" ||
+      typeof value[1] !== "number"
+    ) {
+      throw new Error(`${field} must be an [x, y] pair`);
+    }
+    return new Vector2(value[0], value[1]);
+  };
+  const weather = (value: WeatherJson, field: string): WeatherData => {
+    const { wind, ...rest } = value;
+    return { ...rest, ...(wind !== undefined && { wind: vec(wind, `${field}.wind`) }) };
+  };
+
+  return {
+    id: json.id,
+    name: json.name,
+    width: json.width,
+    height: json.height,
+    background: {
+      color: json.background?.color ?? "#2C1810",
+      ...(json.background?.elements && {
+        elements: list(json.background.elements, "background.elements").map((e, i) => ({
+          type: e.type,
+          position: vec(e.position, `background.elements[${i}].position`),
+          size: vec(e.size, `background.elements[${i}].size`),
+          color: e.color,
+        })),
+      }),
+      ...(json.background?.parallax && {
+        parallax: list(json.background.parallax, "background.parallax"),
+      }),
+    },
+    platforms: list(json.platforms, "platforms").map((p, i) => ({
+      position: vec(p.position, `platforms[${i}].position`),
+      size: vec(p.size, `platforms[${i}].size`),
+      color: p.color,
+    })),
+    solidBlocks: list(json.solidBlocks, "solidBlocks").map((sb, i) => ({
+      position: vec(sb.position, `solidBlocks[${i}].position`),
+      size: vec(sb.size, `solidBlocks[${i}].size`),
+      color: sb.color,
+    })),
+    diagonalPlatforms: list(json.diagonalPlatforms, "diagonalPlatforms").map((dp, i) => ({
+      startPoint: vec(dp.startPoint, `diagonalPlatforms[${i}].startPoint`),
+      endPoint: vec(dp.endPoint, `diagonalPlatforms[${i}].endPoint`),
+      thickness: dp.thickness,
+      color: dp.color,
+    })),
+    memoryCrystals: list(json.memoryCrystals, "memoryCrystals").map((c, i) => ({
+      position: vec(c.position, `memoryCrystals[${i}].position`),
+      type: c.type as LevelData["memoryCrystals"][number]["type"],
+    })),
+    enemies: list(json.enemies, "enemies").map((e, i) => ({
+      position: vec(e.position, `enemies[${i}].position`),
+      type: e.type,
+      direction: e.direction,
+    })),
+    ...(json.checkpoints && {
+      checkpoints: list(json.checkpoints, "checkpoints").map((c, i) => ({
+        position: vec(c.position, `checkpoints[${i}].position`),
+      })),
+    }),
+    ...(json.doors && {
+      doors: list(json.doors, "doors").map((d, i) => ({
+        position: vec(d.position, `doors[${i}].position`),
+        size: vec(d.size, `doors[${i}].size`),
+        targetLevelId: d.targetLevelId,
+        targetEntryId: d.targetEntryId,
+      })),
+    }),
+    ...(json.entryPoints && {
+      entryPoints: list(json.entryPoints, "entryPoints").map((e, i) => ({
+        id: e.id,
+        position: vec(e.position, `entryPoints[${i}].position`),
+      })),
+    }),
+    ...(json.weather && { weather: weather(json.weather, "weather") }),
+    ...(json.weatherZones && {
+      weatherZones: list(json.weatherZones, "weatherZones").map((z, i) => ({
+        position: vec(z.position, `weatherZones[${i}].position`),
+        size: vec(z.size, `weatherZones[${i}].size`),
+        weather: weather(z.weather ?? {}, `weatherZones[${i}].weather`),
+      })),
+    }),
+    ...(json.tileMap && {
+      tileMap: {
+        tileSize: json.tileMap.tileSize,
+        rows: list(json.tileMap.rows, "tileMap.rows"),
+        ...(json.tileMap.tileset && { tileset: list(json.tileMap.tileset, "tileMap.tileset") }),
+      },
+    }),
+    player: { position: vec(json.player?.position, "player.position") },
+  };
+}
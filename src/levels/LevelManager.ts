@@ -2,7 +2,8 @@ import type { GameState } from "../engine/GameState";
 import { Vector2 } from "../engine/Vector2";
 import { Level } from "./Level";
 import type { LevelData } from "./LevelData";
-import { levels } from "./levels";
+import { parseLevel } from "./LevelJson";
+import { assertValidLevel } from "./LevelValidator";
 
 export class LevelManager {
   private levels: Map<string, Level>;
@@ -15,23 +16,71 @@ export class LevelManager {
   }
   private currentLevelId: string | null = null;
 
-  constructor() {
+  // Event callbacks
+  private onLevelRegisteredCallbacks: Array<(levelData: LevelData) => void> = [];
+
+  constructor(levelList: LevelData[] = []) {
     this.levels = new Map();
-    this.loadLevels();
+    this.loadLevels(levelList);
+  }
+
+  private loadLevels(levelList: LevelData[]): void {
+    // Load all level data and create Level instances, leaving out any that fail validation
+    for (const levelData of levelList) {
+      try {
+        this.levels.set(levelData.id, new Level(assertValidLevel(levelData)));
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+      }
+    }
   }
 
-  private loadLevels(): void {
-    // Load all level data and create Level instances
-    for (const levelData of levels) {
-      this.levels.set(levelData.id, new Level(levelData));
+  /**
+   * Add a level at runtime, replacing any level with the same id.
+   * Throws a LevelValidationError (with every issue listed) if the level is invalid.
+   */
+  registerLevel(levelData: LevelData): void {
+    assertValidLevel(levelData);
+    if (this.levels.has(levelData.id)) {
+      console.log(`Replacing level ${levelData.id}`);
     }
+    this.levels.set(levelData.id, new Level(levelData));
+    this.onLevelRegisteredCallbacks.forEach((callback) => callback(levelData));
+  }
+
+  /**
+   * Register a level from its JSON form (see LevelJson). Throws if the text is not a valid level.
+   */
+  registerLevelFromJson(text: string): LevelData {
+    const levelData = parseLevel(text);
+    this.registerLevel(levelData);
+    return levelData;
+  }
+
+  /**
+   * Fetch a level JSON file and register it
+   */
+  async registerLevelFromUrl(url: string): Promise<LevelData> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch level from ${url}: ${response.status} ${response.statusText}`);
+    }
+    return this.registerLevelFromJson(await response.text());
+  }
+
+  onLevelRegistered(callback: (levelData: LevelData) => void): void {
+    this.onLevelRegisteredCallbacks.push(callback);
   }
 
   getLevelIds(): string[] {
     return Array.from(this.levels.keys());
   }
 
-  loadLevel(levelId: string, gameState: GameState): boolean {
+  /**
+   * Load a level into the GameState. Pass an entry point id to keep the current
+   * player and bring them in at that entry (used by doors).
+   */
+  loadLevel(levelId: string, gameState: GameState, entryId?: string): boolean {
     const level = this.levels.get(levelId);
 
     if (!level) {
@@ -39,35 +88,80 @@ export class LevelManager {
       return false;
     }
 
-    level.loadIntoGameState(gameState);
+    level.loadIntoGameState(gameState, entryId);
     this.currentLevelId = levelId;
     return true;
   }
 
+  /**
+   * Put the current level's enemies back at their starting positions (used on respawn)
+   */
+  respawnEnemies(gameState: GameState): boolean {
+    const level = this.currentLevelId ? this.levels.get(this.currentLevelId) : undefined;
+    if (!level) return false;
+
+    level.spawnEnemies(gameState);
+    return true;
+  }
+
   getCurrentLevelId(): string | null {
     return this.currentLevelId;
   }
 
-  // Helper method to create a level from current GameState (for level editor)
+  /**
+   * Build LevelData from what is currently in the GameState (for the level editor).
+   * Covers every LevelData field, so loading the result reproduces the same level.
+   */
   static createLevelFromGameState(gameState: GameState, id: string, name: string): LevelData {
+    // Size is not held by any game object; take it from the level being edited
+    const currentLevel = gameState.levelManager.getLevelData(gameState.currentLevelId ?? "");
+
     const levelData: LevelData = {
       id,
       name,
-      width: 1600, // Default, should be set appropriately
-      height: 608,
+      width: currentLevel?.width ?? 1600,
+      height: currentLevel?.height ?? 608,
       background: {
-        color: "#2C1810", // Default background color
+        color: gameState.backgroundColor,
+        elements: gameState.backgroundElements.map((element) => ({
+          type: element.type,
+          position: element.position.copy(),
+          size: element.size.copy(),
+          color: element.color,
+        })),
+        ...(gameState.backgroundParallax && {
+          parallax: gameState.backgroundParallax.map((layer) => ({
+            ...layer,
+            ...(layer.colors && { colors: [...layer.colors] }),
+          })),
+        }),
       },
       platforms: [],
       solidBlocks: [],
       diagonalPlatforms: [],
       memoryCrystals: [],
       enemies: [],
+      checkpoints: [],
+      doors: [],
+      entryPoints: gameState.entryPoints.map((entry) => ({
+        id: entry.id,
+        position: entry.position.copy(),
+      })),
+      weatherZones: gameState.weatherSystem.getWeatherZones(),
       player: {
         position: new Vector2(gameState.player.position.x, gameState.player.position.y),
       },
     };
 
+    // Weather is optional in LevelData; leave it out when the level uses the default
+    const weather = gameState.weatherSystem.getLevelWeather();
+    if (weather) {
+      levelData.weather = weather;
+    }
+    if (gameState.tileMap) {
+      levelData.tileMap = gameState.tileMap.toData();
+    }
+
     // Convert platforms
     for (const platform of gameState.platforms) {
       levelData.platforms.push({
@@ -86,6 +180,16 @@ export class LevelManager {
       });
     }
 
+    // Convert diagonal platforms
+    for (const diagonalPlatform of gameState.diagonalPlatforms) {
+      levelData.diagonalPlatforms.push({
+        startPoint: diagonalPlatform.startPoint.copy(),
+        endPoint: diagonalPlatform.endPoint.copy(),
+        thickness: diagonalPlatform.thickness,
+        color: diagonalPlatform.color,
+      });
+    }
+
     // Convert memory crystals
     for (const crystal of gameState.memoryCrystals) {
       levelData.memoryCrystals.push({
@@ -103,6 +207,23 @@ export class LevelManager {
       });
     }
 
+    // Convert checkpoints
+    for (const checkpoint of gameState.checkpoints) {
+      levelData.checkpoints?.push({
+        position: new Vector2(checkpoint.position.x, checkpoint.position.y),
+      });
+    }
+
+    // Convert doors
+    for (const door of gameState.doors) {
+      levelData.doors?.push({
+        position: new Vector2(door.position.x, door.position.y),
+        size: new Vector2(door.size.x, door.size.y),
+        targetLevelId: door.targetLevelId,
+        targetEntryId: door.targetEntryId,
+      });
+    }
+
     return levelData;
   }
 }
@@ -0,0 +1,87 @@
+import { HeadlessSimulation } from "@/engine/HeadlessSimulation";
+import { EventSystem } from "@/systems/EventSystem";
+import type { LevelData } from "./LevelData";
+import { serializeLevel } from "./LevelJson";
+import { LevelManager } from "./LevelManager";
+
+/**
+ * Load a level into a GameState and save it back out, as the editor does
+ */
+function loadAndSave(levelData: LevelData): LevelData {
+  // A bus of its own, so the throwaway game's events never reach a running one
+  const simulation = new HeadlessSimulation({
+    level: levelData,
+    seed: 1,
+    events: new EventSystem(),
+  });
+  return LevelManager.createLevelFromGameState(simulation.gameState, levelData.id, levelData.name);
+}
+
+/**
+ * Paths at which two JSON values differ, e.g. `enemies[2].position`
+ */
+function diffJson(a: unknown, b: unknown, path: string, out: string[]): void {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) {
+      out.push(`${path} (length ${a.length} vs ${b.length})`);
+      return;
+    }
+    a.forEach((item, index) => diffJson(item, b[index], `${path}[${index}]`, out));
+    return;
+  }
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const aRecord = a as Record<string, unknown>;
+    const bRecord = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+    for (const key of keys) {
+      diffJson(aRecord[key], bRecord[key], path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  if (a !== b) {
+    out.push(`${path} (${JSON.stringify(a)} vs ${JSON.stringify(b)})`);
+  }
+}
+
+/**
+ * Fill in the defaults the game applies to optional fields, so a source that leaves them out
+ * compares equal to a save that writes them. `saved` supplies enemy facings the source leaves
+ * to chance.
+ */
+function withDefaults(level: LevelData, saved: LevelData): LevelData {
+  return {
+    ...level,
+    background: { ...level.background, elements: level.background.elements ?? [] },
+    diagonalPlatforms: level.diagonalPlatforms.map((dp) => ({
+      ...dp,
+      thickness: dp.thickness ?? 16,
+    })),
+    memoryCrystals: level.memoryCrystals.map((c) => ({ ...c, type: c.type ?? "azure" })),
+    enemies: level.enemies.map((e, index) => ({
+      ...e,
+      type: e.type ?? "landghost",
+      direction: e.direction ?? saved.enemies[index]?.direction,
+    })),
+    checkpoints: level.checkpoints ?? [],
+    doors: level.doors ?? [],
+    entryPoints: level.entryPoints ?? [],
+    weatherZones: level.weatherZones ?? [],
+  };
+}
+
+/**
+ * Check that loading a level and saving it as the editor does gives back the same level.
+ * Returns the differing paths; empty when the level round-trips.
+ */
+export function checkLevelRoundTrip(levelData: LevelData): string[] {
+  const saved = loadAndSave(levelData);
+
+  const differences: string[] = [];
+  diffJson(
+    JSON.parse(serializeLevel(withDefaults(levelData, saved))),
+    JSON.parse(serializeLevel(withDefaults(saved, saved))),
+    "",
+    differences,
+  );
+  return differences;
+}
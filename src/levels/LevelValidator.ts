@@ -0,0 +1,435 @@
+import { BACKGROUND_ELEMENT_TYPES } from "@/engine/BackgroundElements";
+import { PARALLAX_LAYER_KINDS } from "@/engine/ParallaxBackground";
+import { DEFAULT_TILESET, EMPTY_TILE } from "@/engine/TileMap";
+import { isFiniteNumber, isRecord, isStringArray } from "@/engine/VersionedStorage";
+import { WEATHER_MODE_INTENSITY } from "@/effects/WeatherSystem";
+import { isValidCrystalType } from "@/objects/crystal/CrystalTypeConfig";
+import type { LevelData } from "./LevelData";
+
+export const ENEMY_TYPES = ["ghost", "landghost"] as const;
+
+const WEATHER_MODES = Object.keys(WEATHER_MODE_INTENSITY);
+
+export type LevelIssueSeverity = "error" | "warning";
+
+/**
+ * One problem found in a level. Errors make the level unloadable; warnings are loaded but reported.
+ */
+export interface LevelIssue {
+  severity: LevelIssueSeverity;
+  // Where the problem is, e.g. `enemies[3].type`
+  path: string;
+  message: string;
+}
+
+export class LevelValidationError extends Error {
+  readonly levelId: string;
+  readonly issues: LevelIssue[];
+
+  constructor(levelId: string, issues: LevelIssue[]) {
+    super(`Level ${levelId} is invalid:\n${formatLevelIssues(issues)}`);
+    this.name = "LevelValidationError";
+    this.levelId = levelId;
+    this.issues = issues;
+  }
+}
+
+/**
+ * One issue per line, errors first
+ */
+export function formatLevelIssues(issues: LevelIssue[]): string {
+  return [...issues]
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1))
+    .map((issue) => `${issue.severity}: ${issue.path}: ${issue.message}`)
+    .join("\n");
+}
+
+export function hasLevelErrors(issues: LevelIssue[]): boolean {
+  return issues.some((issue) => issue.severity === "error");
+}
+
+/**
+ * Check every field of a level. Takes unknown so hand-written JSON can be checked before it is trusted.
+ */
+export function validateLevel(data: unknown): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const error = (path: string, message: string) =>
+    issues.push({ severity: "error", path, message });
+  const warn = (path: string, message: string) =>
+    issues.push({ severity: "warning", path, message });
+
+  if (!isRecord(data)) {
+    error("", "level must be an object");
+    return issues;
+  }
+
+  if (typeof data.id !== "string" || data.id.trim() === "")
+    error("id", "must be a non-empty string");
+  if (typeof data.name !== "string" || data.name.trim() === "")
+    error("name", "must be a non-empty string");
+
+  const width = isFiniteNumber(data.width) && data.width > 0 ? data.width : null;
+  const height = isFiniteNumber(data.height) && data.height > 0 ? data.height : null;
+  if (width === null) error("width", "must be a positive number");
+  if (height === null) error("height", "must be a positive number");
+
+  const checkColor = (value: unknown, path: string) => {
+    if (typeof value !== "string" || value === "") error(path, "must be a color string");
+  };
+
+  // Returns the point when it is valid so callers can run bounds checks on it
+  const checkPoint = (value: unknown, path: string): { x: number; y: number } | null => {
+    if (!isRecord(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y)) {
+      error(path, "must be a point with finite x and y");
+      return null;
+    }
+    return { x: value.x, y: value.y };
+  };
+
+  const checkSize = (value: unknown, path: string): { x: number; y: number } | null => {
+    const size = checkPoint(value, path);
+    if (size && (size.x <= 0 || size.y <= 0)) {
+      error(path, `must be positive, got ${size.x}x${size.y}`);
+      return null;
+    }
+    return size;
+  };
+
+  // Overhanging the edge is fine (floors often do); lying entirely outside the level is almost always a mistake
+  const checkInBounds = (
+    position: { x: number; y: number } | null,
+    size: { x: number; y: number },
+    path: string,
+  ) => {
+    if (!position || width === null || height === null) return;
+    if (
+      position.x + size.x < 0 ||
+      position.y + size.y < 0 ||
+      position.x > width ||
+      position.y > height
+    ) {
+      warn(path, `(${position.x}, ${position.y}) is outside the ${width}x${height} level`);
+    }
+  };
+
+  // Optional lists may be missing; required ones must be arrays
+  const eachItem = (
+    field: string,
+    required: boolean,
+    check: (item: unknown, path: string) => void,
+  ) => {
+    const value = data[field];
+    if (value === undefined && !required) return;
+    if (!Array.isArray(value)) {
+      error(field, "must be an array");
+      return;
+    }
+    value.forEach((item, index) => {
+      const path = `${field}[${index}]`;
+      if (!isRecord(item)) {
+        error(path, "must be an object");
+        return;
+      }
+      check(item, path);
+    });
+  };
+
+  // Background
+  if (!isRecord(data.background)) {
+    error("background", "must be an object");
+  } else {
+    checkColor(data.background.color, "background.color");
+    const elements = data.background.elements;
+    if (elements !== undefined) {
+      if (!Array.isArray(elements)) {
+        error("background.elements", "must be an array");
+      } else {
+        elements.forEach((element, index) => {
+          const path = `background.elements[${index}]`;
+          if (!isRecord(element)) {
+            error(path, "must be an object");
+            return;
+          }
+          if (typeof element.type !== "string" || element.type === "") {
+            error(`${path}.type`, "must be a non-empty string");
+          } else if (!(BACKGROUND_ELEMENT_TYPES as readonly string[]).includes(element.type)) {
+            warn(
+              `${path}.type`,
+              `unknown element type "${element.type}" is drawn as a rect (known: ${BACKGROUND_ELEMENT_TYPES.join(", ")})`,
+            );
+          }
+          checkPoint(element.position, `${path}.position`);
+          checkSize(element.size, `${path}.size`);
+          checkColor(element.color, `${path}.color`);
+        });
+      }
+    }
+
+    const parallax = data.background.parallax;
+    if (parallax !== undefined) {
+      if (!Array.isArray(parallax)) {
+        error("background.parallax", "must be an array");
+      } else {
+        parallax.forEach((layer, index) => {
+          const path = `background.parallax[${index}]`;
+          if (!isRecord(layer)) {
+            error(path, "must be an object");
+            return;
+          }
+          if (!(PARALLAX_LAYER_KINDS as readonly unknown[]).includes(layer.kind)) {
+            error(
+              `${path}.kind`,
+              `unknown layer kind ${JSON.stringify(layer.kind)} (expected ${PARALLAX_LAYER_KINDS.join(", ")})`,
+            );
+          }
+          if (layer.colors !== undefined && !isStringArray(layer.colors)) {
+            error(`${path}.colors`, "must be an array of color strings");
+          }
+          for (const axis of ["parallaxX", "parallaxY"]) {
+            const factor = layer[axis];
+            if (factor === undefined) continue;
+            if (!isFiniteNumber(factor)) {
+              error(`${path}.${axis}`, "must be a number");
+            } else if (factor < 0 || factor > 1) {
+              warn(
+                `${path}.${axis}`,
+                `${factor} is outside 0 (fixed) to 1 (moves with the camera)`,
+              );
+            }
+          }
+        });
+      }
+    }
+  }
+
+  const checkRect = (item: unknown, path: string) => {
+    const rect = item as Record<string, unknown>;
+    const position = checkPoint(rect.position, `${path}.position`);
+    const size = checkSize(rect.size, `${path}.size`);
+    checkColor(rect.color, `${path}.color`);
+    if (size) checkInBounds(position, size, `${path}.position`);
+  };
+  eachItem("platforms", true, checkRect);
+  eachItem("solidBlocks", true, checkRect);
+
+  eachItem("diagonalPlatforms", true, (item, path) => {
+    const platform = item as Record<string, unknown>;
+    const start = checkPoint(platform.startPoint, `${path}.startPoint`);
+    const end = checkPoint(platform.endPoint, `${path}.endPoint`);
+    if (start && end && start.x === end.x && start.y === end.y) {
+      error(`${path}.endPoint`, "must differ from startPoint");
+    }
+    if (
+      platform.thickness !== undefined &&
+      !(isFiniteNumber(platform.thickness) && platform.thickness > 0)
+    ) {
+      error(`${path}.thickness`, "must be a positive number");
+    }
+    checkColor(platform.color, `${path}.color`);
+    checkInBounds(start, { x: 0, y: 0 }, `${path}.startPoint`);
+    checkInBounds(end, { x: 0, y: 0 }, `${path}.endPoint`);
+  });
+
+  eachItem("memoryCrystals", true, (item, path) => {
+    const crystal = item as Record<string, unknown>;
+    const position = checkPoint(crystal.position, `${path}.position`);
+    if (
+      crystal.type !== undefined &&
+      !(typeof crystal.type === "string" && isValidCrystalType(crystal.type))
+    ) {
+      error(`${path}.type`, `unknown crystal type ${JSON.stringify(crystal.type)}`);
+    }
+    checkInBounds(position, { x: 0, y: 0 }, `${path}.position`);
+  });
+
+  eachItem("enemies", true, (item, path) => {
+    const enemy = item as Record<string, unknown>;
+    const position = checkPoint(enemy.position, `${path}.position`);
+    if (enemy.type !== undefined && !(ENEMY_TYPES as readonly unknown[]).includes(enemy.type)) {
+      error(
+        `${path}.type`,
+        `unknown enemy type ${JSON.stringify(enemy.type)} (expected ${ENEMY_TYPES.join(" or ")})`,
+      );
+    }
+    if (enemy.direction !== undefined && enemy.direction !== 1 && enemy.direction !== -1) {
+      error(`${path}.direction`, "must be 1 (right) or -1 (left)");
+    }
+    checkInBounds(position, { x: 0, y: 0 }, `${path}.position`);
+  });
+
+  eachItem("checkpoints", false, (item, path) => {
+    const position = checkPoint((item as Record<string, unknown>).position, `${path}.position`);
+    checkInBounds(position, { x: 0, y: 0 }, `${path}.position`);
+  });
+
+  eachItem("doors", false, (item, path) => {
+    const door = item as Record<string, unknown>;
+    const position = checkPoint(door.position, `${path}.position`);
+    const size = checkSize(door.size, `${path}.size`);
+    if (typeof door.targetLevelId !== "string" || door.targetLevelId === "") {
+      error(`${path}.targetLevelId`, "must be a non-empty string");
+    }
+    if (typeof door.targetEntryId !== "string" || door.targetEntryId === "") {
+      error(`${path}.targetEntryId`, "must be a non-empty string");
+    }
+    if (size) checkInBounds(position, size, `${path}.position`);
+  });
+
+  const entryIds = new Set<string>();
+  eachItem("entryPoints", false, (item, path) => {
+    const entry = item as Record<string, unknown>;
+    if (typeof entry.id !== "string" || entry.id === "") {
+      error(`${path}.id`, "must be a non-empty string");
+    } else if (entryIds.has(entry.id)) {
+      error(`${path}.id`, `duplicate entry point id "${entry.id}"`);
+    } else {
+      entryIds.add(entry.id);
+    }
+    const position = checkPoint(entry.position, `${path}.position`);
+    checkInBounds(position, { x: 0, y: 0 }, `${path}.position`);
+  });
+
+  const checkWeather = (value: unknown, path: string) => {
+    if (!isRecord(value)) {
+      error(path, "must be an object");
+      return;
+    }
+    if (value.mode !== undefined && !(WEATHER_MODES as readonly unknown[]).includes(value.mode)) {
+      error(
+        `${path}.mode`,
+        `unknown weather mode ${JSON.stringify(value.mode)} (expected ${WEATHER_MODES.join(", ")})`,
+      );
+    }
+    for (const field of ["minIntensity", "maxIntensity"]) {
+      const intensity = value[field];
+      if (
+        intensity !== undefined &&
+        !(isFiniteNumber(intensity) && intensity >= 0 && intensity <= 1)
+      ) {
+        error(`${path}.${field}`, "must be a number from 0 to 1");
+      }
+    }
+    if (
+      isFiniteNumber(value.minIntensity) &&
+      isFiniteNumber(value.maxIntensity) &&
+      value.minIntensity > value.maxIntensity
+    ) {
+      error(`${path}.minIntensity`, "must not be greater than maxIntensity");
+    }
+    for (const field of ["lightning", "indoor"]) {
+      if (value[field] !== undefined && typeof value[field] !== "boolean") {
+        error(`${path}.${field}`, "must be true or false");
+      }
+    }
+    if (value.wind !== undefined) checkPoint(value.wind, `${path}.wind`);
+    if (value.indoor === true && value.lightning === true) {
+      warn(`${path}.lightning`, "has no effect indoors");
+    }
+  };
+
+  if (data.weather !== undefined) checkWeather(data.weather, "weather");
+
+  const checkTileMap = (tileMap: unknown) => {
+    if (!isRecord(tileMap)) {
+      error("tileMap", "must be an object");
+      return;
+    }
+    const tileSize =
+      isFiniteNumber(tileMap.tileSize) && tileMap.tileSize > 0 ? tileMap.tileSize : null;
+    if (tileSize === null) error("tileMap.tileSize", "must be a positive number");
+
+    // Ids the rows may use: the level's own tileset, or the default one
+    const tileIds = new Set<string>();
+    if (tileMap.tileset === undefined) {
+      for (const type of DEFAULT_TILESET) tileIds.add(type.id);
+    } else if (!Array.isArray(tileMap.tileset)) {
+      error("tileMap.tileset", "must be an array");
+    } else {
+      tileMap.tileset.forEach((type, index) => {
+        const path = `tileMap.tileset[${index}]`;
+        if (!isRecord(type)) {
+          error(path, "must be an object");
+          return;
+        }
+        if (typeof type.id !== "string" || type.id.length !== 1 || type.id === EMPTY_TILE) {
+          error(`${path}.id`, `must be a single character other than "${EMPTY_TILE}"`);
+        } else if (tileIds.has(type.id)) {
+          error(`${path}.id`, `duplicate tile id "${type.id}"`);
+        } else {
+          tileIds.add(type.id);
+        }
+        if (typeof type.name !== "string" || type.name === "") {
+          error(`${path}.name`, "must be a non-empty string");
+        }
+        checkColor(type.color, `${path}.color`);
+        for (const field of ["solid", "oneWay"]) {
+          if (type[field] !== undefined && typeof type[field] !== "boolean") {
+            error(`${path}.${field}`, "must be true or false");
+          }
+        }
+        if (type.slope !== undefined && type.slope !== "up" && type.slope !== "down") {
+          error(`${path}.slope`, 'must be "up" or "down"');
+        }
+        const flags = [type.solid === true, type.oneWay === true, type.slope !== undefined];
+        if (flags.filter(Boolean).length > 1) {
+          warn(path, "combines solid, oneWay and slope; it collides as each of them at once");
+        }
+      });
+    }
+
+    if (!isStringArray(tileMap.rows)) {
+      error("tileMap.rows", "must be an array of strings");
+      return;
+    }
+    tileMap.rows.forEach((row, index) => {
+      const unknown = [...new Set(row)].filter((id) => id !== EMPTY_TILE && !tileIds.has(id));
+      if (unknown.length > 0) {
+        error(`tileMap.rows[${index}]`, `unknown tile ids: ${unknown.join(" ")}`);
+      }
+    });
+    if (tileSize !== null && width !== null && height !== null) {
+      // The last row and column may overhang the edge; a whole one beyond it is never seen
+      const columns = Math.max(0, ...tileMap.rows.map((row) => row.length));
+      if ((columns - 1) * tileSize >= width || (tileMap.rows.length - 1) * tileSize >= height) {
+        warn(
+          "tileMap.rows",
+          `${columns}x${tileMap.rows.length} tiles of ${tileSize}px extend past the ${width}x${height} level`,
+        );
+      }
+    }
+  };
+
+  eachItem("weatherZones", false, (item, path) => {
+    const zone = item as Record<string, unknown>;
+    const position = checkPoint(zone.position, `${path}.position`);
+    const size = checkSize(zone.size, `${path}.size`);
+    checkWeather(zone.weather, `${path}.weather`);
+    if (size) checkInBounds(position, size, `${path}.position`);
+  });
+
+  if (data.tileMap !== undefined) checkTileMap(data.tileMap);
+
+  if (!isRecord(data.player)) {
+    error("player", "must be an object");
+  } else {
+    const position = checkPoint(data.player.position, "player.position");
+    checkInBounds(position, { x: 0, y: 0 }, "player.position");
+  }
+
+  return issues;
+}
+
+/**
+ * Validate and return the level, throwing a LevelValidationError if it has errors. Warnings are logged.
+ */
+export function assertValidLevel(data: LevelData): LevelData {
+  const issues = validateLevel(data);
+  const levelId = typeof data?.id === "string" ? data.id : "(no id)";
+  if (hasLevelErrors(issues)) {
+    throw new LevelValidationError(levelId, issues);
+  }
+  if (issues.length > 0) {
+    console.warn(`Level ${levelId} has warnings:\n${formatLevelIssues(issues)}`);
+  }
+  return data;
+}
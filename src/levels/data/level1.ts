@@ -71,6 +71,15 @@ export const level1: LevelData = {
     { position: vec2(1780, 224), type: "landghost", direction: 1 },
     { position: vec2(1908, 512), type: "landghost", direction: -1 },
   ],
+  checkpoints: [
+    { position: vec2(1108, 496) },
+  ],
+  doors: [
+    { position: vec2(2000, 448), size: vec2(48, 96), targetLevelId: "level2", targetEntryId: "west" },
+  ],
+  entryPoints: [
+    { id: "east", position: vec2(1920, 496) },
+  ],
   player: {
     position: vec2(64, 496),
   },
@@ -9,14 +9,40 @@ export const level2: LevelData = {
   width: 2000,
   height: 600,
   background: {
-    color: "#2C1810",
-    elements: [],
+    color: "#1A0E14",
+    elements: [
+      { type: "pillar", position: vec2(320, 224), size: vec2(48, 320), color: "#2E2430" },
+      { type: "banner", position: vec2(472, 256), size: vec2(48, 128), color: "#5A1020" },
+      { type: "window", position: vec2(640, 192), size: vec2(64, 128), color: "#3A2E3A" },
+      { type: "pillar", position: vec2(832, 224), size: vec2(48, 320), color: "#2E2430" },
+      { type: "banner", position: vec2(984, 256), size: vec2(48, 128), color: "#5A1020" },
+      { type: "window", position: vec2(1152, 192), size: vec2(64, 128), color: "#3A2E3A" },
+      { type: "pillar", position: vec2(1344, 224), size: vec2(48, 320), color: "#2E2430" },
+    ],
+    parallax: [
+      { kind: "sky", colors: ["#120818", "#3A1420", "#1A0E14"] },
+      { kind: "moon", colors: ["#F4C6A0", "rgba(244, 198, 160, 0.2)"] },
+      { kind: "towers", colors: ["#0C060A", "#2A1018"], parallaxX: 0.25, parallaxY: 0.1 },
+      { kind: "mist", colors: ["rgba(90, 16, 32, 0.12)"] },
+    ],
   },
-  platforms: [],
+  platforms: [
+    { position: vec2(0, 544), size: vec2(2000, 64), color: "#654321" },
+  ],
   solidBlocks: [],
   diagonalPlatforms: [],
   memoryCrystals: [],
   enemies: [],
+  doors: [
+    { position: vec2(0, 448), size: vec2(48, 96), targetLevelId: "level1", targetEntryId: "east" },
+  ],
+  entryPoints: [
+    { id: "west", position: vec2(80, 496) },
+  ],
+  weather: { mode: "heavy", minIntensity: 0.5, wind: vec2(-80, 0) },
+  weatherZones: [
+    { position: vec2(600, 0), size: vec2(800, 544), weather: { indoor: true } },
+  ],
   player: {
     position: vec2(100, 330),
   },
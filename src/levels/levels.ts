@@ -1,12 +1,34 @@
 import type { LevelData } from "./LevelData";
+import { parseLevel } from "./LevelJson";
 
 // Automatically import every level module in ./data
 // Vite's `import.meta.glob` eagerly grabs each `.ts` file and bundles it.
 // Each level file should export its LevelData as default.
 // Use a type assertion to satisfy TS without relying on Vite's generic overloads
+// This module only works under Vite; headless runs pass their levels to GameState instead
 const levelModules = import.meta.glob("./data/*.ts", { eager: true }) as Record<
   string,
   { default: LevelData }
 >;
 
-export const levels: LevelData[] = Object.values(levelModules).map((m) => m.default);
+// Level JSON files (see LevelJson) dropped into ./data are bundled as raw text alongside the modules
+const levelJsonFiles = import.meta.glob("./data/*.json", {
+  eager: true,
+  query: "?raw",
+  import: "default",
+}) as Record<string, string>;
+
+// A file that fails to parse is left out, like levels that fail validation in LevelManager
+const jsonLevels = Object.entries(levelJsonFiles).flatMap(([path, text]) => {
+  try {
+    return [parseLevel(text)];
+  } catch (error) {
+    console.error(`Skipping ${path}: ${error instanceof Error ? error.message : error}`);
+    return [];
+  }
+});
+
+export const levels: LevelData[] = [
+  ...Object.values(levelModules).map((m) => m.default),
+  ...jsonLevels,
+];
@@ -0,0 +1,133 @@
+import { GameObject } from "../engine/GameObject";
+import type { GameState } from "../engine/GameState";
+import { Vector2 } from "../engine/Vector2";
+import { GameEvent } from "../interfaces/GameInterfaces";
+import type { LevelEventData } from "../systems/EventSystem";
+import { checkCollision } from "../utils/CollisionUtils";
+
+/**
+ * Brazier the player lights by touching it. The most recently lit one is where the player respawns.
+ */
+export class Checkpoint extends GameObject {
+  static readonly WIDTH = 24;
+  static readonly HEIGHT = 48;
+
+  activated: boolean;
+  // Seconds since activation, drives the ignition flare
+  private activationTimer: number;
+  private flickerTimer: number;
+
+  constructor(x: number, y: number) {
+    super({ x, y, width: Checkpoint.WIDTH, height: Checkpoint.HEIGHT });
+    this.activated = false;
+    this.activationTimer = 0;
+    this.flickerTimer = 0;
+  }
+
+  /**
+   * Where the player stands when respawning here: centred on the brazier, feet on its base
+   */
+  getRespawnPosition(playerSize: Vector2): Vector2 {
+    return new Vector2(
+      this.position.x + (this.size.x - playerSize.x) / 2,
+      this.position.y + this.size.y - playerSize.y,
+    );
+  }
+
+  update(deltaTime: number, gameState: GameState): void {
+    this.flickerTimer += deltaTime;
+    if (this.activated) {
+      this.activationTimer += deltaTime;
+      return;
+    }
+
+    const player = gameState.player;
+    if (player.isDead || !checkCollision(this, player)) return;
+
+    this.activate(gameState);
+  }
+
+  /**
+   * Light this checkpoint, put out the others and move the respawn point here
+   */
+  activate(gameState: GameState): void {
+    for (const checkpoint of gameState.checkpoints) {
+      checkpoint.activated = false;
+    }
+    this.activated = true;
+    this.activationTimer = 0;
+
+    const spawn = this.getRespawnPosition(gameState.player.size);
+    gameState.lifeSystem.setRespawnPoint(spawn.x, spawn.y);
+    console.log(`Checkpoint activated at (${this.position.x}, ${this.position.y})`);
+
+    const data: LevelEventData = {
+      levelId: gameState.currentLevelId ?? "",
+      playerPosition: { x: spawn.x, y: spawn.y },
+    };
+    gameState.events.emit(GameEvent.CHECKPOINT_ACTIVATED, data);
+    gameState.saveManager.autosave(gameState);
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    const x = this.position.x;
+    const y = this.position.y;
+    const centerX = x + this.size.x / 2;
+    const bowlY = y + 18;
+
+    ctx.save();
+
+    // Stone pedestal
+    ctx.fillStyle = "#3A3A3A";
+    ctx.fillRect(x + 4, y + this.size.y - 6, this.size.x - 8, 6);
+    ctx.fillStyle = "#555555";
+    ctx.fillRect(centerX - 3, bowlY + 4, 6, this.size.y - 28);
+
+    // Iron bowl
+    ctx.fillStyle = this.activated ? "#6B4226" : "#2E2E2E";
+    ctx.beginPath();
+    ctx.moveTo(x + 2, bowlY - 2);
+    ctx.lineTo(x + this.size.x - 2, bowlY - 2);
+    ctx.lineTo(centerX + 5, bowlY + 6);
+    ctx.lineTo(centerX - 5, bowlY + 6);
+    ctx.closePath();
+    ctx.fill();
+
+    if (this.activated) {
+      this.renderFlame(ctx, centerX, bowlY - 2);
+    } else {
+      // Cold embers
+      ctx.fillStyle = "#4A3B35";
+      ctx.fillRect(centerX - 4, bowlY - 4, 8, 2);
+    }
+
+    ctx.restore();
+  }
+
+  private renderFlame(ctx: CanvasRenderingContext2D, centerX: number, baseY: number): void {
+    const flicker = Math.sin(this.flickerTimer * 12) * 1.5 + Math.sin(this.flickerTimer * 7.3);
+    // Flare up briefly when first lit
+    const flare = Math.max(0, 1 - this.activationTimer / 0.6);
+    const height = 14 + flicker + flare * 10;
+
+    ctx.shadowColor = "#FF8C00";
+    ctx.shadowBlur = 12 + flare * 12;
+
+    ctx.fillStyle = "#FF6A00";
+    ctx.beginPath();
+    ctx.moveTo(centerX - 7, baseY);
+    ctx.quadraticCurveTo(centerX - 6, baseY - height * 0.6, centerX + flicker * 0.5, baseY - height);
+    ctx.quadraticCurveTo(centerX + 6, baseY - height * 0.6, centerX + 7, baseY);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = "#FFD700";
+    ctx.beginPath();
+    ctx.moveTo(centerX - 3, baseY);
+    ctx.quadraticCurveTo(centerX - 2, baseY - height * 0.4, centerX, baseY - height * 0.6);
+    ctx.quadraticCurveTo(centerX + 2, baseY - height * 0.4, centerX + 3, baseY);
+    ctx.closePath();
+    ctx.fill();
+  }
+}
@@ -1,3 +1,4 @@
+import type { GameState } from "../../engine/GameState";
 import type { Vector2 } from "../../engine/Vector2.js";
 
 export interface ChainReactionTarget {
@@ -26,26 +27,34 @@ export class ChainReactionManager {
     return true;
   }
 
-  triggerChainReaction(target: ChainReactionTarget, delay: number = 0): void {
+  triggerChainReaction(
+    target: ChainReactionTarget,
+    gameState: GameState,
+    delay: number = 0,
+  ): void {
     if (target.isBreaking || !target.isActive) return;
 
     this.triggeredByChain = true;
 
     if (delay > 0) {
-      setTimeout(() => {
+      gameState.schedule(delay, () => {
         if (target.isActive && !target.isBreaking) {
           target.triggerChainReaction(0);
         }
-      }, delay * 1000);
+      });
     } else {
       target.triggerChainReaction(0);
     }
   }
 
-  processChainReaction(sourcePosition: Vector2, targets: ChainReactionTarget[]): void {
+  processChainReaction(
+    sourcePosition: Vector2,
+    targets: ChainReactionTarget[],
+    gameState: GameState,
+  ): void {
     targets.forEach((target) => {
       if (this.canTriggerChainReaction(sourcePosition, target)) {
-        this.triggerChainReaction(target, this.chainReactionDelay);
+        this.triggerChainReaction(target, gameState, this.chainReactionDelay);
       }
     });
   }
@@ -1,9 +1,12 @@
+import { GameObject } from "../../engine/GameObject";
 import type { Vector2 } from "../../engine/Vector2.js";
 import type { CrystalColors } from "./CrystalTypeConfig.js";
 import type { ParticleSystem } from "./ParticleSystem.js";
 
 export interface CrystalPiece {
   position: Vector2;
+  // Where the piece was at the start of the current simulation step
+  previousPosition: Vector2;
   velocity: Vector2;
   rotationSpeed: number;
   rotation: number;
@@ -128,7 +131,11 @@ export class CrystalRenderer {
     pieces.forEach((piece) => {
       ctx.globalAlpha = piece.opacity;
       ctx.save();
-      ctx.translate(piece.position.x, piece.position.y);
+      const alpha = GameObject.interpolationAlpha;
+      ctx.translate(
+        piece.previousPosition.x + (piece.position.x - piece.previousPosition.x) * alpha,
+        piece.previousPosition.y + (piece.position.y - piece.previousPosition.y) * alpha,
+      );
       ctx.rotate(piece.rotation);
 
       ctx.beginPath();
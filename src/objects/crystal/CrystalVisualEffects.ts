@@ -1,4 +1,6 @@
 import { Vector2 } from "../../engine/Vector2.js";
+import type { RandomStream } from "../../engine/Random";
+import { unseededRandom } from "../../engine/Random";
 
 export class CrystalVisualEffects {
   private pulseTimer: number = 0;
@@ -6,8 +8,8 @@ export class CrystalVisualEffects {
   private resonanceLevel: number = 0;
   private colorPhase: number = 0;
 
-  constructor() {
-    this.pulsePhase = Math.random() * Math.PI * 2;
+  constructor(random: RandomStream = unseededRandom.cosmetic) {
+    this.pulsePhase = random.next() * Math.PI * 2;
   }
 
   update(deltaTime: number, playerPosition?: Vector2, crystalPosition?: Vector2): void {
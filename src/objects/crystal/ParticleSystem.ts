@@ -1,4 +1,6 @@
 import { Vector2 } from "../../engine/Vector2.js";
+import type { RandomStream } from "../../engine/Random";
+import { unseededRandom } from "../../engine/Random";
 
 const vec2 = (x: number, y: number): Vector2 => new Vector2(x, y);
 
@@ -15,10 +17,12 @@ export class ParticleSystem {
   private particleTimer: number = 0;
   private position: Vector2;
   private size: Vector2;
+  private random: RandomStream;
 
-  constructor(position: Vector2, size: Vector2) {
+  constructor(position: Vector2, size: Vector2, random: RandomStream = unseededRandom.cosmetic) {
     this.position = position;
     this.size = size;
+    this.random = random;
   }
 
   update(deltaTime: number): void {
@@ -48,9 +52,9 @@ export class ParticleSystem {
   }
 
   private spawnAmbientParticle(): void {
-    const angle = Math.random() * Math.PI * 2;
-    const radius = 8 + Math.random() * 10;
-    const speed = 10 + Math.random() * 20;
+    const angle = this.random.next() * Math.PI * 2;
+    const radius = 8 + this.random.next() * 10;
+    const speed = 10 + this.random.next() * 20;
 
     this.particles.push({
       position: vec2(
@@ -59,8 +63,8 @@ export class ParticleSystem {
       ),
       velocity: vec2(Math.cos(angle) * speed, Math.sin(angle) * speed - 30),
       life: 0,
-      maxLife: 1.5 + Math.random() * 0.5,
-      size: 1 + Math.random() * 2,
+      maxLife: 1.5 + this.random.next() * 0.5,
+      size: 1 + this.random.next() * 2,
     });
   }
 
@@ -71,15 +75,15 @@ export class ParticleSystem {
   }
 
   private spawnBreakParticle(): void {
-    const angle = Math.random() * Math.PI * 2;
-    const speed = 80 + Math.random() * 40;
+    const angle = this.random.next() * Math.PI * 2;
+    const speed = 80 + this.random.next() * 40;
 
     this.particles.push({
       position: vec2(this.position.x + this.size.x / 2, this.position.y + this.size.y / 2),
       velocity: vec2(Math.cos(angle) * speed, Math.sin(angle) * speed - 50),
       life: 0,
-      maxLife: 0.8 + Math.random() * 0.4,
-      size: 2 + Math.random() * 3,
+      maxLife: 0.8 + this.random.next() * 0.4,
+      size: 2 + this.random.next() * 3,
     });
   }
 
@@ -46,6 +46,31 @@ export class DiagonalPlatform extends GameObject {
     this.slope = dx !== 0 ? dy / dx : Infinity;
   }
 
+  setColor(color: string): void {
+    this.color = color;
+    this.shadowColor = this.adjustColor(color, -20);
+    this.highlightColor = this.adjustColor(color, 20);
+  }
+
+  /**
+   * Change the end points or thickness, keeping the bounding box, angle and slope in step
+   */
+  setGeometry(startPoint: Vector2, endPoint: Vector2, thickness: number = this.thickness): void {
+    this.startPoint = startPoint;
+    this.endPoint = endPoint;
+    this.thickness = thickness;
+
+    this.position.x = Math.min(startPoint.x, endPoint.x);
+    this.position.y = Math.min(startPoint.y, endPoint.y);
+    this.size.x = Math.abs(endPoint.x - startPoint.x) + thickness;
+    this.size.y = Math.abs(endPoint.y - startPoint.y) + thickness;
+
+    const dx = endPoint.x - startPoint.x;
+    const dy = endPoint.y - startPoint.y;
+    this.angle = Math.atan2(dy, dx);
+    this.slope = dx !== 0 ? dy / dx : Infinity;
+  }
+
   adjustColor(color: string, amount: number): string {
     const hex = color.replace("#", "");
     let r = parseInt(hex.substring(0, 2), 16);
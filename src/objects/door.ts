@@ -0,0 +1,75 @@
+import { GameObject } from "../engine/GameObject";
+import type { GameState } from "../engine/GameState";
+import { checkCollision } from "../utils/CollisionUtils";
+
+/**
+ * Exit zone leading to an entry point in another room. Walking into it starts the room transition.
+ */
+export class Door extends GameObject {
+  targetLevelId: string;
+  targetEntryId: string;
+  // Doors ignore the player until they have stepped clear, so arriving on top of one doesn't bounce them back
+  private armed: boolean;
+  private glowTimer: number;
+
+  constructor(args: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    targetLevelId: string;
+    targetEntryId: string;
+  }) {
+    const { x, y, width, height, targetLevelId, targetEntryId } = args;
+    super({ x, y, width, height });
+    this.targetLevelId = targetLevelId;
+    this.targetEntryId = targetEntryId;
+    this.armed = false;
+    this.glowTimer = 0;
+  }
+
+  update(deltaTime: number, gameState: GameState): void {
+    this.glowTimer += deltaTime;
+
+    const player = gameState.player;
+    if (!checkCollision(this, player)) {
+      this.armed = true;
+      return;
+    }
+
+    if (this.armed && !player.isDead) {
+      this.armed = false;
+      gameState.roomTransition.start(this.targetLevelId, this.targetEntryId);
+    }
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    const { x, y } = this.position;
+    const { x: width, y: height } = this.size;
+    const archRadius = width / 2;
+
+    ctx.save();
+
+    // Dark passage with a rounded top
+    ctx.fillStyle = "#0A0505";
+    ctx.beginPath();
+    ctx.moveTo(x, y + height);
+    ctx.lineTo(x, y + archRadius);
+    ctx.arc(x + archRadius, y + archRadius, archRadius, Math.PI, 0);
+    ctx.lineTo(x + width, y + height);
+    ctx.closePath();
+    ctx.fill();
+
+    // Faint light from the next room
+    const glow = 0.15 + Math.sin(this.glowTimer * 2) * 0.05;
+    ctx.fillStyle = `rgba(212, 175, 55, ${glow})`;
+    ctx.fill();
+
+    // Stone frame
+    ctx.strokeStyle = "#D4AF37";
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    ctx.restore();
+  }
+}
@@ -1,4 +1,5 @@
 import type { GameState } from "@/engine/GameState";
+import type { RandomService } from "@/engine/Random";
 import type { SolidBlock } from "../solidBlock";
 import { Enemy } from "./enemy";
 
@@ -7,10 +8,10 @@ export class Ghost extends Enemy {
   floatAmplitude: number;
   baseY: number;
 
-  constructor(x: number, y: number, direction?: number) {
-    super({ x, y, type: "ghost", direction });
+  constructor(x: number, y: number, direction?: number, random?: RandomService) {
+    super({ x, y, type: "ghost", direction, random });
     this.speed = 40;
-    this.floatTimer = Math.random() * Math.PI * 2;
+    this.floatTimer = this.random.gameplay.range(0, Math.PI * 2);
     this.floatAmplitude = 10;
     this.baseY = y;
     this.hitDuration = 0.3;
@@ -29,7 +30,7 @@ export class Ghost extends Enemy {
     let canMoveHorizontally = true;
 
     // Check horizontal collisions with solid blocks
-    for (const solidBlock of gameState.solidBlocks) {
+    for (const solidBlock of gameState.getCollisionSolidBlocks()) {
       if (this.wouldCollideHorizontally(nextX, this.position.y, solidBlock)) {
         canMoveHorizontally = false;
         this.direction *= -1; // Reverse direction when hitting a wall
@@ -1,11 +1,12 @@
 import type { GameState } from "@/engine/GameState";
+import type { RandomService } from "@/engine/Random";
 import type { Platform } from "../platform";
 import type { SolidBlock } from "../solidBlock";
 import { Enemy } from "./enemy";
 
 export class LandGhost extends Enemy {
-  constructor(x: number, y: number, direction?: number) {
-    super({ x, y, type: "landghost", direction });
+  constructor(x: number, y: number, direction?: number, random?: RandomService) {
+    super({ x, y, type: "landghost", direction, random });
     this.expValue = 15;
   }
 
@@ -22,7 +23,7 @@ export class LandGhost extends Enemy {
     const nextX = this.position.x + this.velocity.x * deltaTime;
 
     // Check horizontal collisions with solid blocks
-    for (const solidBlock of gameState.solidBlocks) {
+    for (const solidBlock of gameState.getCollisionSolidBlocks()) {
       if (this.wouldCollideHorizontally(nextX, this.position.y, solidBlock)) {
         this.direction *= -1; // Reverse direction when hitting a wall
         this.velocity.x = this.direction * this.speed;
@@ -52,7 +53,7 @@ export class LandGhost extends Enemy {
     let landingPlatformY = Number.MAX_VALUE;
     let currentPlatform: Platform | null = null;
 
-    for (const platform of gameState.platforms) {
+    for (const platform of gameState.getCollisionPlatforms()) {
       const enemyBottom = this.position.y + this.size.y;
       const nextEnemyBottom = nextPosition.y + this.size.y;
 
@@ -1,5 +1,7 @@
 import { GameObject } from "@/engine/GameObject";
 import type { GameState } from "@/engine/GameState";
+import type { RandomService } from "@/engine/Random";
+import { unseededRandom } from "@/engine/Random";
 
 export abstract class Enemy extends GameObject {
   damage: number = 1;
@@ -21,6 +23,7 @@ export abstract class Enemy extends GameObject {
   isDying: boolean = false;
   deathTimer: number = 0;
   static DEATH_DURATION = 0.2; // seconds to show damage after death
+  protected random: RandomService;
 
   constructor(args: {
     x: number;
@@ -29,14 +32,16 @@ export abstract class Enemy extends GameObject {
     width?: number;
     height?: number;
     direction?: number;
+    random?: RandomService;
   }) {
-    const { x, y, type, width = 24, height = 32, direction } = args;
+    const { x, y, type, width = 24, height = 32, direction, random = unseededRandom } = args;
     super({ x, y, width, height });
+    this.random = random;
     this.type = type;
     this.health = 3;
     this.maxHealth = 3;
     this.speed = 50;
-    this.direction = direction ?? (Math.random() > 0.5 ? 1 : -1);
+    this.direction = direction ?? this.random.gameplay.sign();
     this.hitTimer = 0;
     this.hitDuration = 0.2;
     this.isHit = false;
@@ -185,7 +190,7 @@ export abstract class Enemy extends GameObject {
       x: this.position.x + this.size.x / 2,
       y: this.position.y - 8,
       alpha: 1,
-      vy: 32 + Math.random() * 16,
+      vy: this.random.cosmetic.range(32, 48),
       time: 0,
     });
   }
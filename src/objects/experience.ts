@@ -1,9 +1,13 @@
+import { GameObject } from "../engine/GameObject";
+import type { RandomService } from "../engine/Random";
+import { unseededRandom } from "../engine/Random";
 import { Vector2 } from "../engine/Vector2.js";
 
 const vec2 = (x: number, y: number): Vector2 => new Vector2(x, y);
 
 export class Experience {
   position: Vector2;
+  previousPosition: Vector2;
   size: Vector2;
   velocity: Vector2;
   isActive: boolean;
@@ -22,9 +26,12 @@ export class Experience {
     maxLife: number;
     size: number;
   }>;
+  private random: RandomService;
 
-  constructor(x: number, y: number, value: number = 5) {
+  constructor(x: number, y: number, value: number = 5, random: RandomService = unseededRandom) {
+    this.random = random;
     this.position = vec2(x, y);
+    this.previousPosition = vec2(x, y);
     this.size = vec2(8, 8);
     this.velocity = vec2(0, -20);
     this.isActive = true;
@@ -35,12 +42,12 @@ export class Experience {
 
     // Visual effects
     this.floatTimer = 0;
-    this.pulseTimer = Math.random() * Math.PI * 2;
+    this.pulseTimer = random.cosmetic.range(0, Math.PI * 2);
     this.sparkles = [];
 
     // Initial upward velocity
-    this.velocity.y = -30 - Math.random() * 20;
-    this.velocity.x = (Math.random() - 0.5) * 40;
+    this.velocity.y = -30 - random.gameplay.next() * 20;
+    this.velocity.x = (random.gameplay.next() - 0.5) * 40;
   }
 
   update(deltaTime: number, _gameState: unknown): void {
@@ -64,7 +71,7 @@ export class Experience {
     }
 
     // Generate sparkles
-    if (Math.random() < 0.3) {
+    if (this.random.cosmetic.next() < 0.3) {
       this.spawnSparkle();
     }
 
@@ -79,15 +86,15 @@ export class Experience {
   }
 
   private spawnSparkle(): void {
-    const angle = Math.random() * Math.PI * 2;
-    const speed = 10 + Math.random() * 15;
+    const angle = this.random.cosmetic.next() * Math.PI * 2;
+    const speed = 10 + this.random.cosmetic.next() * 15;
 
     this.sparkles.push({
       position: vec2(this.position.x + this.size.x / 2, this.position.y + this.size.y / 2),
       velocity: vec2(Math.cos(angle) * speed, Math.sin(angle) * speed),
       life: 0,
-      maxLife: 0.5 + Math.random() * 0.5,
-      size: 1 + Math.random() * 2,
+      maxLife: 0.5 + this.random.cosmetic.next() * 0.5,
+      size: 1 + this.random.cosmetic.next() * 2,
     });
   }
 
@@ -104,6 +111,21 @@ export class Experience {
     }
   }
 
+  /**
+   * Remember the current position as the start of the next simulation step
+   */
+  savePreviousPosition(): void {
+    this.previousPosition.x = this.position.x;
+    this.previousPosition.y = this.position.y;
+  }
+
+  private getInterpolatedPosition(alpha: number = GameObject.interpolationAlpha): Vector2 {
+    return vec2(
+      this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha,
+      this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha,
+    );
+  }
+
   collect(): number {
     if (!this.isActive) return 0;
 
@@ -123,6 +145,7 @@ export class Experience {
 
     const pulseIntensity = 0.7 + Math.sin(this.pulseTimer * 6) * 0.3;
     const fadeRatio = Math.min(1, (this.maxLifeTime - this.lifeTimer) / 2);
+    const { x, y } = this.getInterpolatedPosition();
 
     ctx.save();
 
@@ -134,8 +157,8 @@ export class Experience {
 
     ctx.beginPath();
     ctx.ellipse(
-      this.position.x + this.size.x / 2,
-      this.position.y + this.size.y / 2,
+      x + this.size.x / 2,
+      y + this.size.y / 2,
       this.size.x / 2 + 2,
       this.size.y / 2 + 2,
       0,
@@ -152,8 +175,8 @@ export class Experience {
 
     ctx.beginPath();
     ctx.ellipse(
-      this.position.x + this.size.x / 2,
-      this.position.y + this.size.y / 2,
+      x + this.size.x / 2,
+      y + this.size.y / 2,
       this.size.x / 2,
       this.size.y / 2,
       0,
@@ -168,8 +191,8 @@ export class Experience {
 
     ctx.beginPath();
     ctx.ellipse(
-      this.position.x + this.size.x / 2 - 1,
-      this.position.y + this.size.y / 2 - 1,
+      x + this.size.x / 2 - 1,
+      y + this.size.y / 2 - 1,
       2,
       2,
       0,
@@ -188,7 +211,7 @@ export class Experience {
       ctx.textAlign = "center";
       ctx.globalAlpha = fadeRatio * 0.8;
 
-      ctx.fillText(`+${this.value}`, this.position.x + this.size.x / 2, this.position.y - 2);
+      ctx.fillText(`+${this.value}`, x + this.size.x / 2, y - 2);
 
       ctx.textAlign = "left";
     }
@@ -1,6 +1,8 @@
 import { GameObject } from "../engine/GameObject";
 import type { GameState } from "../engine/GameState";
 import { Vector2 } from "../engine/Vector2";
+import type { RandomStream } from "../engine/Random";
+import { unseededRandom } from "../engine/Random";
 
 export class HitSpark extends GameObject {
   lifeTime: number;
@@ -14,10 +16,12 @@ export class HitSpark extends GameObject {
     color: string;
     lifeTime: number;
   }>;
+  private random: RandomStream;
 
-  constructor(x: number, y: number) {
+  constructor(x: number, y: number, random: RandomStream = unseededRandom.cosmetic) {
     // Use a small invisible GameObject as the container
     super({ x, y, width: 1, height: 1 });
+    this.random = random;
 
     this.maxLifeTime = 0.6; // Effect lasts longer for more impact
     this.lifeTime = this.maxLifeTime;
@@ -33,30 +37,30 @@ export class HitSpark extends GameObject {
 
   generateParticles(): void {
     // Generate more particles for a more impressive effect
-    const numParticles = Math.floor(Math.random() * 10) + 12;
+    const numParticles = Math.floor(this.random.next() * 10) + 12;
 
     // Brighter, more impactful colors
     const colors = ["#FFFFFF", "#FFFF00", "#FFA500", "#FF6600", "#FFAAAA", "#AAFFFF"];
 
     for (let i = 0; i < numParticles; i++) {
       // Random angle for the particle - slightly favor horizontal direction for a more dynamic effect
-      const horizontalBias = Math.random() > 0.5 ? 0 : Math.PI / 4;
-      const angle = Math.random() * Math.PI * 1.5 + horizontalBias;
+      const horizontalBias = this.random.next() > 0.5 ? 0 : Math.PI / 4;
+      const angle = this.random.next() * Math.PI * 1.5 + horizontalBias;
 
       // Faster particles for more energetic effect
-      const speed = Math.random() * 150 + 120;
+      const speed = this.random.next() * 150 + 120;
 
       // Add slight variation to starting position
-      const offsetX = (Math.random() - 0.5) * 6;
-      const offsetY = (Math.random() - 0.5) * 6;
+      const offsetX = (this.random.next() - 0.5) * 6;
+      const offsetY = (this.random.next() - 0.5) * 6;
 
       // Create particle
       this.particles.push({
         position: new Vector2(this.position.x + offsetX, this.position.y + offsetY),
         velocity: new Vector2(Math.cos(angle) * speed, Math.sin(angle) * speed),
-        size: Math.random() * 6 + 3, // Larger particles for more visibility
-        color: colors[Math.floor(Math.random() * colors.length)],
-        lifeTime: this.maxLifeTime * (0.3 + Math.random() * 0.7), // Varied lifetimes
+        size: this.random.next() * 6 + 3, // Larger particles for more visibility
+        color: colors[Math.floor(this.random.next() * colors.length)],
+        lifeTime: this.maxLifeTime * (0.3 + this.random.next() * 0.7), // Varied lifetimes
       });
     }
   }
@@ -164,9 +168,11 @@ export class PoofEffect extends GameObject {
     lifeTime: number;
     alpha: number;
   }>;
+  private random: RandomStream;
 
-  constructor(x: number, y: number) {
+  constructor(x: number, y: number, random: RandomStream = unseededRandom.cosmetic) {
     super({ x, y, width: 1, height: 1 });
+    this.random = random;
     this.maxLifeTime = 0.6;
     this.lifeTime = this.maxLifeTime;
     this.particles = [];
@@ -174,7 +180,7 @@ export class PoofEffect extends GameObject {
   }
 
   generateParticles(): void {
-    const numParticles = Math.floor(Math.random() * 6) + 10;
+    const numParticles = Math.floor(this.random.next() * 6) + 10;
     const colors = [
       "rgba(255,255,255,0.7)",
       "rgba(220,220,220,0.5)",
@@ -183,16 +189,16 @@ export class PoofEffect extends GameObject {
       "rgba(240,240,240,0.8)",
     ];
     for (let i = 0; i < numParticles; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const speed = Math.random() * 40 + 20;
-      const offsetX = (Math.random() - 0.5) * 8;
-      const offsetY = (Math.random() - 0.5) * 8;
+      const angle = this.random.next() * Math.PI * 2;
+      const speed = this.random.next() * 40 + 20;
+      const offsetX = (this.random.next() - 0.5) * 8;
+      const offsetY = (this.random.next() - 0.5) * 8;
       this.particles.push({
         position: new Vector2(this.position.x + offsetX, this.position.y + offsetY),
         velocity: new Vector2(Math.cos(angle) * speed, Math.sin(angle) * speed),
-        size: Math.random() * 12 + 10,
-        color: colors[Math.floor(Math.random() * colors.length)],
-        lifeTime: this.maxLifeTime * (0.5 + Math.random() * 0.5),
+        size: this.random.next() * 12 + 10,
+        color: colors[Math.floor(this.random.next() * colors.length)],
+        lifeTime: this.maxLifeTime * (0.5 + this.random.next() * 0.5),
         alpha: 1.0,
       });
     }
@@ -1,4 +1,6 @@
 import type { GameState } from "../engine/GameState";
+import type { RandomService } from "../engine/Random";
+import { unseededRandom } from "../engine/Random";
 import { Vector2 } from "../engine/Vector2.js";
 import type { ChainReactionTarget } from "./crystal/ChainReactionManager.js";
 import { ChainReactionManager } from "./crystal/ChainReactionManager.js";
@@ -30,6 +32,7 @@ export class MemoryCrystal implements ChainReactionTarget {
   private visualEffects: CrystalVisualEffects;
   private chainReactionManager: ChainReactionManager;
   private renderer: CrystalRenderer;
+  private random: RandomService;
 
   // Shake effect properties to emphasize impact when crystal is hit
   private shakeOffset: Vector2 = vec2(0, 0);
@@ -38,7 +41,13 @@ export class MemoryCrystal implements ChainReactionTarget {
   private shakeType: 'random' | 'horizontal' | 'vertical' = 'horizontal';
   private shakeFrequency: number = 25;
 
-  constructor(x: number, y: number, type: string | CrystalType = "azure") {
+  constructor(
+    x: number,
+    y: number,
+    type: string | CrystalType = "azure",
+    random: RandomService = unseededRandom,
+  ) {
+    this.random = random;
     this.position = vec2(x, y);
     this.size = vec2(20, 24);
     this.isActive = true;
@@ -48,8 +57,8 @@ export class MemoryCrystal implements ChainReactionTarget {
     this.pieces = [];
     this.crystalType = toCrystalType(type);
 
-    this.particleSystem = new ParticleSystem(this.position, this.size);
-    this.visualEffects = new CrystalVisualEffects();
+    this.particleSystem = new ParticleSystem(this.position, this.size, random.cosmetic);
+    this.visualEffects = new CrystalVisualEffects(random.cosmetic);
     this.chainReactionManager = new ChainReactionManager();
     this.renderer = new CrystalRenderer(this.position, this.size);
 
@@ -135,12 +144,14 @@ export class MemoryCrystal implements ChainReactionTarget {
 
     this.chainReactionManager.setTriggeredByChain(true);
 
-    if (delay > 0) {
-      setTimeout(() => {
+    // The delay runs on the game clock so chains stay in step with the simulation; without a
+    // game to run it the crystal breaks straight away
+    if (delay > 0 && this._gameState) {
+      this._gameState.schedule(delay, () => {
         if (this.isActive && !this.isBreaking) {
           this.break();
         }
-      }, delay * 1000);
+      });
     } else {
       this.break();
     }
@@ -192,14 +203,17 @@ export class MemoryCrystal implements ChainReactionTarget {
     const numPieces = 6;
     for (let i = 0; i < numPieces; i++) {
       const angle = (i / numPieces) * Math.PI * 2;
-      const speed = 60 + Math.random() * 40;
+      const speed = 60 + this.random.cosmetic.next() * 40;
 
+      const centerX = this.position.x + this.size.x / 2;
+      const centerY = this.position.y + this.size.y / 2;
       this.pieces.push({
-        position: vec2(this.position.x + this.size.x / 2, this.position.y + this.size.y / 2),
+        position: vec2(centerX, centerY),
+        previousPosition: vec2(centerX, centerY),
         velocity: vec2(Math.cos(angle) * speed, Math.sin(angle) * speed - 30),
-        rotationSpeed: (Math.random() - 0.5) * 8,
+        rotationSpeed: (this.random.cosmetic.next() - 0.5) * 8,
         rotation: 0,
-        size: 3 + Math.random() * 4,
+        size: 3 + this.random.cosmetic.next() * 4,
         opacity: 1,
       });
     }
@@ -236,7 +250,7 @@ export class MemoryCrystal implements ChainReactionTarget {
     const gameState = this._gameState;
     if (gameState?.player) {
       const memoryData = {
-        id: `memory_${Date.now()}`,
+        id: `memory_${gameState.clock.now()}`,
         type: this.crystalType,
         discovered: new Date().toISOString(),
         text: "", // Add text if needed
@@ -263,6 +277,7 @@ export class MemoryCrystal implements ChainReactionTarget {
           this.position.x + this.size.x / 2 - 4,
           this.position.y + this.size.y / 2 - 8,
           expValue,
+          this.random,
         ),
       );
     }
@@ -348,6 +363,16 @@ export class MemoryCrystal implements ChainReactionTarget {
     ctx.restore();
   }
 
+  /**
+   * Remember where the flying pieces are as the start of the next simulation step
+   */
+  savePreviousPosition(): void {
+    for (const piece of this.pieces) {
+      piece.previousPosition.x = piece.position.x;
+      piece.previousPosition.y = piece.position.y;
+    }
+  }
+
   getBounds(): { left: number; right: number; top: number; bottom: number } {
     return {
       left: this.position.x,
@@ -394,8 +419,8 @@ export class MemoryCrystal implements ChainReactionTarget {
         
         default:
           // Original random shake
-          this.shakeOffset.x = (Math.random() - 0.5) * 2 * this.shakeIntensity;
-          this.shakeOffset.y = (Math.random() - 0.5) * 2 * this.shakeIntensity;
+          this.shakeOffset.x = (this.random.cosmetic.next() - 0.5) * 2 * this.shakeIntensity;
+          this.shakeOffset.y = (this.random.cosmetic.next() - 0.5) * 2 * this.shakeIntensity;
           break;
       }
 
@@ -19,6 +19,12 @@ export class Platform extends GameObject {
     this.highlightColor = this.adjustColor(color, 20);
   }
 
+  setColor(color: string): void {
+    this.color = color;
+    this.shadowColor = this.adjustColor(color, -20);
+    this.highlightColor = this.adjustColor(color, 20);
+  }
+
   // Helper to darken/lighten a color
   adjustColor(color: string, amount: number): string {
     const hex = color.replace("#", "");
@@ -3,6 +3,11 @@ import type { Player } from "./player";
 
 export const PlayerRenderer = {
   render(player: Player, ctx: CanvasRenderingContext2D): void {
+    if (player.isDead) {
+      this.renderDeath(player, ctx);
+      return;
+    }
+
     ctx.save();
 
     // Flicker when invulnerable
@@ -43,6 +48,43 @@ export const PlayerRenderer = {
     ctx.restore();
   },
 
+  /**
+   * Flash red, then topple over and fade out for the rest of the death sequence
+   */
+  renderDeath(player: Player, ctx: CanvasRenderingContext2D): void {
+    const renderPos = player.getRenderPosition();
+    const progress = Math.min(1, player.deathTimer / player.deathDuration);
+    const flashPhase = 0.3;
+
+    ctx.save();
+
+    // Pivot around the feet so the body falls sideways onto the ground
+    const pivotX = renderPos.x + player.size.x / 2;
+    const pivotY = renderPos.y + player.size.y;
+    const fall = Math.min(1, progress / 0.5);
+    ctx.translate(pivotX, pivotY);
+    ctx.rotate((player.facingRight ? -1 : 1) * fall * (Math.PI / 2));
+    ctx.translate(-pivotX, -pivotY);
+
+    if (progress > flashPhase) {
+      ctx.globalAlpha = Math.max(0, 1 - (progress - flashPhase) / (1 - flashPhase));
+    }
+
+    const flashing = progress < flashPhase && Math.floor(player.deathTimer * 20) % 2 === 0;
+    ctx.fillStyle = flashing ? "#FF2222" : "#8B4513";
+    ctx.fillRect(renderPos.x, renderPos.y, player.size.x, player.size.y);
+
+    ctx.fillStyle = flashing ? "#FFAAAA" : "#FFE4C4";
+    ctx.fillRect(renderPos.x + 8, renderPos.y + 8, 16, 16);
+
+    // Closed eyes
+    ctx.fillStyle = "#000";
+    ctx.fillRect(renderPos.x + 9, renderPos.y + 13, 4, 1);
+    ctx.fillRect(renderPos.x + 19, renderPos.y + 13, 4, 1);
+
+    ctx.restore();
+  },
+
   renderChargingEffects(
     player: Player,
     ctx: CanvasRenderingContext2D,
@@ -201,7 +243,7 @@ export const PlayerRenderer = {
       ctx.shadowBlur = 4;
       for (let i = 0; i < 4; i++) {
         const sparkAngle = (i / 4) * Math.PI * 2;
-        const sparkDist = 6 + Math.random() * 4;
+        const sparkDist = player.random.cosmetic.range(6, 10);
         const sparkX = swordEndX + Math.cos(sparkAngle) * sparkDist;
         const sparkY = swordEndY + Math.sin(sparkAngle) * sparkDist;
         ctx.fillRect(sparkX - 0.5, sparkY - 0.5, 1, 1);
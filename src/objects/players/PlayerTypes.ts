@@ -5,7 +5,25 @@ export interface Memory {
   discovered: string;
 }
 
+/**
+ * Everything about the player that outlives a room or a session
+ */
+export interface PlayerProgress {
+  level: number;
+  exp: number;
+  expToNext: number;
+  maxHealth: number;
+  health: number;
+  strength: number;
+  defense: number;
+  speedStat: number;
+  memories: Memory[];
+}
+
 export interface PlayerInput {
   isKeyDown(key: string): boolean;
   isKeyPressed(key: string): boolean;
+  isKeyReleased(key: string): boolean;
+  // Analog horizontal movement in [-1, 1]; 0 when no stick is in use
+  getMoveAxis?(): number;
 }
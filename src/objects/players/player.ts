@@ -1,16 +1,24 @@
 import { GameObject } from "../../engine/GameObject";
+import { GameAction } from "../../engine/InputBindings";
+import type { RandomService } from "../../engine/Random";
+import { unseededRandom } from "../../engine/Random";
 
 import type { GameState } from "../../engine/GameState";
-import type { DiagonalPlatform } from "../diagonalPlatform";
 import * as PlayerAttack from "./PlayerAttack";
 import { PlayerMovement } from "./PlayerMovement";
 import { PlayerPhysics } from "./PlayerPhysics";
 import { PlayerRenderer } from "./PlayerRenderer";
 import { PlayerStats } from "./PlayerStats";
 import { PlayerTimers } from "./PlayerTimers";
-import type { Memory, PlayerInput } from "./PlayerTypes";
+import type { Memory, PlayerInput, PlayerProgress } from "./PlayerTypes";
+
+// How far below a solid block's top the feet can be on a slope and still step onto it
+const SLOPE_STEP_HEIGHT = 8;
 
 export class Player extends GameObject {
+  // Downward acceleration in pixels per second squared
+  static readonly GRAVITY = 800;
+
   speed: number;
   jumpPower: number;
   grounded: boolean;
@@ -46,8 +54,16 @@ export class Player extends GameObject {
   chargeLevel: number; // 0 = no charge, 1 = partial, 2 = full charge
   chargingSound: boolean;
 
-  constructor(x: number, y: number) {
+  // Death sequence: the body drops and fades before LifeSystem respawns it
+  isDead: boolean = false;
+  deathTimer: number = 0;
+  deathDuration: number = 1.5;
+
+  random: RandomService;
+
+  constructor(x: number, y: number, random: RandomService = unseededRandom) {
     super({ x, y, width: 32, height: 48 });
+    this.random = random;
     this.level = 1;
     this.exp = 0;
     this.expToNext = PlayerStats.BASE_EXP_TO_NEXT;
@@ -85,6 +101,11 @@ export class Player extends GameObject {
   }
 
   update(deltaTime: number, gameState: GameState): void {
+    if (this.isDead) {
+      this.updateDeath(deltaTime, gameState);
+      return;
+    }
+
     this.handleInput(gameState.input, deltaTime, gameState);
     this.updatePhysics(deltaTime, gameState);
     this.updateTimers(deltaTime);
@@ -106,20 +127,55 @@ export class Player extends GameObject {
     }
   }
 
+  getProgress(): PlayerProgress {
+    return {
+      level: this.level,
+      exp: this.exp,
+      expToNext: this.expToNext,
+      maxHealth: this.maxHealth,
+      health: this.health,
+      strength: this.strength,
+      defense: this.defense,
+      speedStat: this.speedStat,
+      memories: this.memories.map((memory) => ({ ...memory })),
+    };
+  }
+
+  /**
+   * Restore saved progression. Health is clamped so a corrupt save can't start the player dead.
+   */
+  applyProgress(progress: PlayerProgress): void {
+    this.level = progress.level;
+    this.exp = progress.exp;
+    this.expToNext = progress.expToNext;
+    this.maxHealth = progress.maxHealth;
+    this.health = Math.max(1, Math.min(progress.health, progress.maxHealth));
+    this.strength = progress.strength;
+    this.defense = progress.defense;
+    this.speedStat = progress.speedStat;
+    this.speed = this.speedStat;
+    this.memories = progress.memories.map((memory) => ({ ...memory }));
+  }
+
   handleInput(input: PlayerInput, _deltaTime: number, gameState?: GameState): void {
     // Movement
-    if (input.isKeyDown("ArrowLeft")) {
+    const moveAxis = input.getMoveAxis?.() ?? 0;
+    if (input.isKeyDown(GameAction.MoveLeft)) {
       this.velocity.x = -this.speed;
       this.facingRight = false;
-    } else if (input.isKeyDown("ArrowRight")) {
+    } else if (input.isKeyDown(GameAction.MoveRight)) {
       this.velocity.x = this.speed;
       this.facingRight = true;
+    } else if (moveAxis !== 0) {
+      // Analog stick: speed scales with how far it is pushed
+      this.velocity.x = moveAxis * this.speed;
+      this.facingRight = moveAxis > 0;
     } else {
       this.velocity.x = 0;
     }
 
     // Jump with improved feel - variable height based on how long the jump button is pressed
-    if (input.isKeyPressed("Space") && (this.grounded || this.coyoteTimer > 0)) {
+    if (input.isKeyPressed(GameAction.Jump) && (this.grounded || this.coyoteTimer > 0)) {
       this.velocity.y = -this.jumpPower;
       this.grounded = false;
       this.coyoteTimer = 0; // Used up coyote time
@@ -128,25 +184,25 @@ export class Player extends GameObject {
       this.position.y -= 5;
     }
     // Cut jump short if key is released during upward movement (variable jump height)
-    else if (!input.isKeyDown("Space") && this.velocity.y < 0) {
+    else if (!input.isKeyDown(GameAction.Jump) && this.velocity.y < 0) {
       this.velocity.y *= 0.5; // Reduce upward velocity when jump key released
     }
 
-    // MP Ability system - Z+X key combination for Power Surge
-    if (input.isKeyPressed("KeyZ") && input.isKeyDown("KeyX") && gameState) {
+    // MP Ability system - Cast while holding Attack for Power Surge
+    if (input.isKeyPressed(GameAction.Cast) && input.isKeyDown(GameAction.Attack) && gameState) {
       // Try to activate Power Surge ability
       gameState.mpAbilitySystem.activateAbility('power_surge', this, gameState);
     }
-    // Attack system - X key handling (only if Z is not pressed)
-    else if (input.isKeyPressed("KeyX") && !input.isKeyDown("KeyZ") && !this.attacking && this.attackCooldownTimer <= 0) {
+    // Attack system - only if Cast is not held
+    else if (input.isKeyPressed(GameAction.Attack) && !input.isKeyDown(GameAction.Cast) && !this.attacking && this.attackCooldownTimer <= 0) {
       PlayerAttack.performAttack(this, gameState);
-    } else if (input.isKeyDown("KeyX") && !input.isKeyDown("KeyZ") && !this.attacking && this.attackCooldownTimer <= 0) {
+    } else if (input.isKeyDown(GameAction.Attack) && !input.isKeyDown(GameAction.Cast) && !this.attacking && this.attackCooldownTimer <= 0) {
       if (!this.isChargingAttack) {
         this.isChargingAttack = true;
         this.chargeTime = 0;
         this.chargeLevel = 0;
       }
-    } else if (this.isChargingAttack && !input.isKeyDown("KeyX")) {
+    } else if (this.isChargingAttack && input.isKeyReleased(GameAction.Attack)) {
       if (this.power >= this.maxPower && this.chargeLevel >= 2) {
         PlayerAttack.releaseChargedAttack(this, gameState);
       } else {
@@ -159,14 +215,29 @@ export class Player extends GameObject {
 
   updatePhysics(deltaTime: number, gameState: GameState): void {
     // Gravity
-    this.velocity.y += 800 * deltaTime;
+    this.velocity.y += Player.GRAVITY * deltaTime;
+
+    // Level objects plus the colliders built from the level's tiles
+    const platforms = gameState.getCollisionPlatforms();
+    const solidBlocks = gameState.getCollisionSolidBlocks();
+    const diagonalPlatforms = gameState.getCollisionDiagonalPlatforms();
 
     // Handle horizontal movement first
     const nextX = this.position.x + this.velocity.x * deltaTime;
     let canMoveHorizontally = true;
 
+    // Feet on a slope trail the ramp surface slightly, so the corner of the ground where a
+    // ramp tops out sits just above them; walk over it rather than into it
+    const bottom = this.position.y + this.size.y;
+    const onSlope =
+      this.grounded &&
+      diagonalPlatforms.some((diagonal) =>
+        diagonal.isPlayerOnSurface(this.position.x, this.position.x + this.size.x, bottom),
+      );
+
     // Check horizontal collisions with solid blocks only
-    for (const solidBlock of gameState.solidBlocks) {
+    for (const solidBlock of solidBlocks) {
+      if (onSlope && bottom - solidBlock.position.y < SLOPE_STEP_HEIGHT) continue;
       if (
         PlayerPhysics.wouldCollideHorizontally(
           nextX,
@@ -183,7 +254,7 @@ export class Player extends GameObject {
 
     // Additional check: Prevent walking through a platform that sits on top of a solid block
     if (canMoveHorizontally) {
-      for (const platform of gameState.platforms) {
+      for (const platform of platforms) {
         if (
           PlayerPhysics.wouldCollideHorizontally(
             nextX,
@@ -198,7 +269,7 @@ export class Player extends GameObject {
           const platformLeft = platform.position.x;
           const platformRight = platform.position.x + platform.size.x;
           let solidBelow = false;
-          for (const solidBlock of gameState.solidBlocks) {
+          for (const solidBlock of solidBlocks) {
             const solidTop = solidBlock.position.y;
             const solidLeft = solidBlock.position.x;
             const solidRight = solidBlock.position.x + solidBlock.size.x;
@@ -226,7 +297,7 @@ export class Player extends GameObject {
 
       // Check if player is walking on a diagonal platform and adjust Y position
       if (this.grounded) {
-        for (const diagonalPlatform of gameState.diagonalPlatforms as DiagonalPlatform[]) {
+        for (const diagonalPlatform of diagonalPlatforms) {
           const playerLeft = this.position.x;
           const playerRight = this.position.x + this.size.x;
           const playerBottom = this.position.y + this.size.y;
@@ -252,9 +323,9 @@ export class Player extends GameObject {
 
     // Type compatibility fix for gameState
     const gameStateAdapter = {
-      platforms: gameState.platforms,
-      solidBlocks: gameState.solidBlocks,
-      diagonalPlatforms: gameState.diagonalPlatforms,
+      platforms,
+      solidBlocks,
+      diagonalPlatforms,
       levelManager: gameState.levelManager,
       currentLevelId: gameState.currentLevelId || undefined,
     };
@@ -322,6 +393,89 @@ export class Player extends GameObject {
     PlayerRenderer.render(this, ctx);
   }
 
+  /**
+   * Health never drops below zero; reaching it starts the death sequence instead of deactivating
+   */
+  takeDamage(amount: number): void {
+    if (this.isDead) return;
+
+    this.health = Math.max(0, this.health - amount);
+    if (this.health === 0) {
+      this.die();
+    }
+  }
+
+  die(): void {
+    this.isDead = true;
+    this.deathTimer = 0;
+    this.health = 0;
+    this.attacking = false;
+    this.attackAnimationPhase = 0;
+    this.isChargingAttack = false;
+    this.chargeTime = 0;
+    this.chargeLevel = 0;
+    this.invulnerable = false;
+    this.invulnerabilityTimer = 0;
+    this.velocity.x = 0;
+    this.velocity.y = -250; // Small hop before falling
+  }
+
+  isDeathAnimationComplete(): boolean {
+    return this.isDead && this.deathTimer >= this.deathDuration;
+  }
+
+  /**
+   * Bring the player back at the given position with full health and brief invulnerability
+   */
+  respawn(x: number, y: number): void {
+    this.isDead = false;
+    this.deathTimer = 0;
+    this.health = this.maxHealth;
+    this.power = 0;
+    this.position.x = x;
+    this.position.y = y;
+    this.velocity.x = 0;
+    this.velocity.y = 0;
+    this.grounded = false;
+    this.savePreviousPosition();
+    this.invulnerable = true;
+    this.invulnerabilityTimer = this.invulnerabilityDuration * 2;
+  }
+
+  /**
+   * Place the player at a room's entry point. Stats, health and memories carry over;
+   * only the in-progress motion and attack are dropped.
+   */
+  enterRoom(x: number, y: number): void {
+    this.position.x = x;
+    this.position.y = y;
+    this.velocity.x = 0;
+    this.velocity.y = 0;
+    this.grounded = false;
+    this.coyoteTimer = 0;
+    this.attacking = false;
+    this.attackTimer = 0;
+    this.attackAnimationPhase = 0;
+    this.isChargingAttack = false;
+    this.chargeTime = 0;
+    this.chargeLevel = 0;
+    this.savePreviousPosition();
+  }
+
+  private updateDeath(deltaTime: number, gameState: GameState): void {
+    this.deathTimer += deltaTime;
+    this.velocity.y += Player.GRAVITY * deltaTime;
+
+    const nextY = this.position.y + this.velocity.y * deltaTime;
+    PlayerMovement.handleVerticalMovement(this, nextY, {
+      platforms: gameState.getCollisionPlatforms(),
+      solidBlocks: gameState.getCollisionSolidBlocks(),
+      diagonalPlatforms: gameState.getCollisionDiagonalPlatforms(),
+      levelManager: gameState.levelManager,
+      currentLevelId: gameState.currentLevelId || undefined,
+    });
+  }
+
   gainExp(amount: number): void {
     this.exp += amount;
     while (this.exp >= this.expToNext) {
@@ -49,7 +49,7 @@ export class EnergyBlast extends GameObject {
     this.position.y += this.velocity.y * deltaTime;
 
     // Check collision with solid blocks
-    for (const solidBlock of gameState.solidBlocks) {
+    for (const solidBlock of gameState.getCollisionSolidBlocks()) {
       if (this.checkCollision(solidBlock)) {
         this.active = false;
         gameState.createHitSpark(this.position.x, this.position.y);
@@ -69,7 +69,7 @@ export class EnergyBlast extends GameObject {
     }
 
     // Update shake effect
-    this.updateShake(deltaTime, false);
+    this.updateShake(deltaTime, false, gameState.random.cosmetic);
   }
 
   checkCollision(other: GameObject): boolean {
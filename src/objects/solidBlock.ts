@@ -21,6 +21,13 @@ export class SolidBlock extends GameObject {
     this.borderColor = this.adjustColor(color, -50);
   }
 
+  setColor(color: string): void {
+    this.color = color;
+    this.shadowColor = this.adjustColor(color, -30);
+    this.highlightColor = this.adjustColor(color, 40);
+    this.borderColor = this.adjustColor(color, -50);
+  }
+
   // Helper to darken/lighten a color
   adjustColor(color: string, amount: number): string {
     const hex = color.replace("#", "");
@@ -1,3 +1,5 @@
+import type { Clock } from "../engine/Clock";
+import { systemClock } from "../engine/Clock";
 import type { Vector2 } from "../engine/Vector2";
 import type { ChainReactionData, ChainReactionResult } from "./MPManager";
 
@@ -24,6 +26,7 @@ export class ChainReactionTracker {
   private activeChains: Map<string, ChainReactionData> = new Map();
   private chainIdCounter: number = 0;
   private completedChains: ChainReactionResult[] = [];
+  private clock: Clock;
   
   // Timing configuration
   private readonly OPTIMAL_TIMING_WINDOW = 0.5; // 0.5 seconds for perfect timing
@@ -35,12 +38,16 @@ export class ChainReactionTracker {
   private onChainExtendCallbacks: Array<(chainId: string, crystal: ChainReactionTarget, chainLength: number) => void> = [];
   private onChainCompleteCallbacks: Array<(result: ChainReactionResult) => void> = [];
 
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
   /**
    * Start tracking a new chain reaction
    */
   startChainTracking(crystal: ChainReactionTarget): string {
     const chainId = `chain_${this.chainIdCounter++}`;
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
 
     const chainData: ChainReactionData = {
       id: chainId,
@@ -69,7 +76,7 @@ export class ChainReactionTracker {
       return false;
     }
 
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     const timeSinceLastAdd = (currentTime - chain.lastAddTime) / 1000;
 
     // Check if too much time has passed
@@ -105,7 +112,7 @@ export class ChainReactionTracker {
     // Mark chain as complete
     chain.isComplete = true;
 
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     const totalChainTime = (currentTime - chain.startTime) / 1000;
     const chainLength = chain.crystals.length;
 
@@ -181,7 +188,7 @@ export class ChainReactionTracker {
       return false;
     }
 
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     const timeSinceLastAdd = (currentTime - chain.lastAddTime) / 1000;
 
     return timeSinceLastAdd <= this.CHAIN_DELAY_TOLERANCE;
@@ -262,7 +269,7 @@ export class ChainReactionTracker {
    * Clean up expired chains
    */
   update(_deltaTime: number): void {
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     const expiredChains: string[] = [];
 
     for (const [chainId, chain] of this.activeChains) {
@@ -107,7 +107,7 @@ export class CollisionSystem implements ISystem {
   }
 
   private checkEnemyPlayerCollisions(gameState: GameState): void {
-    if (gameState.player.invulnerable) return;
+    if (gameState.player.invulnerable || gameState.player.isDead) return;
 
     const playerBounds = gameState.player.getBounds();
 
@@ -151,9 +151,9 @@ export class CollisionSystem implements ISystem {
 
   private checkPlayerPlatformCollisions(gameState: GameState): void {
     const player = gameState.player;
-    const platforms = gameState.platforms;
-    const solidBlocks = gameState.solidBlocks;
-    const diagonalPlatforms = gameState.diagonalPlatforms;
+    const platforms = gameState.getCollisionPlatforms();
+    const solidBlocks = gameState.getCollisionSolidBlocks();
+    const diagonalPlatforms = gameState.getCollisionDiagonalPlatforms();
 
     // Check regular platform collisions
     for (const platform of platforms) {
@@ -176,7 +176,7 @@ export class CollisionSystem implements ISystem {
       if (!enemy.active) continue;
 
       // Check solid block collisions for enemies
-      for (const solidBlock of gameState.solidBlocks) {
+      for (const solidBlock of gameState.getCollisionSolidBlocks()) {
         if (this.wouldEnemyCollideHorizontally(enemy, solidBlock)) {
           // Enemy should reverse direction
           if (enemy.direction) {
@@ -267,7 +267,7 @@ export class CollisionSystem implements ISystem {
   }
 
   private damagePlayer(gameState: GameState, source: Enemy): void {
-    if (gameState.player.invulnerable) return;
+    if (gameState.player.invulnerable || gameState.player.isDead) return;
 
     const damage = source.damage || 1;
     gameState.player.takeDamage(damage);
@@ -35,6 +35,14 @@ export class ComboSystem {
     this.scale = 1.8 + extra;
   }
 
+  /** Clears the combo immediately (level restarts, replays). */
+  reset(): void {
+    this.count = 0;
+    this.timer = 0;
+    this.scale = 1;
+    this.flashTimer = 0;
+  }
+
   /** Gets the current combo count */
   getComboCount(): number {
     return this.count;
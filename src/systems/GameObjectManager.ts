@@ -1,5 +1,7 @@
 import type { Enemy } from "@/objects/enemies/enemy";
 import type { GameState } from "../engine/GameState";
+import type { RandomService } from "../engine/Random";
+import { unseededRandom } from "../engine/Random";
 import type { ICollidable, IRenderable, IUpdateable } from "../interfaces/GameInterfaces";
 import type { DiagonalPlatform } from "../objects/diagonalPlatform";
 import type { Experience } from "../objects/experience";
@@ -24,11 +26,14 @@ export class GameObjectManager {
     amount: number;
     x: number;
     y: number;
+    previousY: number;
     alpha: number;
     vy: number;
     time: number;
   }> = [];
 
+  private random: RandomService = unseededRandom;
+
   /**
    * Initialize the manager with existing game state data
    */
@@ -43,6 +48,7 @@ export class GameObjectManager {
     this.experiences = gameState.experiences || [];
     this.poofEffects = gameState.poofEffects || [];
     this.floatingExpIndicators = gameState.floatingExpIndicators || [];
+    this.random = gameState.random;
   }
 
   /**
@@ -125,11 +131,11 @@ export class GameObjectManager {
   }
 
   addHitSpark(x: number, y: number): void {
-    this.hitSparks.push(new HitSpark(x, y));
+    this.hitSparks.push(new HitSpark(x, y, this.random.cosmetic));
   }
 
   addPoofEffect(x: number, y: number): void {
-    this.poofEffects.push(new PoofEffect(x, y));
+    this.poofEffects.push(new PoofEffect(x, y, this.random.cosmetic));
   }
 
   addFloatingExpIndicator(amount: number, x: number, y: number): void {
@@ -137,8 +143,9 @@ export class GameObjectManager {
       amount,
       x,
       y,
+      previousY: y,
       alpha: 1,
-      vy: 32 + Math.random() * 16,
+      vy: this.random.cosmetic.range(32, 48),
       time: 0,
     });
   }
@@ -1,3 +1,6 @@
+import type { Clock } from "../engine/Clock";
+import { systemClock } from "../engine/Clock";
+
 // Core interfaces for hit feedback system
 export interface HitFeedbackConfig {
   intensity: number;
@@ -101,8 +104,10 @@ export class HitFeedbackManager {
   private impactCalculator: HitImpactCalculator;
   private state: HitFeedbackState;
   private feedbackIdCounter: number = 0;
+  private clock: Clock;
 
-  constructor() {
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
     this.impactCalculator = new HitImpactCalculator();
     this.state = {
       activeFeedbacks: new Map(),
@@ -162,7 +167,7 @@ export class HitFeedbackManager {
   preventFeedbackStacking(): boolean {
     if (!this.state.stackingPrevention) return false;
     
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     const timeSinceLastHit = currentTime - this.state.lastHitTime;
     
     // Prevent stacking if hits occur within 50ms
@@ -180,7 +185,7 @@ export class HitFeedbackManager {
     
     const intensity = this.calculateFeedbackIntensity(config);
     const feedbackId = `feedback_${this.feedbackIdCounter++}`;
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     
     // Create feedback instance
     const feedback: FeedbackInstance = {
@@ -202,7 +207,7 @@ export class HitFeedbackManager {
    * Update feedback system (call each frame)
    */
   update(_deltaTime: number): void {
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     
     // Clean up expired feedbacks
     for (const [id, feedback] of this.state.activeFeedbacks) {
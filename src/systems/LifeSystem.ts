@@ -0,0 +1,151 @@
+import type { GameState } from "@/engine/GameState";
+import { GameAction } from "@/engine/InputBindings";
+import { Vector2 } from "@/engine/Vector2";
+import { GameEvent } from "@/interfaces/GameInterfaces";
+import type { PlayerEventData } from "./EventSystem";
+
+/**
+ * Lives, respawning and game over. The player plays its own death animation;
+ * this system decides what happens once it finishes.
+ */
+export class LifeSystem {
+  /** Lives at the start of a run */
+  readonly maxLives: number;
+  private lives: number;
+  private gameOver = false;
+  /** Set once the current death has been counted, so each death costs one life */
+  private deathHandled = false;
+  /** Where the player comes back: the level start until a checkpoint replaces it */
+  private respawnPoint = new Vector2(0, 0);
+  /** Time on the game over screen; continuing is blocked briefly so a mashed key can't skip it */
+  private gameOverTimer = 0;
+  private readonly continueDelay = 1.0;
+
+  constructor(maxLives: number = 3) {
+    this.maxLives = maxLives;
+    this.lives = maxLives;
+  }
+
+  getLives(): number {
+    return this.lives;
+  }
+
+  isGameOver(): boolean {
+    return this.gameOver;
+  }
+
+  getRespawnPoint(): Vector2 {
+    return new Vector2(this.respawnPoint.x, this.respawnPoint.y);
+  }
+
+  setRespawnPoint(x: number, y: number): void {
+    this.respawnPoint = new Vector2(x, y);
+  }
+
+  /** Full lives and no pending death (new run, level restart after game over). */
+  reset(): void {
+    this.lives = this.maxLives;
+    this.gameOver = false;
+    this.deathHandled = false;
+    this.gameOverTimer = 0;
+  }
+
+  /** Call after the player has updated for this tick. */
+  update(deltaTime: number, gameState: GameState): void {
+    const player = gameState.player;
+
+    if (this.gameOver) {
+      this.gameOverTimer += deltaTime;
+      if (
+        this.gameOverTimer >= this.continueDelay &&
+        (gameState.input.isKeyPressed(GameAction.Jump) || gameState.input.isKeyPressed(GameAction.Attack))
+      ) {
+        this.continueAfterGameOver(gameState);
+      }
+      return;
+    }
+
+    if (!player.isDead) return;
+
+    if (!this.deathHandled) {
+      this.deathHandled = true;
+      this.lives = Math.max(0, this.lives - 1);
+      console.log(`Player died, ${this.lives} lives left`);
+
+      const data: PlayerEventData = {
+        player,
+        position: { x: player.position.x, y: player.position.y },
+        health: player.health,
+        level: player.level,
+      };
+      gameState.events.emit(GameEvent.PLAYER_DEATH, data);
+    }
+
+    if (!player.isDeathAnimationComplete()) return;
+
+    if (this.lives > 0) {
+      this.respawn(gameState);
+    } else {
+      this.gameOver = true;
+      this.gameOverTimer = 0;
+      gameState.events.emit(GameEvent.GAME_OVER, { levelId: gameState.currentLevelId });
+    }
+  }
+
+  render(ctx: CanvasRenderingContext2D, gameState: GameState): void {
+    if (!this.gameOver) return;
+
+    const fade = Math.min(1, this.gameOverTimer / this.continueDelay);
+
+    ctx.save();
+    ctx.fillStyle = `rgba(0, 0, 0, ${0.75 * fade})`;
+    ctx.fillRect(0, 0, 800, 600);
+
+    ctx.globalAlpha = fade;
+    ctx.textAlign = "center";
+    ctx.font = "bold 48px 'Orbitron', monospace";
+    ctx.fillStyle = "#8B0000";
+    ctx.strokeStyle = "#000";
+    ctx.lineWidth = 4;
+    ctx.strokeText("GAME OVER", 400, 280);
+    ctx.fillStyle = "#FF4444";
+    ctx.fillText("GAME OVER", 400, 280);
+
+    if (this.gameOverTimer >= this.continueDelay) {
+      const pulse = 0.7 + Math.sin(this.gameOverTimer * 5) * 0.3;
+      ctx.globalAlpha = pulse;
+      ctx.font = "16px 'Orbitron', monospace";
+      ctx.fillStyle = "#FFD700";
+      ctx.fillText(
+        `Press ${gameState.bindings.getLabel(GameAction.Jump)} to continue`,
+        400,
+        330,
+      );
+    }
+    ctx.restore();
+  }
+
+  private respawn(gameState: GameState): void {
+    this.deathHandled = false;
+    gameState.resetEnemies();
+    gameState.player.respawn(this.respawnPoint.x, this.respawnPoint.y);
+
+    const data: PlayerEventData = {
+      player: gameState.player,
+      position: { x: this.respawnPoint.x, y: this.respawnPoint.y },
+      health: gameState.player.health,
+    };
+    gameState.events.emit(GameEvent.PLAYER_RESPAWN, data);
+  }
+
+  /** Restart the level from scratch with a fresh set of lives, keeping the character's progress. */
+  private continueAfterGameOver(gameState: GameState): void {
+    this.reset();
+    if (gameState.currentLevelId) {
+      const progress = gameState.player.getProgress();
+      // Loading the level creates a new player; it comes back with full health
+      gameState.loadLevel(gameState.currentLevelId);
+      gameState.player.applyProgress({ ...progress, health: progress.maxHealth });
+    }
+  }
+}
@@ -1,4 +1,7 @@
+import type { Clock } from "../engine/Clock";
+import { systemClock } from "../engine/Clock";
 import type { GameState } from "../engine/GameState";
+import type { GameAction, InputBindings } from "../engine/InputBindings";
 import type { Player } from "../objects/players/player";
 
 export interface MPAbility {
@@ -8,8 +11,9 @@ export interface MPAbility {
   mpCost: number;
   cooldown: number; // seconds
   unlockLevel: number;
-  keybind: string; // e.g., "Z+X"
-  
+  actions: GameAction[]; // Held together to trigger, e.g. [Cast, Attack]
+
+  getKeybindLabel(bindings: InputBindings): string;
   canActivate(player: Player, gameState: GameState): boolean;
   activate(player: Player, gameState: GameState): void;
   getEffectDuration(): number;
@@ -43,7 +47,14 @@ export abstract class BaseMPAbility implements MPAbility {
   abstract mpCost: number;
   abstract cooldown: number;
   abstract unlockLevel: number;
-  abstract keybind: string;
+  abstract actions: GameAction[];
+
+  /**
+   * Current keys for this ability, e.g. "Z+X"
+   */
+  getKeybindLabel(bindings: InputBindings): string {
+    return this.actions.map((action) => bindings.getLabel(action)).join("+");
+  }
 
   /**
    * Check if ability can be activated
@@ -127,11 +138,13 @@ export abstract class BaseAbilityEffect implements AbilityEffect {
   startTime: number;
   duration: number;
   isActive: boolean = true;
+  protected clock: Clock;
 
-  constructor(abilityId: string, duration: number) {
-    this.id = `effect_${abilityId}_${Date.now()}`;
+  constructor(abilityId: string, duration: number, clock: Clock = systemClock) {
+    this.clock = clock;
+    this.id = `effect_${abilityId}_${clock.now()}`;
     this.abilityId = abilityId;
-    this.startTime = Date.now();
+    this.startTime = clock.now();
     this.duration = duration;
   }
 
@@ -141,7 +154,7 @@ export abstract class BaseAbilityEffect implements AbilityEffect {
   update(deltaTime: number, player: Player, gameState: GameState): void {
     if (!this.isActive) return;
 
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     const elapsed = (currentTime - this.startTime) / 1000;
 
     if (elapsed >= this.duration) {
@@ -168,7 +181,7 @@ export abstract class BaseAbilityEffect implements AbilityEffect {
    * Get remaining time in seconds
    */
   getRemainingTime(): number {
-    const currentTime = Date.now();
+    const currentTime = this.clock.now();
     const elapsed = (currentTime - this.startTime) / 1000;
     return Math.max(0, this.duration - elapsed);
   }
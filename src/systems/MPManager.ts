@@ -1,3 +1,6 @@
+import type { StorageSchema } from "../engine/VersionedStorage";
+import { isFiniteNumber, isRecord, isStringArray, VersionedStorage } from "../engine/VersionedStorage";
+
 // Core interfaces for MP (Magic Points) system
 export interface MPRewardTable {
   singleCrystal: number;
@@ -41,6 +44,42 @@ export interface MPPersistenceData {
   abilitiesUnlocked: string[];
 }
 
+const MP_STORAGE_KEY = 'mp_data';
+
+/**
+ * Versions of the `mp_data` blob
+ * 0: unversioned, any field may be missing (read with `||` fallbacks)
+ * 1: every field present
+ */
+export const MP_DATA_SCHEMA: StorageSchema<MPPersistenceData> = {
+  version: 1,
+  migrations: {
+    0: (data) =>
+      isRecord(data)
+        ? {
+            currentMP: data.currentMP || 0,
+            maxMP: data.maxMP || 100,
+            totalMPEarned: data.totalMPEarned || 0,
+            longestChain: data.longestChain || 0,
+            abilitiesUnlocked: data.abilitiesUnlocked || [],
+          }
+        : data,
+  },
+  validate: isMPPersistenceData,
+};
+
+export function isMPPersistenceData(data: unknown): data is MPPersistenceData {
+  return (
+    isRecord(data) &&
+    isFiniteNumber(data.currentMP) &&
+    isFiniteNumber(data.maxMP) &&
+    data.maxMP > 0 &&
+    isFiniteNumber(data.totalMPEarned) &&
+    isFiniteNumber(data.longestChain) &&
+    isStringArray(data.abilitiesUnlocked)
+  );
+}
+
 /**
  * Central manager for all MP (Magic Points) operations
  * Handles MP earning, spending, persistence, and chain reaction rewards
@@ -75,7 +114,10 @@ export class MPManager {
     }
   };
 
-  constructor() {
+  private storage: VersionedStorage;
+
+  constructor(storage: VersionedStorage = new VersionedStorage()) {
+    this.storage = storage;
     this.loadMP();
   }
 
@@ -229,6 +271,14 @@ export class MPManager {
     console.log(`MP capacity increased by ${amount} | New max: ${this.maxMP}`);
   }
 
+  /**
+   * Set MP to an exact amount (replays restore the recorded starting MP)
+   */
+  setCurrentMP(amount: number): void {
+    this.currentMP = Math.max(0, Math.min(this.maxMP, amount));
+    this.saveMP();
+  }
+
   /**
    * Restore MP (for level completion, items, etc.)
    */
@@ -271,46 +321,48 @@ export class MPManager {
   }
 
   /**
-   * Save MP data to localStorage
+   * Snapshot of the persisted MP fields (also written into save slots)
+   */
+  getPersistenceData(): MPPersistenceData {
+    return {
+      currentMP: this.currentMP,
+      maxMP: this.maxMP,
+      totalMPEarned: this.totalMPEarned,
+      longestChain: this.longestChain,
+      abilitiesUnlocked: Array.from(this.abilitiesUnlocked)
+    };
+  }
+
+  /**
+   * Replace MP state with previously saved (already validated) data
+   */
+  applyPersistenceData(data: MPPersistenceData): void {
+    this.maxMP = data.maxMP;
+    this.currentMP = Math.max(0, Math.min(data.currentMP, data.maxMP));
+    this.totalMPEarned = data.totalMPEarned;
+    this.longestChain = data.longestChain;
+    this.abilitiesUnlocked = new Set(data.abilitiesUnlocked);
+  }
+
+  /**
+   * Save MP data to storage
    */
   saveMP(): void {
     try {
-      const data: MPPersistenceData = {
-        currentMP: this.currentMP,
-        maxMP: this.maxMP,
-        totalMPEarned: this.totalMPEarned,
-        longestChain: this.longestChain,
-        abilitiesUnlocked: Array.from(this.abilitiesUnlocked)
-      };
-      localStorage.setItem('mp_data', JSON.stringify(data));
+      this.storage.write(MP_STORAGE_KEY, MP_DATA_SCHEMA, this.getPersistenceData());
     } catch (error) {
       console.warn('Failed to save MP data:', error);
     }
   }
 
   /**
-   * Load MP data from localStorage
+   * Load MP data from storage. Corrupted data is quarantined by the storage layer and defaults are kept.
    */
   loadMP(): void {
-    try {
-      const saved = localStorage.getItem('mp_data');
-      if (saved) {
-        const data: MPPersistenceData = JSON.parse(saved);
-        this.currentMP = data.currentMP || 0;
-        this.maxMP = data.maxMP || 100;
-        this.totalMPEarned = data.totalMPEarned || 0;
-        this.longestChain = data.longestChain || 0;
-        this.abilitiesUnlocked = new Set(data.abilitiesUnlocked || []);
-        
-        console.log(`MP data loaded: ${this.currentMP}/${this.maxMP} MP`);
-      }
-    } catch (error) {
-      console.warn('Failed to load MP data, using defaults:', error);
-      this.currentMP = 0;
-      this.maxMP = 100;
-      this.totalMPEarned = 0;
-      this.longestChain = 0;
-      this.abilitiesUnlocked = new Set();
+    const data = this.storage.read(MP_STORAGE_KEY, MP_DATA_SCHEMA);
+    if (data) {
+      this.applyPersistenceData(data);
+      console.log(`MP data loaded: ${this.currentMP}/${this.maxMP} MP`);
     }
   }
 
@@ -0,0 +1,197 @@
+import { ManualClock } from "@/engine/Clock";
+import type { GameState } from "@/engine/GameState";
+import type { InputSource } from "@/engine/Input";
+import type { InputRecording, InputRecordingHeader } from "@/engine/InputRecording";
+import { InputRecorder, ReplayInput } from "@/engine/InputRecording";
+import { RandomService } from "@/engine/Random";
+import type { Vector2 } from "@/engine/Vector2";
+import type { PlayerProgress } from "@/objects/players/PlayerTypes";
+import type { MPPersistenceData } from "./MPManager";
+import type { WorldProgressData } from "./WorldProgress";
+
+// Everything a recording or replay resets, so the player's own run can be put back afterwards
+interface RunSnapshot {
+  levelId: string;
+  progress: PlayerProgress;
+  position: Vector2;
+  respawnPoint: Vector2;
+  mp: MPPersistenceData;
+  worldProgress: WorldProgressData;
+}
+
+/**
+ * Records play sessions and plays them back by swapping GameState's input source.
+ * Both start from a fresh load of the level with a known seed.
+ */
+export class ReplayManager {
+  private liveInput: InputSource | null = null;
+  private recorder: InputRecorder | null = null;
+  private playback: ReplayInput | null = null;
+  private recordingHeader: InputRecordingHeader | null = null;
+  private runBefore: RunSnapshot | null = null;
+
+  // Event callbacks
+  private onPlaybackCompleteCallbacks: Array<(recording: InputRecording) => void> = [];
+
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  isPlaying(): boolean {
+    return this.playback !== null;
+  }
+
+  /**
+   * Restart the current level with a fresh seed and start logging input
+   */
+  startRecording(gameState: GameState, tickRate: number): boolean {
+    if (this.isRecording() || this.isPlaying() || !gameState.currentLevelId) {
+      return false;
+    }
+
+    const seed = RandomService.createSeed();
+    // A recorded run starts from a fresh character, which must not reach the save slot
+    this.runBefore = this.captureRun(gameState, gameState.currentLevelId);
+    gameState.saveManager.setAutosaveSuspended(true);
+    gameState.restartRun(seed);
+
+    this.recordingHeader = {
+      levelId: gameState.currentLevelId,
+      seed,
+      tickRate,
+      startTime: gameState.clock.now(),
+      startMP: gameState.mpManager.getCurrentMP(),
+    };
+    this.liveInput = gameState.input;
+    this.recorder = new InputRecorder(gameState.input);
+    gameState.input = this.recorder;
+
+    console.log(`Recording started on ${gameState.currentLevelId} (seed ${seed})`);
+    return true;
+  }
+
+  /**
+   * Stop logging and return the finished recording
+   */
+  stopRecording(gameState: GameState): InputRecording | null {
+    if (!this.recorder || !this.recordingHeader) {
+      return null;
+    }
+
+    const recording = this.recorder.finish(this.recordingHeader);
+    gameState.input = this.recorder.source;
+    // The save slot must only ever see the player's own character
+    this.restoreRun(gameState);
+    gameState.saveManager.setAutosaveSuspended(false);
+    this.recorder = null;
+    this.recordingHeader = null;
+    this.liveInput = null;
+
+    console.log(`Recording stopped after ${recording.tickCount} ticks`);
+    return recording;
+  }
+
+  /**
+   * Reload the recorded level and seed, then drive the game from the recording
+   */
+  startPlayback(gameState: GameState, recording: InputRecording): boolean {
+    if (this.isRecording() || this.isPlaying()) {
+      return false;
+    }
+    if (!gameState.levelManager.getLevelData(recording.levelId)) {
+      console.error(`Replay level ${recording.levelId} is not available`);
+      return false;
+    }
+
+    if (gameState.currentLevelId) {
+      this.runBefore = this.captureRun(gameState, gameState.currentLevelId);
+    }
+    // Nothing a replay does may reach the save slot
+    gameState.saveManager.setAutosaveSuspended(true);
+    if (gameState.currentLevelId !== recording.levelId) {
+      gameState.loadLevel(recording.levelId);
+    }
+    if (gameState.clock instanceof ManualClock) {
+      gameState.clock.setTime(recording.startTime);
+    } else {
+      console.warn("Replay running on a wall clock; chain and ability timing may drift");
+    }
+    gameState.mpManager.setCurrentMP(recording.startMP);
+    gameState.restartRun(recording.seed);
+
+    this.liveInput = gameState.input;
+    this.playback = new ReplayInput(recording);
+    gameState.input = this.playback;
+
+    console.log(`Replay started: ${recording.tickCount} ticks on ${recording.levelId}`);
+    return true;
+  }
+
+  /**
+   * Hand control back to the live input
+   */
+  stopPlayback(gameState: GameState): void {
+    if (!this.playback || !this.liveInput) return;
+
+    const recording = this.playback.recording;
+    gameState.input = this.liveInput;
+    // The save slot must only ever see the player's own character
+    this.restoreRun(gameState);
+    gameState.saveManager.setAutosaveSuspended(false);
+    this.playback = null;
+    this.liveInput = null;
+
+    this.onPlaybackCompleteCallbacks.forEach((callback) => callback(recording));
+  }
+
+  private captureRun(gameState: GameState, levelId: string): RunSnapshot {
+    const { player } = gameState;
+    return {
+      levelId,
+      progress: player.getProgress(),
+      position: player.position.copy(),
+      respawnPoint: gameState.lifeSystem.getRespawnPoint(),
+      mp: gameState.mpManager.getPersistenceData(),
+      worldProgress: gameState.progress.toData(),
+    };
+  }
+
+  /**
+   * Reload the level the player was in and give them back their character, MP and completion
+   * record; the recorded or replayed run started from scratch
+   */
+  private restoreRun(gameState: GameState): void {
+    const snapshot = this.runBefore;
+    if (!snapshot) return;
+    this.runBefore = null;
+
+    gameState.loadLevel(snapshot.levelId);
+    gameState.experiences = [];
+    gameState.energyBlasts = [];
+    gameState.poofEffects = [];
+    gameState.floatingExpIndicators = [];
+
+    // Loading the level swapped in a new player, so look it up only now
+    const { player, lifeSystem } = gameState;
+    player.respawn(snapshot.position.x, snapshot.position.y);
+    player.applyProgress(snapshot.progress);
+    lifeSystem.setRespawnPoint(snapshot.respawnPoint.x, snapshot.respawnPoint.y);
+    gameState.mpManager.applyPersistenceData(snapshot.mp);
+    gameState.mpManager.saveMP();
+    gameState.progress.load(snapshot.worldProgress);
+  }
+
+  /**
+   * Call once per tick before the simulation step
+   */
+  update(gameState: GameState): void {
+    if (this.playback?.isFinished()) {
+      console.log("Replay finished");
+      this.stopPlayback(gameState);
+    }
+  }
+
+  onPlaybackComplete(callback: (recording: InputRecording) => void): void {
+    this.onPlaybackCompleteCallbacks.push(callback);
+  }
+}
@@ -0,0 +1,72 @@
+import type { GameState } from "@/engine/GameState";
+
+type TransitionPhase = "idle" | "fadeOut" | "fadeIn";
+
+/**
+ * Fade to black, swap rooms while the screen is dark, then fade back in.
+ * The world is frozen for the whole transition.
+ */
+export class RoomTransitionSystem {
+  /** Seconds for each half of the fade */
+  readonly fadeDuration: number;
+  private phase: TransitionPhase = "idle";
+  private timer = 0;
+  private targetLevelId = "";
+  private targetEntryId = "";
+
+  constructor(fadeDuration: number = 0.35) {
+    this.fadeDuration = fadeDuration;
+  }
+
+  isActive(): boolean {
+    return this.phase !== "idle";
+  }
+
+  /**
+   * Begin moving to another room. Ignored while a transition is already running.
+   */
+  start(levelId: string, entryId: string): boolean {
+    if (this.isActive()) return false;
+
+    this.phase = "fadeOut";
+    this.timer = 0;
+    this.targetLevelId = levelId;
+    this.targetEntryId = entryId;
+    return true;
+  }
+
+  reset(): void {
+    this.phase = "idle";
+    this.timer = 0;
+  }
+
+  update(deltaTime: number, gameState: GameState): void {
+    if (this.phase === "idle") return;
+
+    this.timer += deltaTime;
+    if (this.timer < this.fadeDuration) return;
+
+    if (this.phase === "fadeOut") {
+      if (!gameState.enterRoom(this.targetLevelId, this.targetEntryId)) {
+        // Stay in the current room; the fade in still plays so the screen doesn't stick on black
+        console.error(`Room transition to ${this.targetLevelId}#${this.targetEntryId} failed`);
+      }
+      this.phase = "fadeIn";
+      this.timer = 0;
+    } else {
+      this.reset();
+    }
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    if (this.phase === "idle") return;
+
+    const progress = Math.min(1, this.timer / this.fadeDuration);
+    const opacity = this.phase === "fadeOut" ? progress : 1 - progress;
+
+    ctx.save();
+    ctx.fillStyle = `rgba(0, 0, 0, ${opacity})`;
+    ctx.fillRect(0, 0, 800, 600);
+    ctx.restore();
+  }
+}
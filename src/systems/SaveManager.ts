@@ -0,0 +1,238 @@
+import type { GameState } from "@/engine/GameState";
+import type { StorageSchema } from "@/engine/VersionedStorage";
+import { isFiniteNumber, isRecord, VersionedStorage } from "@/engine/VersionedStorage";
+import type { PlayerProgress } from "@/objects/players/PlayerTypes";
+import type { MPPersistenceData } from "./MPManager";
+import { isMPPersistenceData } from "./MPManager";
+import type { WorldProgressData } from "./WorldProgress";
+import { isWorldProgressData } from "./WorldProgress";
+
+export const SAVE_SLOT_COUNT = 3;
+
+const SAVE_SLOT_KEY_PREFIX = "save_slot_";
+
+export interface SaveData {
+  // Wall-clock time of the save, for the slot picker
+  savedAt: number;
+  levelId: string;
+  // Where the player resumes: the respawn point at the time of saving
+  position: { x: number; y: number };
+  player: PlayerProgress;
+  mp: MPPersistenceData;
+  progress: WorldProgressData;
+}
+
+/**
+ * Versions of the `save_slot_<n>` blobs. Bump and add a migration when SaveData changes shape.
+ * 0: unversioned, with its own `version: 1` field
+ * 1: versioned envelope; the inner `version` field is gone
+ */
+export const SAVE_DATA_SCHEMA: StorageSchema<SaveData> = {
+  version: 1,
+  migrations: {
+    0: (data) => {
+      if (!isRecord(data)) return data;
+      const { version: _version, ...rest } = data;
+      return rest;
+    },
+  },
+  validate: isSaveData,
+};
+
+function isPlayerProgress(data: unknown): data is PlayerProgress {
+  if (!isRecord(data)) return false;
+  const numbers = ["level", "exp", "expToNext", "maxHealth", "health", "strength", "defense", "speedStat"];
+  return (
+    numbers.every((field) => isFiniteNumber(data[field])) &&
+    Array.isArray(data.memories) &&
+    data.memories.every(
+      (memory) =>
+        isRecord(memory) &&
+        typeof memory.id === "string" &&
+        typeof memory.type === "string" &&
+        typeof memory.text === "string" &&
+        typeof memory.discovered === "string",
+    )
+  );
+}
+
+export function isSaveData(data: unknown): data is SaveData {
+  return (
+    isRecord(data) &&
+    isFiniteNumber(data.savedAt) &&
+    typeof data.levelId === "string" &&
+    isRecord(data.position) &&
+    isFiniteNumber(data.position.x) &&
+    isFiniteNumber(data.position.y) &&
+    isPlayerProgress(data.player) &&
+    isMPPersistenceData(data.mp) &&
+    isWorldProgressData(data.progress)
+  );
+}
+
+/**
+ * What the slot picker shows for a filled slot
+ */
+export interface SaveSlotSummary {
+  slot: number;
+  levelId: string;
+  playerLevel: number;
+  crystalsCollected: number;
+  roomsVisited: number;
+  savedAt: number;
+}
+
+/**
+ * Three save slots in storage. Once a slot is picked, autosaves go to it.
+ */
+export class SaveManager {
+  private storage: VersionedStorage;
+  // Slot autosaves are written to; null until a game is started or continued
+  private activeSlot: number | null = null;
+  // Set while the level editor playtests, so trial runs never overwrite the real save
+  private autosaveSuspended = false;
+
+  // Event callbacks
+  private onSaveCallbacks: Array<(slot: number) => void> = [];
+
+  constructor(storage: VersionedStorage = new VersionedStorage()) {
+    this.storage = storage;
+  }
+
+  getActiveSlot(): number | null {
+    return this.activeSlot;
+  }
+
+  hasSave(slot: number): boolean {
+    return this.load(slot) !== null;
+  }
+
+  getSlotSummary(slot: number): SaveSlotSummary | null {
+    const data = this.load(slot);
+    if (!data) return null;
+
+    return {
+      slot,
+      levelId: data.levelId,
+      playerLevel: data.player.level,
+      crystalsCollected: Object.values(data.progress.collectedCrystals).reduce(
+        (total, crystals) => total + crystals.length,
+        0,
+      ),
+      roomsVisited: data.progress.visitedRooms.length,
+      savedAt: data.savedAt,
+    };
+  }
+
+  onSave(callback: (slot: number) => void): void {
+    this.onSaveCallbacks.push(callback);
+  }
+
+  createSaveData(gameState: GameState): SaveData {
+    const position = gameState.lifeSystem.getRespawnPoint();
+    return {
+      savedAt: Date.now(),
+      levelId: gameState.currentLevelId ?? "",
+      position: { x: position.x, y: position.y },
+      player: gameState.player.getProgress(),
+      mp: gameState.mpManager.getPersistenceData(),
+      progress: gameState.progress.toData(),
+    };
+  }
+
+  /**
+   * Write the current game to a slot
+   */
+  save(slot: number, gameState: GameState): boolean {
+    SaveManager.assertSlot(slot);
+    if (!gameState.currentLevelId) return false;
+
+    try {
+      const data = this.createSaveData(gameState);
+      this.storage.write(SaveManager.slotKey(slot), SAVE_DATA_SCHEMA, data);
+      console.log(`Saved to slot ${slot} (${data.levelId})`);
+      this.onSaveCallbacks.forEach((callback) => callback(slot));
+      return true;
+    } catch (error) {
+      console.warn(`Failed to save slot ${slot}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Read a slot; null when it is empty or had to be quarantined as corrupt
+   */
+  load(slot: number): SaveData | null {
+    SaveManager.assertSlot(slot);
+    return this.storage.read(SaveManager.slotKey(slot), SAVE_DATA_SCHEMA);
+  }
+
+  deleteSlot(slot: number): void {
+    SaveManager.assertSlot(slot);
+    this.storage.remove(SaveManager.slotKey(slot));
+    if (this.activeSlot === slot) {
+      this.activeSlot = null;
+    }
+  }
+
+  /**
+   * Start a fresh game in the slot, overwriting whatever was there
+   */
+  startNewGame(slot: number, gameState: GameState, levelId: string): boolean {
+    SaveManager.assertSlot(slot);
+
+    gameState.mpManager.resetMP();
+    gameState.progress.reset();
+    gameState.lifeSystem.reset();
+    if (!gameState.loadLevel(levelId)) return false;
+
+    this.activeSlot = slot;
+    return this.save(slot, gameState);
+  }
+
+  /**
+   * Resume the game stored in the slot
+   */
+  continueGame(slot: number, gameState: GameState): boolean {
+    const data = this.load(slot);
+    if (!data) return false;
+
+    gameState.lifeSystem.reset();
+    if (!gameState.loadLevel(data.levelId)) {
+      console.error(`Save slot ${slot} refers to missing level ${data.levelId}`);
+      return false;
+    }
+
+    gameState.player.applyProgress(data.player);
+    gameState.player.enterRoom(data.position.x, data.position.y);
+    gameState.lifeSystem.setRespawnPoint(data.position.x, data.position.y);
+    gameState.mpManager.applyPersistenceData(data.mp);
+    gameState.progress.load(data.progress);
+    gameState.progress.markVisited(data.levelId);
+
+    this.activeSlot = slot;
+    return true;
+  }
+
+  /**
+   * Save to the active slot, if any. Skipped while the player is dead so a save never resumes into a death.
+   */
+  autosave(gameState: GameState): void {
+    if (this.activeSlot === null || this.autosaveSuspended || gameState.player.isDead) return;
+    this.save(this.activeSlot, gameState);
+  }
+
+  setAutosaveSuspended(suspended: boolean): void {
+    this.autosaveSuspended = suspended;
+  }
+
+  private static slotKey(slot: number): string {
+    return `${SAVE_SLOT_KEY_PREFIX}${slot}`;
+  }
+
+  private static assertSlot(slot: number): void {
+    if (!Number.isInteger(slot) || slot < 1 || slot > SAVE_SLOT_COUNT) {
+      throw new Error(`Save slot must be 1-${SAVE_SLOT_COUNT}, got ${slot}`);
+    }
+  }
+}
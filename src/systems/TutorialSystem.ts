@@ -1,8 +1,10 @@
 import type { GameState } from "@/engine/GameState";
+import type { InputBindings } from "@/engine/InputBindings";
+import { GameAction, isGameAction } from "@/engine/InputBindings";
 
 export interface TutorialMessage {
   id: string;
-  text: string;
+  text: string; // {Action} placeholders are replaced with the bound key
   triggerPosition: number; // X position to trigger the message
   shown: boolean;
   priority: number;
@@ -12,7 +14,7 @@ export interface TutorialMessage {
     borderColor: string;
     fontSize: number;
   };
-  requiredKey: string; // The key code required to advance this step
+  requiredAction: GameAction; // The action required to advance this step
 }
 
 export class TutorialSystem {
@@ -22,8 +24,10 @@ export class TutorialSystem {
   private modalAlpha: number = 0;
   private targetModalAlpha: number = 0;
   private fadeSpeed: number = 4.0;
+  private bindings: InputBindings;
 
-  constructor() {
+  constructor(bindings: InputBindings) {
+    this.bindings = bindings;
     this.setupTutorialMessages();
   }
 
@@ -32,7 +36,7 @@ export class TutorialSystem {
       // Welcome message
       {
         id: "welcome",
-        text: "🎓 Quick Training\n\nUse ← → to move, SPACE to jump\n\nPress X to continue...",
+        text: "🎓 Quick Training\n\nUse {MoveLeft} {MoveRight} to move, {Jump} to jump\n\nPress {Attack} to continue...",
         triggerPosition: 50,
         shown: false,
         priority: 10,
@@ -42,12 +46,12 @@ export class TutorialSystem {
           borderColor: "#D4AF37",
           fontSize: 20,
         },
-        requiredKey: "KeyX",
+        requiredAction: GameAction.Attack,
       },
       // Movement message
       {
         id: "movement",
-        text: "🏃 Movement\n\nJump on platforms to practice!\nHold SPACE longer for higher jumps\n\nPress SPACE to continue...",
+        text: "🏃 Movement\n\nJump on platforms to practice!\nHold {Jump} longer for higher jumps\n\nPress {Jump} to continue...",
         triggerPosition: 250,
         shown: false,
         priority: 9,
@@ -57,12 +61,12 @@ export class TutorialSystem {
           borderColor: "#D4AF37",
           fontSize: 20,
         },
-        requiredKey: "Space",
+        requiredAction: GameAction.Jump,
       },
       // Crystal message
       {
         id: "crystals",
-        text: "💎 Crystals\n\nHit crystals with X to smash them!\nCollect EXP from each one you break\n\nPress X to continue...",
+        text: "💎 Crystals\n\nHit crystals with {Attack} to smash them!\nCollect EXP from each one you break\n\nPress {Attack} to continue...",
         triggerPosition: 400,
         shown: false,
         priority: 8,
@@ -72,12 +76,12 @@ export class TutorialSystem {
           borderColor: "#D4AF37",
           fontSize: 20,
         },
-        requiredKey: "KeyX",
+        requiredAction: GameAction.Attack,
       },
       // Combat section
       {
         id: "combat",
-        text: "⚔️ Combat Training\n\nDefeat the enemy ahead!\nPress X to attack with your sword\nHold X to charge power for energy blast\n\nPress X to continue...",
+        text: "⚔️ Combat Training\n\nDefeat the enemy ahead!\nPress {Attack} to attack with your sword\nHold {Attack} to charge power for energy blast\n\nPress {Attack} to continue...",
         triggerPosition: 650,
         shown: false,
         priority: 9,
@@ -87,12 +91,12 @@ export class TutorialSystem {
           borderColor: "#D4AF37",
           fontSize: 20,
         },
-        requiredKey: "KeyX",
+        requiredAction: GameAction.Attack,
       },
       // Victory message
       {
         id: "victory",
-        text: "🎉 Training Complete!\n\nYou've learned the basics:\n• Movement and jumping\n• Crystal collection\n• Combat and power system\n\nYou're ready for adventure!\n\nPress X to continue...",
+        text: "🎉 Training Complete!\n\nYou've learned the basics:\n• Movement and jumping\n• Crystal collection\n• Combat and power system\n\nYou're ready for adventure!\n\nPress {Attack} to continue...",
         triggerPosition: 1050,
         shown: false,
         priority: 10,
@@ -102,7 +106,7 @@ export class TutorialSystem {
           borderColor: "#D4AF37",
           fontSize: 20,
         },
-        requiredKey: "KeyX",
+        requiredAction: GameAction.Attack,
       },
     ];
   }
@@ -129,8 +133,8 @@ export class TutorialSystem {
       // Check for the required key press to dismiss current message
       if (
         this.currentMessage &&
-        (gameState.input.isKeyPressed(this.currentMessage.requiredKey) ||
-          gameState.input.isKeyDown(this.currentMessage.requiredKey))
+        (gameState.input.isKeyPressed(this.currentMessage.requiredAction) ||
+          gameState.input.isKeyDown(this.currentMessage.requiredAction))
       ) {
         this.dismissCurrentMessage();
       }
@@ -220,14 +224,14 @@ export class TutorialSystem {
     ctx.textAlign = "center";
 
     // Split text into lines, then wrap each line
-    const rawLines = message.text.split("\n");
+    const rawLines = this.formatText(message.text).split("\n");
     let lines: string[] = [];
     for (const rawLine of rawLines) {
       if (rawLine.trim() === "") {
         lines.push("");
       } else {
         // Special case: don't wrap "Press X to continue..."
-        if (rawLine.includes("Press X to continue")) {
+        if (this.isContinuePrompt(rawLine)) {
           lines.push(rawLine);
         } else {
           lines = lines.concat(this.wrapText(ctx, rawLine, maxTextWidth));
@@ -264,7 +268,7 @@ export class TutorialSystem {
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
       // Special styling for the "Press X to continue..." line
-      if (line.includes("Press X to continue")) {
+      if (this.isContinuePrompt(line)) {
         ctx.save();
         ctx.font = `bold ${message.style.fontSize - 2}px 'Orbitron', monospace`;
         ctx.fillStyle = message.style.textColor;
@@ -283,6 +287,19 @@ export class TutorialSystem {
     ctx.restore();
   }
 
+  /**
+   * Replace {Action} placeholders with the currently bound keys
+   */
+  private formatText(text: string): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      isGameAction(name) ? this.bindings.getLabel(name) : placeholder,
+    );
+  }
+
+  private isContinuePrompt(line: string): boolean {
+    return line.startsWith("Press ") && line.endsWith(" to continue...");
+  }
+
   private drawRoundedRect(
     ctx: CanvasRenderingContext2D,
     x: number,
@@ -0,0 +1,91 @@
+import { isRecord, isStringArray } from "@/engine/VersionedStorage";
+
+export interface WorldProgressData {
+  visitedRooms: string[];
+  // Level id -> spawn positions ("x,y") of crystals broken there
+  collectedCrystals: Record<string, string[]>;
+}
+
+export function isWorldProgressData(data: unknown): data is WorldProgressData {
+  return (
+    isRecord(data) &&
+    isStringArray(data.visitedRooms) &&
+    isRecord(data.collectedCrystals) &&
+    Object.values(data.collectedCrystals).every(isStringArray)
+  );
+}
+
+/**
+ * Which rooms the player has been to and which crystals they have broken.
+ * Crystals still respawn with their room (like candles); this is the completion record.
+ */
+export class WorldProgress {
+  private visitedRooms: Set<string> = new Set();
+  private collectedCrystals: Map<string, Set<string>> = new Map();
+
+  markVisited(levelId: string): void {
+    this.visitedRooms.add(levelId);
+  }
+
+  hasVisited(levelId: string): boolean {
+    return this.visitedRooms.has(levelId);
+  }
+
+  getVisitedRooms(): string[] {
+    return Array.from(this.visitedRooms);
+  }
+
+  markCrystalCollected(levelId: string, position: { x: number; y: number }): void {
+    let crystals = this.collectedCrystals.get(levelId);
+    if (!crystals) {
+      crystals = new Set();
+      this.collectedCrystals.set(levelId, crystals);
+    }
+    crystals.add(WorldProgress.crystalKey(position));
+  }
+
+  isCrystalCollected(levelId: string, position: { x: number; y: number }): boolean {
+    return this.collectedCrystals.get(levelId)?.has(WorldProgress.crystalKey(position)) ?? false;
+  }
+
+  /**
+   * Crystals collected in one level, or across all levels when no id is given
+   */
+  getCollectedCrystalCount(levelId?: string): number {
+    if (levelId !== undefined) {
+      return this.collectedCrystals.get(levelId)?.size ?? 0;
+    }
+    let total = 0;
+    this.collectedCrystals.forEach((crystals) => {
+      total += crystals.size;
+    });
+    return total;
+  }
+
+  reset(): void {
+    this.visitedRooms.clear();
+    this.collectedCrystals.clear();
+  }
+
+  toData(): WorldProgressData {
+    const collectedCrystals: Record<string, string[]> = {};
+    this.collectedCrystals.forEach((crystals, levelId) => {
+      collectedCrystals[levelId] = Array.from(crystals);
+    });
+    return { visitedRooms: this.getVisitedRooms(), collectedCrystals };
+  }
+
+  load(data: WorldProgressData): void {
+    this.reset();
+    for (const levelId of data.visitedRooms) {
+      this.visitedRooms.add(levelId);
+    }
+    for (const [levelId, crystals] of Object.entries(data.collectedCrystals)) {
+      this.collectedCrystals.set(levelId, new Set(crystals));
+    }
+  }
+
+  private static crystalKey(position: { x: number; y: number }): string {
+    return `${Math.round(position.x)},${Math.round(position.y)}`;
+  }
+}
@@ -1,4 +1,6 @@
+import type { Clock } from "../../engine/Clock";
 import type { GameState } from "../../engine/GameState";
+import { GameAction } from "../../engine/InputBindings";
 import type { Player } from "../../objects/players/player";
 import { BaseMPAbility, BaseAbilityEffect } from "../MPAbilitySystem";
 
@@ -11,8 +13,8 @@ export class PowerSurgeEffect extends BaseAbilityEffect {
   private strengthMultiplier: number = 1.5;
   private speedMultiplier: number = 1.3;
 
-  constructor() {
-    super('power_surge', 10); // 10 second duration
+  constructor(clock?: Clock) {
+    super('power_surge', 10, clock); // 10 second duration
   }
 
   /**
@@ -35,7 +37,7 @@ export class PowerSurgeEffect extends BaseAbilityEffect {
    */
   protected updateEffect(_deltaTime: number, player: Player, gameState: GameState, _progress: number): void {
     // Create golden aura particles around player
-    if (Math.random() < 0.3) { // 30% chance each frame
+    if (gameState.random.cosmetic.next() < 0.3) { // 30% chance each frame
       this.spawnAuraParticle(player, gameState);
     }
 
@@ -51,8 +53,8 @@ export class PowerSurgeEffect extends BaseAbilityEffect {
     const centerY = player.position.y + player.size.y / 2;
     
     // Random position around player
-    const angle = Math.random() * Math.PI * 2;
-    const distance = 20 + Math.random() * 15;
+    const angle = gameState.random.cosmetic.next() * Math.PI * 2;
+    const distance = 20 + gameState.random.cosmetic.next() * 15;
     const x = centerX + Math.cos(angle) * distance;
     const y = centerY + Math.sin(angle) * distance;
 
@@ -96,7 +98,7 @@ export class PowerSurgeAbility extends BaseMPAbility {
   mpCost = 20;
   cooldown = 15; // 15 second cooldown
   unlockLevel = 1; // Available from level 1
-  keybind = 'Z+X';
+  actions = [GameAction.Cast, GameAction.Attack];
 
   /**
    * Get effect duration in seconds
@@ -124,7 +126,7 @@ export class PowerSurgeAbility extends BaseMPAbility {
    */
   protected applyEffect(player: Player, gameState: GameState): void {
     // Create and apply the power surge effect
-    const effect = new PowerSurgeEffect();
+    const effect = new PowerSurgeEffect(gameState.clock);
     effect.applyEffect(player);
     
     // Add effect to the ability system for tracking
@@ -137,7 +139,7 @@ export class PowerSurgeAbility extends BaseMPAbility {
     // Burst of golden particles when activated
     for (let i = 0; i < 12; i++) {
       const angle = (i / 12) * Math.PI * 2;
-      const distance = 25 + Math.random() * 10;
+      const distance = 25 + gameState.random.cosmetic.next() * 10;
       const x = centerX + Math.cos(angle) * distance;
       const y = centerY + Math.sin(angle) * distance;
       gameState.createHitSpark(x, y);
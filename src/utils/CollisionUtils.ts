@@ -119,12 +119,15 @@ export function checkDiagonalPlatformCollision(
     return { colliding: false };
   }
 
-  // Calculate the surface Y position based on the slope
-  const relativeX = objectX + objectWidth / 2 - bounds.left;
-  const progress = relativeX / (bounds.right - bounds.left);
-
-  // Assume slope goes from top-left to bottom-right (can be made configurable)
-  const surfaceY = bounds.top + progress * (bounds.bottom - bounds.top);
+  // Calculate the surface Y position under the object's centre, along the platform's own line
+  // so that slopes rising to the right work as well as falling ones
+  const { startPoint, endPoint } = diagonalPlatform;
+  const left = startPoint.x <= endPoint.x ? startPoint : endPoint;
+  const right = left === startPoint ? endPoint : startPoint;
+  const relativeX = objectX + objectWidth / 2 - left.x;
+  const progress =
+    right.x === left.x ? 0 : Math.max(0, Math.min(1, relativeX / (right.x - left.x)));
+  const surfaceY = left.y + progress * (right.y - left.y);
 
   // Check if object is touching or below the diagonal surface
   const objectBottom = objectY + objectHeight;